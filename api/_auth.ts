@@ -0,0 +1,25 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { IncomingMessage } from 'http';
+import { roleOf, type Role } from '../src/utils/permissions.ts';
+
+// Files starting with an underscore aren't deployed as endpoints.
+
+/**
+ * Works out who is calling an endpoint from the Supabase access token the browser sends as
+ * `Authorization: Bearer <token>`. A missing or expired token counts as a guest.
+ */
+export async function callerRole(supabase: SupabaseClient, req: IncomingMessage): Promise<Role> {
+  const token = /^Bearer (.+)$/.exec(req.headers.authorization ?? '')?.[1];
+  if (!token) return 'guest';
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser(token);
+  if (!user) return 'guest';
+
+  const { data: login } = await supabase.from('player_login').select('player_id').eq('user_id', user.id).maybeSingle();
+  if (!login) return 'user';
+
+  const { data: player } = await supabase.from('player').select('isAdmin').eq('id', login.player_id).maybeSingle();
+  return roleOf(true, player);
+}
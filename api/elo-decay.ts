@@ -1,34 +1,14 @@
 import { createClient } from '@supabase/supabase-js';
 import type { IncomingMessage, ServerResponse } from 'http';
+import {
+  DECAY_SETTING_KEY,
+  decayPeriod,
+  findDecayPlayers,
+  parseDecayPolicy,
+  type DecayMatch,
+} from '../src/utils/eloDecay.ts';
 
-type Player = { id: number; name: string; elo: number; is_decaying: boolean };
-type Match = { created_at: string; result: string | null; team_a_players: number[]; team_b_players: number[] };
-
-/** A player decays once this many whole days have passed since their last completed match. */
-const DECAY_AFTER_DAYS = 14;
-const DAY_MS = 24 * 60 * 60 * 1000;
-
-function findDecayPlayers(players: Player[], matches: Match[]) {
-  const nowMs = Date.now();
-
-  const lastPlayedMs = new Map<number, number>();
-  matches
-    .filter((m) => m.result === 'A' || m.result === 'B')
-    .forEach((m) => {
-      const ts = new Date(m.created_at).getTime();
-      [...m.team_a_players, ...m.team_b_players].forEach((pid) => {
-        if (ts > (lastPlayedMs.get(pid) ?? 0)) lastPlayedMs.set(pid, ts);
-      });
-    });
-
-  return players.flatMap((player) => {
-    const lastTs = lastPlayedMs.get(player.id);
-    if (!lastTs) return [];
-    const daysInactive = Math.floor((nowMs - lastTs) / DAY_MS);
-    if (daysInactive < DECAY_AFTER_DAYS) return [];
-    return [{ player, daysInactive }];
-  });
-}
+type Player = { id: number; name: string; elo: number; total: number; is_decaying: boolean };
 
 export default async function handler(req: IncomingMessage, res: ServerResponse) {
   if (req.method !== 'GET') {
@@ -49,39 +29,78 @@ export default async function handler(req: IncomingMessage, res: ServerResponse)
     process.env.VITE_PUBLIC__SUPABASE_SERVICE_ROLE_KEY!,
   );
 
-  const [{ data: players, error: playersErr }, { data: matches, error: matchesErr }] = await Promise.all([
-    supabase.from('player').select('id, name, elo, is_decaying').eq('hidden', false),
+  // ?dryRun=1 reports who would decay or recover without writing anything
+  const dryRun = ['1', 'true'].includes(new URL(req.url ?? '', 'http://localhost').searchParams.get('dryRun') ?? '');
+
+  const [
+    { data: players, error: playersErr },
+    { data: matches, error: matchesErr },
+    { data: setting, error: settingErr },
+  ] = await Promise.all([
+    supabase.from('player').select('id, name, elo, total, is_decaying').eq('hidden', false),
     supabase.from('match').select('created_at, result, team_a_players, team_b_players').in('result', ['A', 'B']),
+    supabase.from('setting').select('value').eq('key', DECAY_SETTING_KEY).maybeSingle(),
   ]);
 
-  if (playersErr || matchesErr) {
+  if (playersErr || matchesErr || settingErr) {
     res.writeHead(500, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify({ error: playersErr?.message ?? matchesErr?.message }));
+    res.end(JSON.stringify({ error: playersErr?.message ?? matchesErr?.message ?? settingErr?.message }));
     return;
   }
 
-  const decaying = findDecayPlayers((players ?? []) as Player[], (matches ?? []) as Match[]);
+  const now = new Date();
+  const period = decayPeriod(now);
+  const policy = parseDecayPolicy(setting?.value);
+  const decaying = findDecayPlayers((players ?? []) as Player[], (matches ?? []) as DecayMatch[], now, policy);
   const decayingIds = new Set(decaying.map((d) => d.player.id));
 
-  const recovering = (players ?? []).filter((p) => (p as Player).is_decaying && !decayingIds.has((p as Player).id));
+  const recovering = ((players ?? []) as Player[]).filter((p) => p.is_decaying && !decayingIds.has(p.id));
 
-  await Promise.all([
-    ...decaying.map(({ player }) =>
-      supabase
-        .from('player')
-        .update({ elo: player.elo - 10, is_decaying: true })
-        .eq('id', player.id),
-    ),
-    ...recovering.map((p) =>
-      supabase.from('player').update({ is_decaying: false }).eq('id', (p as Player).id),
-    ),
-  ]);
+  // apply_decay records each deduction in elo_adjustment and skips anyone already charged for
+  // this period, so only the ids it returns were deducted by this run
+  let newlyCharged = new Set(decayingIds);
+  if (dryRun) {
+    const { data: charged } = await supabase
+      .from('elo_adjustment')
+      .select('player_id')
+      .eq('kind', 'decay')
+      .eq('period', period);
+    const chargedIds = new Set((charged ?? []).map((a) => a.player_id as number));
+    newlyCharged = new Set([...decayingIds].filter((id) => !chargedIds.has(id)));
+  } else {
+    const [{ data: applied, error: decayErr }] = await Promise.all([
+      supabase.rpc('apply_decay', {
+        p_period: period,
+        p_player_ids: decaying.map((d) => d.player.id),
+        p_amounts: decaying.map((d) => d.deduction),
+      }),
+      ...recovering.map((p) => supabase.from('player').update({ is_decaying: false }).eq('id', p.id)),
+    ]);
+    if (decayErr) {
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: decayErr.message }));
+      return;
+    }
+    newlyCharged = new Set(((applied ?? []) as { player_id: number }[]).map((a) => a.player_id));
+  }
 
   res.writeHead(200, { 'Content-Type': 'application/json' });
   res.end(
     JSON.stringify({
-      decayed: decaying.map((d) => ({ id: d.player.id, name: d.player.name, daysInactive: d.daysInactive })),
-      recovered: recovering.map((p) => ({ id: (p as Player).id, name: (p as Player).name })),
+      dryRun,
+      period,
+      policy,
+      decayed: decaying
+        .filter((d) => newlyCharged.has(d.player.id))
+        .map((d) => ({
+          id: d.player.id,
+          name: d.player.name,
+          daysInactive: d.daysInactive,
+          deduction: d.deduction,
+          elo: d.player.elo - d.deduction,
+        })),
+      alreadyApplied: decaying.filter((d) => !newlyCharged.has(d.player.id)).map((d) => d.player.id),
+      recovered: recovering.map((p) => ({ id: p.id, name: p.name })),
     }),
   );
 }
@@ -0,0 +1,190 @@
+import { createClient } from '@supabase/supabase-js';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Match as MatchRow } from '../src/types/common.ts';
+import { calculateMatchResult } from '../src/utils/elo.ts';
+import { applyMatchRevert } from '../src/utils/eloReplay.ts';
+import { can, type Action } from '../src/utils/permissions.ts';
+import { callerRole } from './_auth.ts';
+
+// Reached as /api/matches/:id/:action through the rewrite in vercel.json
+export const config = { api: { bodyParser: false } };
+
+type MatchAction = 'end' | 'revert' | 'cancel';
+
+const PERMISSION: Record<MatchAction, Action> = { end: 'endMatch', revert: 'revertMatch', cancel: 'cancelMatch' };
+
+type Match = {
+  id: number;
+  result: string | null;
+  team_a_players: number[];
+  team_b_players: number[];
+  team_a_elos: number[];
+  team_b_elos: number[];
+};
+
+type EndBody = {
+  result?: string;
+  team_a_champions?: string[] | null;
+  team_a_roles?: string[] | null;
+  team_b_champions?: string[] | null;
+  team_b_roles?: string[] | null;
+};
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+function parseBody(req: IncomingMessage): Promise<EndBody> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk: Buffer) => {
+      body += chunk.toString();
+    });
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch (e) {
+        reject(new HttpError(400, (e as Error).message));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function send(res: ServerResponse, status: number, payload: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+}
+
+const supabase = createClient(
+  process.env.VITE_PUBLIC__SUPABASE_URL!,
+  process.env.VITE_PUBLIC__SUPABASE_SERVICE_ROLE_KEY!,
+);
+
+// P0002 is raised by the match functions when the match is no longer in the expected state
+function rpcError(error: { code?: string; message: string }) {
+  return new HttpError(error.code === 'P0002' ? 409 : 500, error.message);
+}
+
+async function fetchRatings(match: Match) {
+  const { data, error } = await supabase
+    .from('player')
+    .select('id, elo, win, total')
+    .in('id', [...match.team_a_players, ...match.team_b_players]);
+  if (error) throw new HttpError(500, error.message);
+  return data;
+}
+
+async function endMatch(id: number, body: EndBody) {
+  const { result } = body;
+  if (result !== 'A' && result !== 'B') throw new HttpError(400, 'result must be "A" or "B"');
+
+  const { data: match, error } = await supabase.from('match').select('*').eq('id', id).maybeSingle();
+  if (error) throw new HttpError(500, error.message);
+  if (!match) throw new HttpError(404, `Match ${id} not found`);
+  if ((match as Match).result !== null) throw new HttpError(409, `Match ${id} is not in progress`);
+
+  const players = await fetchRatings(match as Match);
+  const { teamANewElos, teamBNewElos } = calculateMatchResult(match, result, players);
+
+  // Sent as swings rather than new Elos: end_match adds them to the player rows under a lock, so
+  // anything written to those rows since they were read here is kept
+  const { data: ended, error: rpcErr } = await supabase.rpc('end_match', {
+    p_match_id: id,
+    p_result: result,
+    p_team_a_deltas: teamANewElos.map((elo, i) => elo - match.team_a_elos[i]),
+    p_team_b_deltas: teamBNewElos.map((elo, i) => elo - match.team_b_elos[i]),
+    p_team_a_champions: body.team_a_champions ?? null,
+    p_team_a_roles: body.team_a_roles ?? null,
+    p_team_b_champions: body.team_b_champions ?? null,
+    p_team_b_roles: body.team_b_roles ?? null,
+  });
+  if (rpcErr) throw rpcError(rpcErr);
+
+  return { match: ended, players: await fetchRatings(ended as Match) };
+}
+
+// Every match since the open season started, which is what the replay runs over
+async function fetchSeasonMatches() {
+  const { data: season, error: seasonErr } = await supabase
+    .from('season')
+    .select('start')
+    .is('end', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (seasonErr) throw new HttpError(500, seasonErr.message);
+
+  let query = supabase.from('match').select('*');
+  if (season?.start) query = query.gte('created_at', season.start);
+  const { data, error } = await query;
+  if (error) throw new HttpError(500, error.message);
+  return data as MatchRow[];
+}
+
+async function revertMatch(id: number) {
+  const seasonMatches = await fetchSeasonMatches();
+  if (!seasonMatches.some((m) => m.id === id)) throw new HttpError(409, `Match ${id} is not in the current season`);
+
+  // Replayed without the match, so later matches are re-derived as if it never happened. Ratings
+  // go over as changes that revert_match adds under a row lock, like end_match's swings.
+  const { data: players, error } = await supabase.from('player').select('id, elo, win, total');
+  if (error) throw new HttpError(500, error.message);
+  const plan = applyMatchRevert(seasonMatches, id, players);
+
+  const { data: reverted, error: rpcErr } = await supabase.rpc('revert_match', {
+    p_match_id: id,
+    p_matches: plan.matches,
+    p_deltas: plan.deltas,
+  });
+  if (rpcErr) throw rpcError(rpcErr);
+
+  return { match: reverted, players: await fetchRatings(reverted as Match) };
+}
+
+async function cancelMatch(id: number) {
+  const { data: cancelled, error } = await supabase
+    .from('match')
+    .update({ result: 'Cancelled' })
+    .eq('id', id)
+    .is('result', null)
+    .select()
+    .maybeSingle();
+  if (error) throw new HttpError(500, error.message);
+  if (!cancelled) throw new HttpError(409, `Match ${id} is not in progress`);
+
+  return { match: cancelled, players: [] };
+}
+
+export default async function handler(req: IncomingMessage, res: ServerResponse) {
+  if (req.method !== 'POST') {
+    res.writeHead(405);
+    res.end();
+    return;
+  }
+
+  const params = new URL(req.url ?? '', 'http://localhost').searchParams;
+  const id = Number(params.get('id'));
+  const action = params.get('action') as MatchAction | null;
+
+  try {
+    if (!Number.isInteger(id) || id <= 0) throw new HttpError(400, 'Invalid match id');
+    if (!action || !(action in PERMISSION)) throw new HttpError(404, `Unknown action ${action}`);
+
+    // The service role bypasses row-level security, so the caller is checked here instead
+    const role = await callerRole(supabase, req);
+    if (role === 'guest') throw new HttpError(401, 'Sign in to manage matches');
+    if (!can(role, PERMISSION[action])) throw new HttpError(403, `You are not allowed to ${action} matches`);
+
+    if (action === 'end') send(res, 200, await endMatch(id, await parseBody(req)));
+    else if (action === 'revert') send(res, 200, await revertMatch(id));
+    else send(res, 200, await cancelMatch(id));
+  } catch (err) {
+    send(res, err instanceof HttpError ? err.status : 500, { error: (err as Error).message });
+  }
+}
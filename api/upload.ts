@@ -1,5 +1,8 @@
+import { createClient } from '@supabase/supabase-js';
 import { handleUpload, type HandleUploadBody } from '@vercel/blob/client';
 import type { IncomingMessage, ServerResponse } from 'http';
+import { can } from '../src/utils/permissions.ts';
+import { callerRole } from './_auth.ts';
 
 export const config = { api: { bodyParser: false } };
 
@@ -20,6 +23,11 @@ function parseBody(req: IncomingMessage): Promise<HandleUploadBody> {
   });
 }
 
+const supabase = createClient(
+  process.env.VITE_PUBLIC__SUPABASE_URL!,
+  process.env.VITE_PUBLIC__SUPABASE_SERVICE_ROLE_KEY!,
+);
+
 export default async function handler(req: IncomingMessage, res: ServerResponse) {
   const body = await parseBody(req);
 
@@ -27,10 +35,14 @@ export default async function handler(req: IncomingMessage, res: ServerResponse)
     const jsonResponse = await handleUpload({
       body,
       request: req as any,
-      onBeforeGenerateToken: async () => ({
-        allowedContentTypes: ['image/jpeg', 'image/png', 'image/gif', 'image/webp'],
-        maximumSizeInBytes: 5 * 1024 * 1024, // 5 MB
-      }),
+      // Only avatars are uploaded, so only players editing their profile get a token
+      onBeforeGenerateToken: async () => {
+        if (!can(await callerRole(supabase, req), 'editProfile')) throw new Error('Sign in as a player to upload');
+        return {
+          allowedContentTypes: ['image/jpeg', 'image/png', 'image/gif', 'image/webp'],
+          maximumSizeInBytes: 5 * 1024 * 1024, // 5 MB
+        };
+      },
       onUploadCompleted: async () => {},
     });
 
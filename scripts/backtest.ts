@@ -0,0 +1,63 @@
+/* eslint-disable no-console */
+// Compares rating configurations on a historical match dump:
+//   npm run backtest -- dump.json [configs.json]
+// `dump.json` is either an array of `match` rows or `{ "matches": [...], "players": [...] }` as
+// exported from Supabase; the players' solo-queue ranks feed the balancer's rank prior.
+// `configs.json` is an optional array of BacktestConfig objects; without it the current setup is
+// compared against the alternatives below.
+import { readFileSync } from 'node:fs';
+import type { Match, Player } from '@/types/common.ts';
+import { backtest, type BacktestConfig } from '@/utils/backtest.ts';
+import { RANK_PRIOR_GAMES } from '@/utils/profile.ts';
+import { HANDICAP_RATIO, STREAK_ELO_PER_GAME } from '@/utils/suggestTeams.ts';
+
+const DEFAULT_CONFIGS: BacktestConfig[] = [
+  { name: 'Elo (current)', system: 'elo' },
+  {
+    name: 'Elo + balancer adjustments',
+    system: 'elo',
+    handicapRatio: HANDICAP_RATIO,
+    streakEloPerGame: STREAK_ELO_PER_GAME,
+    rankPriorGames: RANK_PRIOR_GAMES,
+  },
+  { name: 'Elo, flat K=20', system: 'elo', kFactors: { new: 20, developing: 20, established: 20 } },
+  { name: 'Glicko-2', system: 'glicko2' },
+  { name: 'TrueSkill', system: 'trueskill' },
+];
+
+const [dumpPath, configPath] = process.argv.slice(2);
+if (!dumpPath) {
+  console.error('Usage: npm run backtest -- <dump.json> [configs.json]');
+  process.exit(1);
+}
+
+const dump = JSON.parse(readFileSync(dumpPath, 'utf8')) as Match[] | { matches: Match[]; players?: Player[] };
+const matches = Array.isArray(dump) ? dump : dump.matches;
+const players = Array.isArray(dump) ? [] : (dump.players ?? []);
+const configs = configPath ? (JSON.parse(readFileSync(configPath, 'utf8')) as BacktestConfig[]) : DEFAULT_CONFIGS;
+
+const reports = configs.map((config) => backtest(matches, config, players));
+
+console.table(
+  reports.map((r) => ({
+    config: r.name,
+    matches: r.matches,
+    'log-loss': r.logLoss.toFixed(4),
+    brier: r.brier.toFixed(4),
+    accuracy: `${(r.accuracy * 100).toFixed(1)}%`,
+  })),
+);
+
+reports.forEach((r) => {
+  console.log(`\nCalibration · ${r.name}`);
+  console.table(
+    r.calibration
+      .filter((b) => b.count > 0)
+      .map((b) => ({
+        bucket: `${(b.from * 100).toFixed(0)}–${(b.to * 100).toFixed(0)}%`,
+        matches: b.count,
+        predicted: `${(b.predicted * 100).toFixed(1)}%`,
+        observed: `${(b.observed * 100).toFixed(1)}%`,
+      })),
+  );
+});
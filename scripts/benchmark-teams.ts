@@ -0,0 +1,83 @@
+/* eslint-disable no-console */
+// Times the team balancer on synthetic player pools:
+//   npm run benchmark-teams -- [runs]
+// For each format and pool size it reports the mean time of the default search and, where the
+// pool is small enough to enumerate, of an exhaustive search and how far the default's best split
+// is from the exhaustive optimum.
+import type { Pairing, Player } from '@/types/common.ts';
+import { ROLES } from '@/utils/roles.ts';
+import { TEAM_SIZES, findTeams } from '@/utils/suggestTeams.ts';
+
+// Enumerating more splits than this per run takes too long to be worth timing
+const EXHAUSTIVE_BENCH_LIMIT = 200_000;
+const POOL_SIZES = [4, 6, 10, 12, 14, 16, 20, 24];
+
+// Park-Miller generator so every run benchmarks the same pools
+function seeded(seed: number) {
+  let state = seed % 2147483647 || 1;
+  return () => {
+    state = (state * 48271) % 2147483647;
+    return (state - 1) / 2147483646;
+  };
+}
+
+function syntheticPool(size: number, random: () => number): { players: Player[]; pairings: Pairing[] } {
+  const lanes = [...ROLES];
+  const players = Array.from({ length: size }, (_, i) => {
+    const preferred = lanes[Math.floor(random() * lanes.length)];
+    const secondary = lanes[Math.floor(random() * lanes.length)];
+    // Sum of uniforms: roughly normal around 1200
+    const elo = Math.round(900 + (random() + random() + random()) * 200);
+    return {
+      id: i + 1,
+      elo,
+      preferred_roles: [preferred],
+      secondary_roles: secondary === preferred ? [] : [secondary],
+    } as unknown as Player;
+  });
+  const pairings = [
+    { id: 1, player1: 1, player2: 2, type: 'together' },
+    { id: 2, player1: 3, player2: 4, type: 'apart' },
+  ] as Pairing[];
+  return { players, pairings };
+}
+
+function time<T>(runs: number, fn: () => T): { ms: number; result: T } {
+  let result = fn();
+  const start = performance.now();
+  for (let i = 0; i < runs; i += 1) result = fn();
+  return { ms: (performance.now() - start) / runs, result };
+}
+
+const runs = Number(process.argv[2] ?? 20);
+const rows: Record<string, string | number>[] = [];
+
+TEAM_SIZES.forEach((teamSize) => {
+  POOL_SIZES.filter((size) => size >= teamSize * 2).forEach((size) => {
+    const random = seeded(size * 31 + teamSize);
+    const { players, pairings } = syntheticPool(size, random);
+
+    const fast = time(runs, () => findTeams(players, pairings, {}, [], { teamSize, random }));
+    const row: Record<string, string | number> = {
+      format: `${teamSize}v${teamSize}`,
+      pool: size,
+      'default ms': fast.ms.toFixed(2),
+      'best imbalance': fast.result[0]?.imbalance ?? '-',
+    };
+
+    // Who plays, times how they split, halved for mirror images
+    const binomial = (n: number, k: number) =>
+      Array.from({ length: k }, (_, i) => i).reduce((acc, i) => (acc * (n - i)) / (i + 1), 1);
+    const splits = (binomial(size, teamSize * 2) * binomial(teamSize * 2, teamSize)) / 2;
+    if (splits <= EXHAUSTIVE_BENCH_LIMIT) {
+      const exact = time(Math.max(1, Math.floor(runs / 10)), () =>
+        findTeams(players, pairings, {}, [], { teamSize, exhaustiveLimit: Infinity }),
+      );
+      row['exhaustive ms'] = exact.ms.toFixed(2);
+      row['optimal imbalance'] = exact.result[0]?.imbalance ?? '-';
+    }
+    rows.push(row);
+  });
+});
+
+console.table(rows);
@@ -1,4 +1,5 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useCallback } from 'react';
+import { Link } from 'react-router-dom';
 import Leaderboard from '@/components/Leaderboard.tsx';
 import AvailablePlayers from '@/components/AvailablePlayers.tsx';
 import NewMatch from '@/components/NewMatch.tsx';
@@ -11,33 +12,74 @@ import SeasonNav from '@/components/SeasonNav.tsx';
 import WeeklyCard from '@/components/WeeklyCard.tsx';
 import CurrentGame from '@/components/CurrentGame.tsx';
 import FeedbackBox from '@/components/FeedbackBox.tsx';
+import ConnectionBanner from '@/components/ConnectionBanner.tsx';
+import { useAdminContext } from '@/contexts/AdminContext.tsx';
 import { GameDataProvider, useGameDataContext } from '@/contexts/GameDataContext.tsx';
 import { TeamsProvider } from '@/contexts/TeamsContext.tsx';
 import { MatchActionsProvider } from '@/contexts/MatchActionsContext.tsx';
+import type { Player } from '@/types/common.ts';
+import { RATING_SYSTEMS, rateMatches } from '@/utils/ratingSystems.ts';
 import { getWeekWindow, computeWeeklyStats, countWeekMatches, computeWeeklyChemistry } from '@/utils/weeklyStats.ts';
 
 function AppContent() {
-  const { allMatches, matches, players, seasons, streaks } = useGameDataContext();
+  const { allMatches, matches, adjustments, players, seasons, streaks, ratingSystem } = useGameDataContext();
+  const { isAdmin } = useAdminContext();
   const [leaderboardTab, setLeaderboardTab] = useState<'season' | 'weekly'>('season');
 
+  // Elo is stored on the player row (decay included); other systems are computed from this season's matches
+  const ratings = useMemo(() => {
+    if (ratingSystem === 'elo' || !players || !allMatches) return null;
+    return rateMatches(RATING_SYSTEMS[ratingSystem], allMatches, players);
+  }, [ratingSystem, players, allMatches]);
+
+  const ratedPlayers = useMemo(
+    () => (ratings && players ? players.map((p) => ({ ...p, elo: Math.round(ratings.get(p.id)!.rating) })) : players),
+    [ratings, players],
+  );
+
+  const isUnranked = useCallback(
+    (p: Player) => {
+      const state = ratings?.get(p.id);
+      return state ? RATING_SYSTEMS[ratingSystem].isProvisional(state) : p.total === 0;
+    },
+    [ratings, ratingSystem],
+  );
+
   const weekData = useMemo(() => {
     if (!allMatches || !players || allMatches.length === 0) return null;
     const completed = allMatches.filter((m) => m.result === 'A' || m.result === 'B');
     const week = getWeekWindow(completed);
     if (!week) return null;
-    const stats = computeWeeklyStats(allMatches, players, week);
+    const stats = computeWeeklyStats(allMatches, players, week, adjustments);
     const matchCount = countWeekMatches(allMatches, week);
     const chemistry = computeWeeklyChemistry(allMatches, players, week);
     return { week, stats, matchCount, chemistry };
-  }, [allMatches, players]);
+  }, [allMatches, players, adjustments]);
 
   return (
     <>
       <SeasonNav seasons={seasons ?? []} />
 
+      {isAdmin && (
+        <div className="mb-3 flex justify-end text-sm">
+          <Link
+            to="/admin"
+            className={`
+              rounded-lg border border-gray-200 bg-white px-3 py-1.5 shadow-sm
+              hover:bg-gray-100
+              dark:border-gray-700 dark:bg-gray-800 dark:hover:bg-gray-700
+            `}
+          >
+            Admin console
+          </Link>
+        </div>
+      )}
+
       {/* Leaderboard */}
       <Leaderboard
-        players={players}
+        players={ratedPlayers}
+        ratingLabel={RATING_SYSTEMS[ratingSystem].label}
+        isUnranked={isUnranked}
         streaks={streaks}
         matches={allMatches ?? undefined}
         weeklyStats={weekData?.stats}
@@ -100,6 +142,8 @@ function AppContent() {
         {/* History */}
         {matches && <MatchHistory />}
       </div>
+
+      <ConnectionBanner />
     </>
   );
 }
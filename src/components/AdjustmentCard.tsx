@@ -0,0 +1,86 @@
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import type { EloAdjustment, Player } from '@/types/common.ts';
+import { ADJUSTMENT_LABELS } from '@/utils/eloAdjustments.ts';
+import Pill from '@/components/Pill';
+import Avatar from '@/components/Avatar.tsx';
+import { useDisplayName } from '@/contexts/DisplayNameContext.tsx';
+
+dayjs.extend(utc);
+
+interface Props {
+  adjustment: EloAdjustment;
+  players: Pick<Player, 'id' | 'name' | 'ingame' | 'avatar'>[] | null;
+  onRevert?: (adjustment: EloAdjustment) => void;
+}
+
+export default function AdjustmentCard({ adjustment, players, onRevert = undefined }: Props) {
+  const { displayName } = useDisplayName();
+  const player = players?.find((p) => p.id === adjustment.player_id);
+  const author = players?.find((p) => p.id === adjustment.author_id);
+  const reverted = !!adjustment.reverted_at;
+
+  return (
+    <li
+      className={`
+        rounded-xl border border-dashed border-gray-300 p-4 text-sm
+        dark:border-gray-600
+        ${reverted && 'opacity-50'}
+      `}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Pill>{ADJUSTMENT_LABELS[adjustment.kind] ?? adjustment.kind}</Pill>
+          {reverted && <Pill>Reverted</Pill>}
+        </div>
+        <span
+          className={`
+            text-gray-600
+            dark:text-gray-300
+          `}
+        >
+          {dayjs.utc(adjustment.created_at).local().format('DD/MM/YYYY HH:mm')}
+        </span>
+        {onRevert && !reverted ? (
+          <button
+            type="button"
+            className={`
+              cursor-pointer rounded-full bg-red-600 px-2 py-1 text-xs text-white
+              hover:bg-red-700
+              disabled:opacity-50
+            `}
+            onClick={() => onRevert(adjustment)}
+          >
+            Revert
+          </button>
+        ) : (
+          <span />
+        )}
+      </div>
+      <div className="mt-3 flex items-center gap-2">
+        <span
+          className={`
+            w-8 text-right
+            ${adjustment.amount >= 0 ? 'text-green-700' : 'text-red-700'}
+            ${reverted && 'line-through'}
+          `}
+        >
+          {adjustment.amount >= 0 ? `+${adjustment.amount}` : adjustment.amount}
+        </span>
+        <Avatar src={player?.avatar ?? null} name={player ? displayName(player) : ''} />
+        <span className="min-w-0 flex-1 truncate">{player ? displayName(player) : ''}</span>
+      </div>
+      {(adjustment.reason || author) && (
+        <p
+          className={`
+            mt-2 text-gray-600
+            dark:text-gray-300
+          `}
+        >
+          {adjustment.reason}
+          {author && ` — by ${displayName(author)}`}
+        </p>
+      )}
+    </li>
+  );
+}
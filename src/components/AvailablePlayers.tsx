@@ -5,14 +5,47 @@ import Avatar from '@/components/Avatar.tsx';
 import { useDisplayName } from '@/contexts/DisplayNameContext.tsx';
 import { useGameDataContext } from '@/contexts/GameDataContext.tsx';
 import { useTeamsContext } from '@/contexts/TeamsContext.tsx';
+import { useAdminContext } from '@/contexts/AdminContext.tsx';
+import { can } from '@/utils/permissions.ts';
 
 export default function AvailablePlayers() {
-  const { players, streaks } = useGameDataContext();
-  const { availableIds, toggleAvailable } = useTeamsContext();
+  const { players, streaks, checkIn, checkOut } = useGameDataContext();
+  const { availableIds, toggleAvailable, rotation, rotationMode } = useTeamsContext();
   const { displayName } = useDisplayName();
+  const { me, role } = useAdminContext();
+  const meCheckedIn = !!me && availableIds.includes(me.id);
 
   return (
-    <Section title="Available Players" actions={<Pill>{availableIds.length} players</Pill>}>
+    <Section
+      title="Available Players"
+      actions={
+        <div className="flex items-center gap-2">
+          {me && (
+            <button
+              type="button"
+              onClick={() => (meCheckedIn ? checkOut(me.id) : checkIn([me.id]))}
+              className={`
+                cursor-pointer rounded-full px-3 py-1 text-xs font-medium text-white
+                ${
+                  meCheckedIn
+                    ? `
+                      bg-gray-500
+                      hover:bg-gray-600
+                    `
+                    : `
+                      bg-green-600
+                      hover:bg-green-700
+                    `
+                }
+              `}
+            >
+              {meCheckedIn ? 'Check out' : "I'm in"}
+            </button>
+          )}
+          <Pill>{availableIds.length} players</Pill>
+        </div>
+      }
+    >
       <div
         className={`
           columns-1 gap-2
@@ -35,6 +68,7 @@ export default function AvailablePlayers() {
                 className="h-4 w-4"
                 checked={availableIds.includes(player.id)}
                 onChange={() => toggleAvailable(player.id)}
+                disabled={!can(role, 'checkIn')}
               />
               <Avatar src={player.avatar} name={displayName(player)} streak={streaks[player.id]} />
               <span className="flex-1">{displayName(player)}</span>
@@ -49,6 +83,35 @@ export default function AvailablePlayers() {
             </label>
           ))}
       </div>
+      {rotation && rotationMode && rotation.benched.length > 0 && (
+        <div className="mt-2">
+          <h3
+            className={`
+              mb-2 text-sm font-medium text-gray-500
+              dark:text-gray-400
+            `}
+          >
+            Waiting queue
+          </h3>
+          <ol className="space-y-1.5 text-sm">
+            {rotation.benched.map((entry, i) => (
+              <li key={entry.player.id} className="flex items-center gap-2">
+                <span className="w-5 text-right text-gray-400 tabular-nums">{i + 1}</span>
+                <Avatar src={entry.player.avatar} name={displayName(entry.player)} />
+                <span className="flex-1 truncate">{displayName(entry.player)}</span>
+                <span
+                  className={`
+                    text-xs text-gray-500
+                    dark:text-gray-400
+                  `}
+                >
+                  {entry.played} played · {entry.satOut} sat out
+                </span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
     </Section>
   );
 }
@@ -0,0 +1,21 @@
+import { useGameDataContext } from '@/contexts/GameDataContext.tsx';
+
+export default function ConnectionBanner() {
+  const { realtimeStatus } = useGameDataContext();
+
+  if (realtimeStatus !== 'offline') return null;
+
+  return (
+    <div
+      role="status"
+      className={`
+        fixed bottom-4 left-1/2 z-30 flex -translate-x-1/2 items-center gap-2 rounded-full bg-amber-100 px-4 py-2
+        text-sm font-medium text-amber-900 shadow-lg ring-1 ring-amber-300
+        dark:bg-amber-900/80 dark:text-amber-100 dark:ring-amber-700
+      `}
+    >
+      <span className="h-2 w-2 animate-pulse rounded-full bg-amber-500" />
+      Live updates paused · reconnecting…
+    </div>
+  );
+}
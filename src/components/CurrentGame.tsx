@@ -3,11 +3,14 @@ import MatchCard from '@/components/MatchCard.tsx';
 import { useGameDataContext } from '@/contexts/GameDataContext.tsx';
 import { useTeamsContext } from '@/contexts/TeamsContext.tsx';
 import { useMatchActionsContext } from '@/contexts/MatchActionsContext.tsx';
+import { useAdminContext } from '@/contexts/AdminContext.tsx';
+import { can } from '@/utils/permissions.ts';
 
 export default function CurrentGame() {
   const { matches, players } = useGameDataContext();
   const { lastMatch } = useTeamsContext();
   const { endMatch, revertMatch, cancelMatch } = useMatchActionsContext();
+  const { role } = useAdminContext();
 
   const currentMatch = matches?.find((m) => m.result === null);
 
@@ -18,11 +21,12 @@ export default function CurrentGame() {
       <Section title="Current Game">
         <ul>
           <MatchCard
+            key={currentMatch.id}
             match={currentMatch}
             players={players}
-            onEndMatch={endMatch}
-            onRevertMatch={revertMatch}
-            onCancelMatch={cancelMatch}
+            onEndMatch={can(role, 'endMatch') ? endMatch : undefined}
+            onRevertMatch={can(role, 'revertMatch') ? revertMatch : undefined}
+            onCancelMatch={can(role, 'cancelMatch') ? cancelMatch : undefined}
             onRematch={lastMatch}
           />
         </ul>
@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { useGameDataContext } from '@/contexts/GameDataContext.tsx';
+import { parseDecayPolicy, type DecayPolicy } from '@/utils/eloDecay.ts';
+
+const FIELDS: { key: keyof DecayPolicy; label: string; min: number }[] = [
+  { key: 'amount', label: 'Elo per week', min: 1 },
+  { key: 'escalation', label: '+ per extra week', min: 0 },
+  { key: 'maxAmount', label: 'Max per week', min: 1 },
+  { key: 'graceDays', label: 'After days', min: 1 },
+  { key: 'floor', label: 'Floor', min: 0 },
+  { key: 'threshold', label: 'Only above', min: 0 },
+  { key: 'minGames', label: 'Min games', min: 0 },
+];
+
+export default function DecayControls() {
+  const { decayPolicy, setDecayPolicy } = useGameDataContext();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<DecayPolicy>(decayPolicy);
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    setSaving(true);
+    await setDecayPolicy(parseDecayPolicy(draft));
+    setSaving(false);
+    setOpen(false);
+  };
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => {
+          setDraft(decayPolicy);
+          setOpen(true);
+        }}
+        className={`
+          cursor-pointer rounded-lg border border-gray-200 bg-white px-3 py-1.5 text-sm shadow-sm
+          hover:bg-gray-100
+          dark:border-gray-700 dark:bg-gray-800 dark:hover:bg-gray-700
+        `}
+      >
+        Decay
+      </button>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      {FIELDS.map(({ key, label, min }) => (
+        <label key={key} className="flex items-center gap-1">
+          <span
+            className={`
+              text-gray-500
+              dark:text-gray-400
+            `}
+          >
+            {label}
+          </span>
+          <input
+            type="number"
+            min={min}
+            value={draft[key]}
+            onChange={(e) => setDraft((d) => ({ ...d, [key]: Number(e.target.value) }))}
+            className={`
+              w-20 rounded border border-gray-300 bg-transparent px-2 py-1.5
+              dark:border-gray-600
+            `}
+          />
+        </label>
+      ))}
+      <button
+        type="button"
+        disabled={saving}
+        onClick={handleSave}
+        className={`
+          cursor-pointer rounded-lg bg-indigo-600 px-3 py-1.5 text-white
+          hover:bg-indigo-700
+          disabled:cursor-not-allowed disabled:opacity-50
+        `}
+      >
+        {saving ? 'Saving…' : 'Save'}
+      </button>
+      <button
+        type="button"
+        onClick={() => setOpen(false)}
+        className={`
+          cursor-pointer rounded-lg px-3 py-1.5 text-gray-600
+          hover:bg-gray-100
+          dark:text-gray-300 dark:hover:bg-gray-800
+        `}
+      >
+        Cancel
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import Select from '@/components/Select.tsx';
+import {
+  ADJUSTMENT_LABELS,
+  MANUAL_ADJUSTMENT_KINDS,
+  isManualAdjustmentKind,
+  type ManualAdjustmentKind,
+} from '@/utils/eloAdjustments.ts';
+
+const KIND_OPTIONS = MANUAL_ADJUSTMENT_KINDS.map((kind) => ({ value: kind, label: ADJUSTMENT_LABELS[kind] }));
+
+const AMOUNT_HINTS: Record<ManualAdjustmentKind, string> = {
+  penalty: 'Elo to take',
+  compensation: 'Elo to give',
+  correction: '± Elo',
+};
+
+export default function EloAdjustmentForm({
+  onAdjust,
+}: {
+  onAdjust: (kind: ManualAdjustmentKind, amount: number, reason: string) => Promise<boolean>;
+}) {
+  const [kind, setKind] = useState<ManualAdjustmentKind>('penalty');
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const value = Number(amount);
+  const valid = Number.isInteger(value) && value !== 0 && reason.trim() !== '';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!valid) return;
+    setSaving(true);
+    const saved = await onAdjust(kind, value, reason.trim());
+    setSaving(false);
+    if (saved) {
+      setAmount('');
+      setReason('');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-wrap items-center gap-2 text-sm">
+      <Select
+        value={kind}
+        options={KIND_OPTIONS}
+        onChange={(v) => isManualAdjustmentKind(v) && setKind(v)}
+        aria-label="Adjustment kind"
+      />
+      <input
+        type="number"
+        step={1}
+        placeholder={AMOUNT_HINTS[kind]}
+        value={amount}
+        onChange={(e) => setAmount(e.target.value)}
+        className={`
+          w-28 rounded border border-gray-300 bg-transparent px-2 py-1.5
+          dark:border-gray-600
+        `}
+      />
+      <input
+        type="text"
+        placeholder="Reason"
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        className={`
+          min-w-0 flex-1 rounded border border-gray-300 bg-transparent px-2 py-1.5
+          dark:border-gray-600
+        `}
+      />
+      <button
+        type="submit"
+        disabled={!valid || saving}
+        className={`
+          cursor-pointer rounded-lg bg-indigo-600 px-3 py-1.5 text-white
+          hover:bg-indigo-700
+          disabled:cursor-not-allowed disabled:opacity-50
+        `}
+      >
+        {saving ? 'Saving…' : 'Apply'}
+      </button>
+    </form>
+  );
+}
@@ -3,17 +3,19 @@ import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, Tooltip, CartesianG
 import dayjs from 'dayjs';
 import utc from 'dayjs/plugin/utc';
 import supabase from '@/lib/supabase.ts';
-import type { Match, Season } from '@/types/common.ts';
+import type { EloAdjustment, Match, Season } from '@/types/common.ts';
 import Select from '@/components/Select.tsx';
+import { buildEloHistory } from '@/utils/eloHistory.ts';
 
 dayjs.extend(utc);
 
 interface EloChartProps {
   playerId: number;
   matches: Match[];
+  adjustments?: EloAdjustment[];
 }
 
-export default function EloChart({ playerId, matches }: EloChartProps) {
+export default function EloChart({ playerId, matches, adjustments = [] }: EloChartProps) {
   const [seasons, setSeasons] = useState<Pick<Season, 'id' | 'name' | 'start' | 'end'>[]>([]);
   const [selectedSeasonId, setSelectedSeasonId] = useState<number | 'all'>('all');
 
@@ -40,27 +42,22 @@ export default function EloChart({ playerId, matches }: EloChartProps) {
   );
 
   const eloHistory = useMemo(() => {
-    let completed = matches
-      .filter((m) => (m.result === 'A' || m.result === 'B') && m.team_a_new_elos && m.team_b_new_elos)
-      .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+    let points = buildEloHistory(playerId, matches, adjustments);
 
     if (selectedSeason) {
-      completed = completed.filter(
-        (m) =>
-          (!selectedSeason.start || m.created_at >= selectedSeason.start) &&
-          (!selectedSeason.end || m.created_at <= selectedSeason.end),
+      points = points.filter(
+        (p) =>
+          (!selectedSeason.start || p.at >= selectedSeason.start) &&
+          (!selectedSeason.end || p.at <= selectedSeason.end),
       );
     }
 
-    return completed.map((m, i) => {
-      const onTeamA = m.team_a_players.includes(playerId);
-      const players = onTeamA ? m.team_a_players : m.team_b_players;
-      const newElos = onTeamA ? m.team_a_new_elos! : m.team_b_new_elos!;
-      const idx = players.indexOf(playerId);
-      const date = dayjs.utc(m.created_at).local().format('DD/MM');
-      return { elo: newElos[idx], date, tick: i };
+    return points.map((p, i) => {
+      const date = dayjs.utc(p.at).local().format('DD/MM');
+      const label = p.kind === 'match' ? 'Elo' : `Elo (${p.kind} ${p.change})`;
+      return { elo: p.elo, date, tick: i, label };
     });
-  }, [matches, playerId, selectedSeason]);
+  }, [adjustments, matches, playerId, selectedSeason]);
 
   const verticalDates = eloHistory.length > 50;
 
@@ -109,7 +106,7 @@ export default function EloChart({ playerId, matches }: EloChartProps) {
               <YAxis domain={['dataMin - 10', 'dataMax + 10']} tick={{ fontSize: 12 }} width={45} />
               <Tooltip
                 contentStyle={{ borderRadius: '0.5rem', fontSize: '0.875rem' }}
-                formatter={(value) => [value, 'Elo']}
+                formatter={(value, _, item) => [value, item.payload.label]}
                 labelFormatter={(_, payload) => (payload.length ? payload[0].payload.date : '')}
               />
               <Line
@@ -1,15 +1,16 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import ReactMarkdown, { type Components } from 'react-markdown';
-import remarkGfm from 'remark-gfm';
 import Pagination from 'rc-pagination';
 import dayjs from 'dayjs';
 import supabase from '@/lib/supabase.ts';
 import { useAuth } from '@/contexts/AuthContext.tsx';
+import { useAdminContext } from '@/contexts/AdminContext.tsx';
 import { useDisplayName } from '@/contexts/DisplayNameContext.tsx';
 import { useGameDataContext } from '@/contexts/GameDataContext.tsx';
 import Section from '@/components/Section.tsx';
 import Avatar from '@/components/Avatar.tsx';
+import Markdown from '@/components/Markdown.tsx';
+import useAdminActions from '@/hooks/useAdminActions.ts';
 import type { Player } from '@/types/common.ts';
 
 const PAGE_SIZE = 10;
@@ -25,47 +26,6 @@ interface FeedbackItem {
   votedByMe: boolean;
 }
 
-// Compact markdown styling for feedback text — inline-friendly, safe links.
-const markdownComponents: Components = {
-  p: ({ children }) => (
-    <p
-      className={`
-        my-0.5
-        first:mt-0
-        last:mb-0
-      `}
-    >
-      {children}
-    </p>
-  ),
-  a: ({ children, href }) => (
-    <a
-      href={href}
-      target="_blank"
-      rel="noopener noreferrer"
-      className={`
-        text-indigo-600 underline
-        dark:text-indigo-400
-      `}
-    >
-      {children}
-    </a>
-  ),
-  ul: ({ children }) => <ul className="my-0.5 list-disc pl-4">{children}</ul>,
-  ol: ({ children }) => <ol className="my-0.5 list-decimal pl-4">{children}</ol>,
-  li: ({ children }) => <li className="my-0">{children}</li>,
-  code: ({ children }) => (
-    <code
-      className={`
-        rounded bg-gray-100 px-1 py-0.5 font-mono text-[0.85em]
-        dark:bg-gray-800
-      `}
-    >
-      {children}
-    </code>
-  ),
-};
-
 export default function FeedbackBox() {
   const { user } = useAuth();
   const navigate = useNavigate();
@@ -88,13 +48,8 @@ export default function FeedbackBox() {
     return map;
   }, [players]);
 
-  const myPlayer = useMemo(
-    () => (user && players ? (players.find((p) => p.email === user.email) ?? null) : null),
-    [user, players],
-  );
-
-  const myPlayerId = myPlayer?.id ?? null;
-  const isAdmin = myPlayer?.isAdmin ?? false;
+  const { me, isAdmin } = useAdminContext();
+  const myPlayerId = me?.id ?? null;
 
   const filteredItems = useMemo(
     () => (statusFilter === 'all' ? items : items.filter((i) => i.status === statusFilter)),
@@ -154,6 +109,8 @@ export default function FeedbackBox() {
     load();
   }, [load]);
 
+  const { setFeedbackStatus } = useAdminActions(load);
+
   const submit = useCallback(async () => {
     if (!text.trim() || !user) return;
     setSubmitting(true);
@@ -166,21 +123,17 @@ export default function FeedbackBox() {
   const toggleStatus = useCallback(
     async (item: FeedbackItem) => {
       if (!isAdmin) return;
-      const next = item.status === 'done' ? 'open' : 'done';
-      await supabase.from('feedback').update({ status: next }).eq('id', item.id);
-      await load();
+      await setFeedbackStatus(item.id, item.status === 'done' ? 'open' : 'done');
     },
-    [isAdmin, load],
+    [isAdmin, setFeedbackStatus],
   );
 
   const toggleJoke = useCallback(
     async (item: FeedbackItem) => {
       if (!isAdmin) return;
-      const next = item.status === 'joke' ? 'open' : 'joke';
-      await supabase.from('feedback').update({ status: next }).eq('id', item.id);
-      await load();
+      await setFeedbackStatus(item.id, item.status === 'joke' ? 'open' : 'joke');
     },
-    [isAdmin, load],
+    [isAdmin, setFeedbackStatus],
   );
 
   const toggleVote = useCallback(
@@ -403,9 +356,7 @@ export default function FeedbackBox() {
                     </div>
                   ) : (
                     <div className="text-sm break-words">
-                      <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
-                        {item.text}
-                      </ReactMarkdown>
+                      <Markdown>{item.text}</Markdown>
                     </div>
                   )}
 
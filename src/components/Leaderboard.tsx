@@ -20,6 +20,8 @@ type TabType = 'season' | 'weekly';
 // collide with the top-3 crowns and don't feel like piling on a tiny leaderboard.
 const BOTTOM_BADGE_MIN_PLAYERS = 8;
 
+const hasNoGames = (p: Player) => p.total === 0;
+
 export default function Leaderboard({
   players,
   streaks,
@@ -29,6 +31,8 @@ export default function Leaderboard({
   weekLabel = undefined,
   activeTab = 'season',
   onTabChange = undefined,
+  ratingLabel = 'Elo',
+  isUnranked = hasNoGames,
 }: {
   players: Player[] | null;
   streaks: Record<number, Streak>;
@@ -38,6 +42,9 @@ export default function Leaderboard({
   weekLabel?: string;
   activeTab?: TabType;
   onTabChange?: (tab: TabType) => void;
+  ratingLabel?: string;
+  // Players too uncertain to rank; they're listed under the "Unranked" divider without a rank
+  isUnranked?: (p: Player) => boolean;
 }) {
   const { displayName } = useDisplayName();
 
@@ -92,12 +99,12 @@ export default function Leaderboard({
   }, [players, sort, displayName]);
 
   // Competition ranking by Elo: equal Elo shares a rank (1,2,2,4,…). Tie order is win % then wins.
-  // Rank is a player's Elo standing, independent of the active sort column; unranked (no games) get no rank.
+  // Rank is a player's Elo standing, independent of the active sort column; unranked players get no rank.
   const rankByPlayerId = useMemo(() => {
     const map = new Map<number, number>();
     if (!players) return map;
     const ranked = orderBy(
-      players.filter((p) => !p.hidden && p.total > 0),
+      players.filter((p) => !p.hidden && !isUnranked(p)),
       [(p) => p.elo, (p) => (p.total ? p.win / p.total : -Infinity), (p) => p.win],
       ['desc', 'desc', 'desc'],
     );
@@ -111,7 +118,7 @@ export default function Leaderboard({
       map.set(p.id, lastRank);
     });
     return map;
-  }, [players]);
+  }, [players, isUnranked]);
 
   // Bottom-3 "hall of shame" ranks, mirroring rankByPlayerId but counting up from the worst Elo
   // (1 = dead last). Equal Elo shares a bottom rank. Skipped for small pools, and never applied to
@@ -120,7 +127,7 @@ export default function Leaderboard({
     const map = new Map<number, number>();
     if (!players) return map;
     const ranked = orderBy(
-      players.filter((p) => !p.hidden && p.total > 0),
+      players.filter((p) => !p.hidden && !isUnranked(p)),
       [(p) => p.elo, (p) => (p.total ? p.win / p.total : -Infinity), (p) => p.win],
       ['asc', 'asc', 'asc'],
     );
@@ -135,7 +142,7 @@ export default function Leaderboard({
       if (lastRank <= 3 && (rankByPlayerId.get(p.id) ?? 0) > 3) map.set(p.id, lastRank);
     });
     return map;
-  }, [players, rankByPlayerId]);
+  }, [players, rankByPlayerId, isUnranked]);
 
   const sortedWeeklyStats = useMemo(() => {
     if (!weeklyStats) return [];
@@ -181,11 +188,12 @@ export default function Leaderboard({
     return buildLast5(weekMatches, players);
   }, [matches, players]);
 
-  // Three groups: above the initial Elo, at/below it (but played), and unranked (no games yet).
-  const rankedPlayers = useMemo(() => sortedPlayers.filter((p) => p.total > 0), [sortedPlayers]);
+  // Three groups: above the initial Elo, at/below it (but ranked), and unranked (no games yet, or
+  // still provisional under an uncertainty-based rating system).
+  const rankedPlayers = useMemo(() => sortedPlayers.filter((p) => !isUnranked(p)), [sortedPlayers, isUnranked]);
   const abovePlayers = useMemo(() => rankedPlayers.filter((p) => p.elo > INITIAL_ELO), [rankedPlayers]);
   const belowPlayers = useMemo(() => rankedPlayers.filter((p) => p.elo <= INITIAL_ELO), [rankedPlayers]);
-  const unrankedPlayers = useMemo(() => sortedPlayers.filter((p) => p.total === 0), [sortedPlayers]);
+  const unrankedPlayers = useMemo(() => sortedPlayers.filter((p) => isUnranked(p)), [sortedPlayers, isUnranked]);
 
   // Ascending Elo sort lists the weakest players first, so the below-baseline band leads.
   const eloBands = useMemo(
@@ -204,7 +212,7 @@ export default function Leaderboard({
   // Short, sports-table-style headers so the numeric columns stay narrow (W/L/GP = wins/losses/games played)
   const seasonColumns: { key: SortKey; label: string; align: 'left' | 'right' }[] = [
     { key: 'name', label: 'Player', align: 'left' },
-    { key: 'elo', label: 'Elo', align: 'right' },
+    { key: 'elo', label: ratingLabel, align: 'right' },
     { key: 'win', label: 'W', align: 'right' },
     { key: 'losses', label: 'L', align: 'right' },
     { key: 'total', label: 'GP', align: 'right' },
@@ -234,7 +242,7 @@ export default function Leaderboard({
       bottomRank={bottomRankByPlayerId.get(row.id) ?? null}
       eloCell={
         <span className="inline-flex items-center justify-end gap-1.5 font-semibold">
-          {row.is_decaying && <DecayIndicator />}
+          {row.is_decaying && <DecayIndicator playerId={row.id} />}
           {row.elo}
         </span>
       }
@@ -304,7 +312,7 @@ export default function Leaderboard({
 
   return (
     <Section
-      title="Elo Ratings"
+      title={`${ratingLabel} Ratings`}
       actions={
         hasWeeklyTab ? (
           <div
@@ -0,0 +1,53 @@
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+
+// Compact markdown styling for text players write (feedback, bios) — inline-friendly, safe links.
+const markdownComponents: Components = {
+  p: ({ children }) => (
+    <p
+      className={`
+        my-0.5
+        first:mt-0
+        last:mb-0
+      `}
+    >
+      {children}
+    </p>
+  ),
+  a: ({ children, href }) => (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer"
+      className={`
+        text-indigo-600 underline
+        dark:text-indigo-400
+      `}
+    >
+      {children}
+    </a>
+  ),
+  ul: ({ children }) => <ul className="my-0.5 list-disc pl-4">{children}</ul>,
+  ol: ({ children }) => <ol className="my-0.5 list-decimal pl-4">{children}</ol>,
+  li: ({ children }) => <li className="my-0">{children}</li>,
+  code: ({ children }) => (
+    <code
+      className={`
+        rounded bg-gray-100 px-1 py-0.5 font-mono text-[0.85em]
+        dark:bg-gray-800
+      `}
+    >
+      {children}
+    </code>
+  ),
+};
+
+function Markdown({ children }: { children: string }) {
+  return (
+    <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
+      {children}
+    </ReactMarkdown>
+  );
+}
+
+export default Markdown;
@@ -1,10 +1,16 @@
+import { useState } from 'react';
 import { zip } from 'es-toolkit';
 import { find } from 'es-toolkit/compat';
 import dayjs from 'dayjs';
 import utc from 'dayjs/plugin/utc';
 import type { Player, Match } from '@/types/common.ts';
+import type { MatchChanges } from '@/utils/eloReplay.ts';
+import { normalizeChampion, type MatchPicks } from '@/utils/champions.ts';
+import { ROLES, assignRoles } from '@/utils/roles.ts';
 import Pill from '@/components/Pill';
 import Avatar from '@/components/Avatar.tsx';
+import MatchEditor from '@/components/MatchEditor.tsx';
+import Select from '@/components/Select.tsx';
 import { useDisplayName } from '@/contexts/DisplayNameContext.tsx';
 
 dayjs.extend(utc);
@@ -12,31 +18,44 @@ dayjs.extend(utc);
 interface Props {
   match: Match;
   players: Player[] | null;
-  onEndMatch: (match: Match, result: 'A' | 'B') => void;
-  onRevertMatch: (match: Match) => void;
-  onCancelMatch: (match: Match) => void;
   onRematch: (match: Match) => void;
+  // Each action is left out when the signed-in user's role may not take it
+  onEndMatch?: (match: Match, result: 'A' | 'B', picks?: MatchPicks) => void;
+  onRevertMatch?: (match: Match) => void;
+  onCancelMatch?: (match: Match) => void;
+  onEditMatch?: (match: Match, changes: MatchChanges) => void;
 }
 
+const ROLE_OPTIONS = [{ value: '', label: 'Lane' }, ...ROLES.map((role) => ({ value: role, label: role }))];
+
+type PickField = 'champion' | 'role';
+
 function TeamEloList({
   playerIds,
   newElos,
   elos,
   players,
+  champions = null,
+  roles = null,
+  onPickChange = undefined,
 }: {
   playerIds: number[];
   newElos: number[];
   elos: number[];
   players: Player[] | null;
+  champions?: string[] | null;
+  roles?: string[] | null;
+  onPickChange?: (index: number, field: PickField, value: string) => void;
 }) {
   const { displayName } = useDisplayName();
 
   return (
     <ul className="mb-3 space-y-1.5">
-      {zip(playerIds, newElos, elos).map(([id, newElo, elo]) => {
+      {zip(playerIds, newElos, elos).map(([id, newElo, elo], i) => {
         const diff = newElo - elo;
         const diffStr = diff >= 0 ? `+${diff}` : diff;
         const player = find(players, { id });
+        const pick = [champions?.[i], roles?.[i]].filter(Boolean).join(' · ');
         return (
           <li key={id} className="flex items-center gap-2">
             {newElo && elo && (
@@ -51,6 +70,39 @@ function TeamEloList({
             )}
             <Avatar src={player?.avatar ?? null} name={player ? displayName(player) : ''} />
             <span className="min-w-0 flex-1 truncate">{player ? displayName(player) : ''}</span>
+            {onPickChange ? (
+              <>
+                <input
+                  type="text"
+                  placeholder="Champion"
+                  value={champions?.[i] ?? ''}
+                  onChange={(e) => onPickChange(i, 'champion', e.target.value)}
+                  className={`
+                    w-24 min-w-0 rounded border border-gray-300 bg-transparent px-2 py-1 text-sm
+                    dark:border-gray-600
+                  `}
+                  aria-label={`Champion for ${player ? displayName(player) : 'player'}`}
+                />
+                <Select
+                  className="w-24"
+                  value={roles?.[i] ?? ''}
+                  options={ROLE_OPTIONS}
+                  onChange={(v) => onPickChange(i, 'role', v)}
+                  aria-label={`Lane for ${player ? displayName(player) : 'player'}`}
+                />
+              </>
+            ) : (
+              pick && (
+                <span
+                  className={`
+                    truncate text-xs text-gray-500
+                    dark:text-gray-400
+                  `}
+                >
+                  {pick}
+                </span>
+              )
+            )}
           </li>
         );
       })}
@@ -58,7 +110,58 @@ function TeamEloList({
   );
 }
 
-export default function MatchCard({ match, players, onEndMatch, onRevertMatch, onCancelMatch, onRematch }: Props) {
+export default function MatchCard({
+  match,
+  players,
+  onRematch,
+  onEndMatch = undefined,
+  onRevertMatch = undefined,
+  onCancelMatch = undefined,
+  onEditMatch = undefined,
+}: Props) {
+  const [editing, setEditing] = useState(false);
+  const completed = match.result === 'A' || match.result === 'B';
+
+  // Picks for an in-progress match, with lanes pre-filled from the balancer's assignment
+  const [picks, setPicks] = useState(() => {
+    const lanesFor = (ids: number[]) => {
+      const team = ids.flatMap((id) => find(players, { id }) ?? []);
+      if (team.length !== ids.length) return ids.map(() => '');
+      const { roles } = assignRoles(
+        team,
+        team.map((p) => p.elo),
+      );
+      return ids.map((id) => roles.get(id) ?? '');
+    };
+    return {
+      team_a_champions: match.team_a_players.map(() => ''),
+      team_a_roles: lanesFor(match.team_a_players),
+      team_b_champions: match.team_b_players.map(() => ''),
+      team_b_roles: lanesFor(match.team_b_players),
+    };
+  });
+
+  const changePick = (side: 'a' | 'b') => (index: number, field: PickField, value: string) => {
+    const key = field === 'champion' ? (`team_${side}_champions` as const) : (`team_${side}_roles` as const);
+    setPicks((prev) => ({ ...prev, [key]: prev[key].map((v, i) => (i === index ? value : v)) }));
+  };
+
+  const handleEnd = (result: 'A' | 'B') => {
+    const champions = (names: string[]) => names.map((name) => normalizeChampion(name) ?? '');
+    onEndMatch?.(match, result, {
+      ...picks,
+      team_a_champions: champions(picks.team_a_champions),
+      team_b_champions: champions(picks.team_b_champions),
+    });
+  };
+
+  const handleSave = (changes: MatchChanges) => {
+    // eslint-disable-next-line no-alert
+    if (!window.confirm('Save changes? Elo for this match and every later one will be recalculated.')) return;
+    onEditMatch?.(match, changes);
+    setEditing(false);
+  };
+
   return (
     <li
       className={`
@@ -70,7 +173,20 @@ export default function MatchCard({ match, players, onEndMatch, onRevertMatch, o
       <div className="flex items-center justify-between">
         <div className="flex flex-1/4 justify-start gap-2">
           {match.result !== 'A' && match.result !== 'B' && <Pill>{match.result || 'In game'}</Pill>}
-          {(match.result === 'A' || match.result === 'B') && (
+          {completed && onEditMatch && !editing && (
+            <button
+              type="button"
+              className={`
+                cursor-pointer rounded-full bg-gray-600 px-2 py-1 text-xs text-white
+                hover:bg-gray-700
+                disabled:opacity-50
+              `}
+              onClick={() => setEditing(true)}
+            >
+              Edit
+            </button>
+          )}
+          {completed && onRevertMatch && (
             <button
               type="button"
               className={`
@@ -93,7 +209,7 @@ export default function MatchCard({ match, players, onEndMatch, onRevertMatch, o
           <span>{dayjs.utc(match.created_at).local().format('DD/MM/YYYY HH:mm')}</span>
         </div>
         <div className="flex flex-1/4 justify-end gap-2">
-          {!match.result && (
+          {!match.result && onCancelMatch && (
             <button
               type="button"
               className={`
@@ -121,10 +237,12 @@ export default function MatchCard({ match, players, onEndMatch, onRevertMatch, o
           )}
         </div>
       </div>
+      {editing && <MatchEditor match={match} players={players} onSave={handleSave} onClose={() => setEditing(false)} />}
       <div
         className={`
-          mt-3 grid grid-cols-1 gap-4 text-sm
+          mt-3 grid-cols-1 gap-4 text-sm
           md:grid-cols-[1fr_auto_1fr]
+          ${editing ? 'hidden' : 'grid'}
         `}
       >
         <div className="min-w-0">
@@ -134,8 +252,11 @@ export default function MatchCard({ match, players, onEndMatch, onRevertMatch, o
             newElos={match.team_a_new_elos || []}
             elos={match.team_a_elos}
             players={players}
+            champions={match.result ? match.team_a_champions : picks.team_a_champions}
+            roles={match.result ? match.team_a_roles : picks.team_a_roles}
+            onPickChange={match.result || !onEndMatch ? undefined : changePick('a')}
           />
-          {!match.result && (
+          {!match.result && onEndMatch && (
             <button
               type="button"
               className={`
@@ -143,7 +264,7 @@ export default function MatchCard({ match, players, onEndMatch, onRevertMatch, o
                 hover:bg-cyan-700
                 disabled:opacity-50
               `}
-              onClick={() => onEndMatch(match, 'A')}
+              onClick={() => handleEnd('A')}
             >
               Team A wins
             </button>
@@ -170,8 +291,11 @@ export default function MatchCard({ match, players, onEndMatch, onRevertMatch, o
             newElos={match.team_b_new_elos || []}
             elos={match.team_b_elos}
             players={players}
+            champions={match.result ? match.team_b_champions : picks.team_b_champions}
+            roles={match.result ? match.team_b_roles : picks.team_b_roles}
+            onPickChange={match.result || !onEndMatch ? undefined : changePick('b')}
           />
-          {!match.result && (
+          {!match.result && onEndMatch && (
             <button
               type="button"
               className={`
@@ -179,7 +303,7 @@ export default function MatchCard({ match, players, onEndMatch, onRevertMatch, o
                 hover:bg-cyan-700
                 disabled:opacity-50
               `}
-              onClick={() => onEndMatch(match, 'B')}
+              onClick={() => handleEnd('B')}
             >
               Team B wins
             </button>
@@ -0,0 +1,173 @@
+import { useMemo, useState } from 'react';
+import { orderBy } from 'es-toolkit';
+import type { Player, Match } from '@/types/common.ts';
+import type { MatchChanges } from '@/utils/eloReplay.ts';
+import Select from '@/components/Select.tsx';
+import { useDisplayName } from '@/contexts/DisplayNameContext.tsx';
+
+interface Props {
+  match: Match;
+  players: Player[] | null;
+  onSave: (changes: MatchChanges) => void;
+  onClose: () => void;
+}
+
+function TeamEditor({
+  label,
+  ids,
+  options,
+  onChange,
+  onMove,
+}: {
+  label: string;
+  ids: number[];
+  options: { value: string; label: string }[];
+  onChange: (index: number, id: number) => void;
+  onMove: (index: number) => void;
+}) {
+  return (
+    <div className="min-w-0">
+      <div className="mb-1 font-medium">{label}</div>
+      <ul className="space-y-1.5">
+        {ids.map((id, i) => (
+          <li key={id} className="flex items-center gap-2">
+            <Select
+              className="min-w-0 flex-1"
+              value={String(id)}
+              options={options}
+              onChange={(v) => onChange(i, Number(v))}
+              aria-label={`${label} player ${i + 1}`}
+            />
+            <button
+              type="button"
+              onClick={() => onMove(i)}
+              className={`
+                cursor-pointer rounded-lg border border-gray-200 px-2 py-1 text-xs
+                hover:bg-gray-50
+                dark:border-gray-700 dark:hover:bg-gray-800
+              `}
+              aria-label="Move to other team"
+            >
+              ⇄
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default function MatchEditor({ match, players, onSave, onClose }: Props) {
+  const { displayName } = useDisplayName();
+  const [teamA, setTeamA] = useState(match.team_a_players);
+  const [teamB, setTeamB] = useState(match.team_b_players);
+  const [result, setResult] = useState(match.result);
+
+  const options = useMemo(
+    () =>
+      orderBy(players ?? [], [(p) => displayName(p)], ['asc'])
+        .filter((p) => !p.hidden || [...teamA, ...teamB].includes(p.id))
+        .map((p) => ({ value: String(p.id), label: displayName(p) })),
+    [displayName, players, teamA, teamB],
+  );
+
+  // Picking someone already in the match swaps the two slots instead of duplicating them
+  const replace = (team: 'A' | 'B', index: number, id: number) => {
+    const current = team === 'A' ? teamA[index] : teamB[index];
+    const swap = (ids: number[]) => ids.map((x) => (x === id ? current : x));
+    const nextA = swap(teamA);
+    const nextB = swap(teamB);
+    if (team === 'A') nextA[index] = id;
+    else nextB[index] = id;
+    setTeamA(nextA);
+    setTeamB(nextB);
+  };
+
+  const move = (from: 'A' | 'B', index: number) => {
+    if (from === 'A') {
+      setTeamB([...teamB, teamA[index]]);
+      setTeamA(teamA.filter((_, i) => i !== index));
+    } else {
+      setTeamA([...teamA, teamB[index]]);
+      setTeamB(teamB.filter((_, i) => i !== index));
+    }
+  };
+
+  const invalid = teamA.length === 0 || teamB.length === 0 || !(result === 'A' || result === 'B');
+
+  return (
+    <div className="mt-3 space-y-4 text-sm">
+      <div
+        className={`
+          grid grid-cols-1 gap-4
+          md:grid-cols-2
+        `}
+      >
+        <TeamEditor
+          label="Team A"
+          ids={teamA}
+          options={options}
+          onChange={(i, id) => replace('A', i, id)}
+          onMove={(i) => move('A', i)}
+        />
+        <TeamEditor
+          label="Team B"
+          ids={teamB}
+          options={options}
+          onChange={(i, id) => replace('B', i, id)}
+          onMove={(i) => move('B', i)}
+        />
+      </div>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex gap-2">
+          {(['A', 'B'] as const).map((side) => (
+            <button
+              key={side}
+              type="button"
+              onClick={() => setResult(side)}
+              className={`
+                cursor-pointer rounded-xl px-3 py-1.5
+                ${
+                  result === side
+                    ? 'bg-cyan-600 text-white'
+                    : `
+                      border border-gray-200
+                      hover:bg-gray-50
+                      dark:border-gray-700 dark:hover:bg-gray-800
+                    `
+                }
+              `}
+            >
+              Team {side} won
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className={`
+              cursor-pointer rounded-xl border border-gray-200 px-4 py-2
+              hover:bg-gray-50
+              dark:border-gray-700 dark:hover:bg-gray-800
+            `}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            disabled={invalid}
+            onClick={() => onSave({ team_a_players: teamA, team_b_players: teamB, result })}
+            className={`
+              cursor-pointer rounded-xl bg-indigo-600 px-4 py-2 text-white
+              hover:bg-indigo-700
+              disabled:cursor-not-allowed disabled:opacity-50
+            `}
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,43 @@
+import { useMemo } from 'react';
 import Section from '@/components/Section.tsx';
 import MatchCard from '@/components/MatchCard.tsx';
+import AdjustmentCard from '@/components/AdjustmentCard.tsx';
+import { useAdminContext } from '@/contexts/AdminContext.tsx';
 import { useGameDataContext } from '@/contexts/GameDataContext.tsx';
 import { useTeamsContext } from '@/contexts/TeamsContext.tsx';
 import { useMatchActionsContext } from '@/contexts/MatchActionsContext.tsx';
+import { can } from '@/utils/permissions.ts';
+import useEloAdjustments from '@/hooks/useEloAdjustments.ts';
+import { isManualAdjustment } from '@/utils/eloAdjustments.ts';
+import type { EloAdjustment, Match } from '@/types/common.ts';
+
+type HistoryItem =
+  | { type: 'match'; at: string; match: Match }
+  | { type: 'adjustment'; at: string; adjustment: EloAdjustment };
 
 export default function MatchHistory() {
-  const { matches, players } = useGameDataContext();
+  const { matches, adjustments, players, refresh } = useGameDataContext();
   const { lastMatch } = useTeamsContext();
-  const { endMatch, revertMatch, cancelMatch } = useMatchActionsContext();
+  const { endMatch, revertMatch, cancelMatch, editMatch } = useMatchActionsContext();
+  const { role } = useAdminContext();
+  const { revertAdjustment } = useEloAdjustments(refresh);
+
+  // Admin adjustments are listed among the matches they happened between; decay is left to the charts
+  const items = useMemo(() => {
+    const shown = (matches ?? []).filter((m) => m.result !== null);
+    const oldest = shown.at(-1)?.created_at ?? '';
+    const history: HistoryItem[] = [
+      ...shown.map((match) => ({ type: 'match' as const, at: match.created_at, match })),
+      ...adjustments
+        .filter((a) => isManualAdjustment(a) && a.created_at >= oldest)
+        .map((adjustment) => ({ type: 'adjustment' as const, at: adjustment.created_at, adjustment })),
+    ];
+    return history.sort((a, b) => b.at.localeCompare(a.at));
+  }, [matches, adjustments]);
+
   return (
     <Section title="Match History">
-      {!matches || matches.filter((m) => m.result !== null).length === 0 ? (
+      {items.length === 0 ? (
         <div
           className={`
             text-sm text-gray-600
@@ -21,19 +48,27 @@ export default function MatchHistory() {
         </div>
       ) : (
         <ul className="space-y-4">
-          {matches
-            .filter((m) => m.result !== null)
-            .map((match) => (
+          {items.map((item) =>
+            item.type === 'match' ? (
               <MatchCard
-                key={match.id}
-                match={match}
+                key={`match-${item.match.id}`}
+                match={item.match}
                 players={players}
-                onEndMatch={endMatch}
-                onRevertMatch={revertMatch}
-                onCancelMatch={cancelMatch}
+                onEndMatch={can(role, 'endMatch') ? endMatch : undefined}
+                onRevertMatch={can(role, 'revertMatch') ? revertMatch : undefined}
+                onCancelMatch={can(role, 'cancelMatch') ? cancelMatch : undefined}
                 onRematch={lastMatch}
+                onEditMatch={can(role, 'editMatch') ? editMatch : undefined}
+              />
+            ) : (
+              <AdjustmentCard
+                key={`adjustment-${item.adjustment.id}`}
+                adjustment={item.adjustment}
+                players={players}
+                onRevert={can(role, 'adjustElo') ? revertAdjustment : undefined}
               />
-            ))}
+            ),
+          )}
         </ul>
       )}
     </Section>
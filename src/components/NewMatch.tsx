@@ -2,18 +2,35 @@ import { useCallback } from 'react';
 import { isNumber, isNaN } from 'es-toolkit/compat';
 import Pill from '@/components/Pill';
 import Section from '@/components/Section.tsx';
+import Select from '@/components/Select.tsx';
 import TeamPanel from '@/components/TeamPanel.tsx';
 import { useGameDataContext } from '@/contexts/GameDataContext.tsx';
 import { useTeamsContext } from '@/contexts/TeamsContext.tsx';
+import { useDisplayName } from '@/contexts/DisplayNameContext.tsx';
+import { useAdminContext } from '@/contexts/AdminContext.tsx';
+import { can } from '@/utils/permissions.ts';
+import { TEAM_SIZES } from '@/utils/suggestTeams.ts';
 
 export default function NewMatch() {
-  const { streaks, refresh } = useGameDataContext();
+  const { players, streaks, refresh } = useGameDataContext();
+  const { displayName } = useDisplayName();
+  const { role } = useAdminContext();
   const {
     teamA,
     teamB,
     averageTeamAElos,
     averageTeamBElos,
     eloDiff,
+    teamAWinProbability,
+    roles,
+    options,
+    optionIndex,
+    selectOption,
+    rotation,
+    rotationMode,
+    setRotationMode,
+    teamSize,
+    setTeamSize,
     handleDragStart,
     handleDragOverPanel,
     handleDropTo,
@@ -25,6 +42,11 @@ export default function NewMatch() {
   } = useTeamsContext();
 
   const handleStart = useCallback(() => createMatch().then(() => refresh()), [createMatch, refresh]);
+  const option = options[optionIndex];
+  const nameOf = (id: number | null) => {
+    const player = players?.find((p) => p.id === id);
+    return player ? displayName(player) : '?';
+  };
   return (
     <Section title="New Match" actions={isNumber(eloDiff) && !isNaN(eloDiff) ? <Pill>{`Diff ${eloDiff}`}</Pill> : null}>
       <div className="mb-4 text-sm">
@@ -41,26 +63,159 @@ export default function NewMatch() {
             label="Team A"
             team={teamA}
             averageElo={averageTeamAElos}
+            opponents={teamB}
+            winProbability={teamAWinProbability}
             onDragStart={handleDragStart}
             onDragOver={handleDragOverPanel}
             onDrop={handleDropTo('A')}
             side="A"
             streaks={streaks}
+            roles={roles}
           />
           <TeamPanel
             label="Team B"
             team={teamB}
             averageElo={averageTeamBElos}
+            opponents={teamA}
+            winProbability={teamAWinProbability === null ? null : 1 - teamAWinProbability}
             onDragStart={handleDragStart}
             onDragOver={handleDragOverPanel}
             onDrop={handleDropTo('B')}
             side="B"
             streaks={streaks}
+            roles={roles}
           />
         </div>
 
+        {rotation && rotation.benched.length > 0 && (
+          <div
+            className={`
+              rounded-xl bg-gray-50 p-3 text-sm text-gray-600
+              dark:bg-gray-800 dark:text-gray-300
+            `}
+          >
+            {rotationMode ? (
+              <>
+                <span className="font-medium">Sitting out:</span>{' '}
+                {rotation.benched
+                  .map((e) => `${displayName(e.player)} (played ${e.played}, sat out ${e.satOut})`)
+                  .join(', ')}
+                . Whoever sat out last game plays this one, then the spots go to whoever has sat out most and played
+                least tonight. They&#39;re first in line next game.
+              </>
+            ) : (
+              <>
+                Rotation is off: the {rotation.playing.length} players who make the fairest teams play and{' '}
+                {rotation.benched.length} of {rotation.benched.length + rotation.playing.length} sit out.
+              </>
+            )}
+          </div>
+        )}
+
+        {option && (
+          <div
+            className={`
+              flex items-start justify-between gap-3 rounded-xl bg-gray-50 p-3 text-sm
+              dark:bg-gray-800
+            `}
+          >
+            <div className="flex min-w-0 flex-col gap-1">
+              <div className="font-medium">
+                Option {optionIndex + 1} of {options.length} · Gap {option.eloGap} · Team A{' '}
+                {Math.round(option.winProbability * 100)}% to win
+              </div>
+              {option.unsatisfied.length > 0 && (
+                <div
+                  className={`
+                    text-amber-700
+                    dark:text-amber-300
+                  `}
+                >
+                  Breaks:{' '}
+                  {option.unsatisfied
+                    .map((pairing) => {
+                      const relation = pairing.type === 'apart' ? 'apart from' : 'with';
+                      return `${nameOf(pairing.player1)} ${relation} ${nameOf(pairing.player2)}`;
+                    })
+                    .join(', ')}
+                </div>
+              )}
+              {option.offRole.length > 0 && (
+                <div
+                  className={`
+                    text-amber-700
+                    dark:text-amber-300
+                  `}
+                >
+                  Off-role: {option.offRole.map((p) => displayName(p)).join(', ')}
+                </div>
+              )}
+              {option.repeatsRecent && (
+                <div
+                  className={`
+                    text-amber-700
+                    dark:text-amber-300
+                  `}
+                >
+                  Same teams as a recent match
+                </div>
+              )}
+            </div>
+            {options.length > 1 && (
+              <div className="flex shrink-0 gap-1">
+                <button
+                  type="button"
+                  aria-label="Previous option"
+                  onClick={() => selectOption(optionIndex - 1)}
+                  disabled={optionIndex === 0}
+                  className={`
+                    cursor-pointer rounded-lg border border-gray-200 px-2 py-1
+                    hover:bg-white
+                    disabled:cursor-not-allowed disabled:opacity-50
+                    dark:border-gray-700 dark:hover:bg-gray-700
+                  `}
+                >
+                  ‹
+                </button>
+                <button
+                  type="button"
+                  aria-label="Next option"
+                  onClick={() => selectOption(optionIndex + 1)}
+                  disabled={optionIndex === options.length - 1}
+                  className={`
+                    cursor-pointer rounded-lg border border-gray-200 px-2 py-1
+                    hover:bg-white
+                    disabled:cursor-not-allowed disabled:opacity-50
+                    dark:border-gray-700 dark:hover:bg-gray-700
+                  `}
+                >
+                  ›
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
         <div className="flex flex-col place-content-end gap-3">
           <div className="flex place-content-end gap-3">
+            <Select
+              className="w-24"
+              value={String(teamSize)}
+              options={TEAM_SIZES.map((size) => ({ value: String(size), label: `${size}v${size}` }))}
+              onChange={(v) => setTeamSize(Number(v))}
+              aria-label="Format"
+            />
+            {rotation && (
+              <label className="flex cursor-pointer items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4"
+                  checked={rotationMode}
+                  onChange={(e) => setRotationMode(e.target.checked)}
+                />
+                Rotation
+              </label>
+            )}
             <button
               type="button"
               onClick={() => suggestTeams(20)}
@@ -109,7 +264,8 @@ export default function NewMatch() {
                 disabled:cursor-not-allowed disabled:opacity-50
               `}
               onClick={handleStart}
-              disabled={disabledStart}
+              disabled={disabledStart || !can(role, 'startMatch')}
+              title={can(role, 'startMatch') ? undefined : 'Sign in as a player to start matches'}
             >
               Start
             </button>
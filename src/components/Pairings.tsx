@@ -6,6 +6,9 @@ import Avatar from '@/components/Avatar.tsx';
 import Select from '@/components/Select.tsx';
 import { useDisplayName } from '@/contexts/DisplayNameContext.tsx';
 import { useGameDataContext } from '@/contexts/GameDataContext.tsx';
+import { useAdminContext } from '@/contexts/AdminContext.tsx';
+import { can } from '@/utils/permissions.ts';
+import { PAIRING_TYPES, isPairingType, type PairingType } from '@/utils/suggestTeams.ts';
 
 function PlayerSelect({
   players,
@@ -36,12 +39,26 @@ function PlayerSelect({
   );
 }
 
+function TypeSelect({ value, onChange }: { value: PairingType; onChange: (type: PairingType) => void }) {
+  return (
+    <Select
+      aria-label="Constraint"
+      value={value}
+      options={Object.entries(PAIRING_TYPES).map(([type, label]) => ({ value: type, label }))}
+      onChange={(v) => isPairingType(v) && onChange(v)}
+    />
+  );
+}
+
 export default function Pairings() {
   const { players, pairings, refresh } = useGameDataContext();
   const { displayName } = useDisplayName();
+  const { role } = useAdminContext();
+  const canEdit = can(role, 'editPairings');
   const [editingId, setEditingId] = useState<number | null>(null);
   const [player1, setPlayer1] = useState<number | null>(null);
   const [player2, setPlayer2] = useState<number | null>(null);
+  const [type, setType] = useState<PairingType>('together');
   const [isAdding, setIsAdding] = useState(false);
 
   const sortedPlayers = useMemo(
@@ -62,6 +79,7 @@ export default function Pairings() {
     setEditingId(null);
     setPlayer1(null);
     setPlayer2(null);
+    setType('together');
   }, []);
 
   const startEdit = useCallback((pairing: Pairing) => {
@@ -69,6 +87,7 @@ export default function Pairings() {
     setEditingId(pairing.id);
     setPlayer1(pairing.player1);
     setPlayer2(pairing.player2);
+    setType(isPairingType(pairing.type) ? pairing.type : 'together');
   }, []);
 
   const cancel = useCallback(() => {
@@ -76,20 +95,21 @@ export default function Pairings() {
     setEditingId(null);
     setPlayer1(null);
     setPlayer2(null);
+    setType('together');
   }, []);
 
   const save = useCallback(async () => {
     if (!player1 || !player2) return;
 
     if (editingId) {
-      await supabase.from('pairing').update({ player1, player2 }).eq('id', editingId);
+      await supabase.from('pairing').update({ player1, player2, type }).eq('id', editingId);
     } else {
-      await supabase.from('pairing').insert([{ player1, player2 }]);
+      await supabase.from('pairing').insert([{ player1, player2, type }]);
     }
 
     cancel();
     refresh();
-  }, [player1, player2, editingId, cancel, refresh]);
+  }, [player1, player2, type, editingId, cancel, refresh]);
 
   const deletePairing = useCallback(
     async (id: number) => {
@@ -135,6 +155,18 @@ export default function Pairings() {
                       <span className="truncate text-sm font-medium">{p1 ? displayName(p1) : '?'}</span>
                     </div>
                   )}
+                  {editing ? (
+                    <TypeSelect value={type} onChange={setType} />
+                  ) : (
+                    <span
+                      className={`
+                        text-xs text-gray-500
+                        dark:text-gray-400
+                      `}
+                    >
+                      {PAIRING_TYPES[isPairingType(pairing.type) ? pairing.type : 'together']}
+                    </span>
+                  )}
                   {editing ? (
                     <PlayerSelect
                       players={sortedPlayers}
@@ -180,32 +212,34 @@ export default function Pairings() {
                       </button>
                     </>
                   ) : (
-                    <>
-                      <button
-                        type="button"
-                        onClick={() => startEdit(pairing)}
-                        className={`
-                          cursor-pointer rounded-lg bg-gray-100 px-3 py-1 text-xs font-medium text-gray-700
-                          transition-colors
-                          hover:bg-gray-200
-                          dark:bg-gray-800 dark:text-gray-200 dark:hover:bg-gray-700
-                        `}
-                      >
-                        Edit
-                      </button>
-                      <button
-                        type="button"
-                        onClick={() => deletePairing(pairing.id)}
-                        className={`
-                          cursor-pointer rounded-lg bg-red-600 px-3 py-1 text-xs font-medium text-white
-                          transition-colors
-                          hover:bg-red-700
-                          dark:bg-red-500 dark:hover:bg-red-400
-                        `}
-                      >
-                        Delete
-                      </button>
-                    </>
+                    canEdit && (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => startEdit(pairing)}
+                          className={`
+                            cursor-pointer rounded-lg bg-gray-100 px-3 py-1 text-xs font-medium text-gray-700
+                            transition-colors
+                            hover:bg-gray-200
+                            dark:bg-gray-800 dark:text-gray-200 dark:hover:bg-gray-700
+                          `}
+                        >
+                          Edit
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => deletePairing(pairing.id)}
+                          className={`
+                            cursor-pointer rounded-lg bg-red-600 px-3 py-1 text-xs font-medium text-white
+                            transition-colors
+                            hover:bg-red-700
+                            dark:bg-red-500 dark:hover:bg-red-400
+                          `}
+                        >
+                          Delete
+                        </button>
+                      </>
+                    )
                   )}
                 </div>
               </li>
@@ -240,6 +274,7 @@ export default function Pairings() {
               excludeId={player2}
               displayName={displayName}
             />
+            <TypeSelect value={type} onChange={setType} />
             <PlayerSelect
               players={sortedPlayers}
               value={player2}
@@ -277,18 +312,20 @@ export default function Pairings() {
           </div>
         </div>
       ) : (
-        <button
-          type="button"
-          onClick={startAdd}
-          className={`
-            cursor-pointer rounded-lg border border-dashed border-gray-300 px-3 py-2 text-sm text-gray-500
-            transition-colors
-            hover:border-gray-400 hover:text-gray-700
-            dark:border-gray-700 dark:text-gray-400 dark:hover:border-gray-600 dark:hover:text-gray-300
-          `}
-        >
-          + Add Pair
-        </button>
+        canEdit && (
+          <button
+            type="button"
+            onClick={startAdd}
+            className={`
+              cursor-pointer rounded-lg border border-dashed border-gray-300 px-3 py-2 text-sm text-gray-500
+              transition-colors
+              hover:border-gray-400 hover:text-gray-700
+              dark:border-gray-700 dark:text-gray-400 dark:hover:border-gray-600 dark:hover:text-gray-300
+            `}
+          >
+            + Add Pair
+          </button>
+        )
       )}
     </div>
   );
@@ -5,6 +5,7 @@ import Pill from '@/components/Pill.tsx';
 import Avatar from '@/components/Avatar.tsx';
 import { useDisplayName } from '@/contexts/DisplayNameContext.tsx';
 import { useGameDataContext } from '@/contexts/GameDataContext.tsx';
+import { getPlayerPick } from '@/utils/champions.ts';
 
 interface StatCard {
   label: string;
@@ -180,6 +181,30 @@ function computeOilAndWater(finished: Match[], players: Player[]): StatCard | nu
   };
 }
 
+// Most games on one of the champions a player lists as a favorite on their profile
+function computeTrueMain(finished: Match[], players: Player[]): StatCard | null {
+  const MIN_MATCHES = 3;
+
+  const best = players.reduce(
+    (acc, player) => {
+      if (!player.favorite_champions.length) return acc;
+      const games: Record<string, number> = {};
+      finished.forEach((m) => {
+        const champion = getPlayerPick(m, player.id)?.champion;
+        if (champion && player.favorite_champions.includes(champion)) games[champion] = (games[champion] || 0) + 1;
+      });
+      return Object.entries(games).reduce(
+        (inner, [champion, count]) => (count > inner.count ? { player, champion, count } : inner),
+        acc,
+      );
+    },
+    { player: null as Player | null, champion: '', count: 0 },
+  );
+
+  if (!best.player || best.count < MIN_MATCHES) return null;
+  return { label: 'True Main', player: best.player, value: `${best.champion} · ${best.count} games` };
+}
+
 export default function PlayerSpotlight() {
   const { allMatches: matches, players, streaks, currentSeason } = useGameDataContext();
   const seasonName = currentSeason?.name ?? null;
@@ -194,6 +219,7 @@ export default function PlayerSpotlight() {
       computeOnIce(finished, players),
       computeTeamChemistry(finished, players),
       computeOilAndWater(finished, players),
+      computeTrueMain(finished, players),
     ].filter((card): card is StatCard => card !== null);
   }, [matches, players]);
 
@@ -0,0 +1,38 @@
+import type { ReactNode } from 'react';
+import { useAdminContext } from '@/contexts/AdminContext.tsx';
+
+// Route guard for admin pages. The database rejects admin writes from anyone else regardless.
+export default function RequireAdmin({ children }: { children: ReactNode }) {
+  const { isAdmin, loading } = useAdminContext();
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-24">
+        <div
+          className={`
+            h-10 w-10 animate-spin rounded-full border-4 border-gray-200 border-t-indigo-500
+            dark:border-gray-700 dark:border-t-indigo-400
+          `}
+        />
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="flex flex-col items-center justify-center py-24 text-center">
+        <h2 className="mb-1 text-lg font-semibold">Admins only</h2>
+        <p
+          className={`
+            text-sm text-gray-500
+            dark:text-gray-400
+          `}
+        >
+          Sign in with an admin account to use this page.
+        </p>
+      </div>
+    );
+  }
+
+  return children;
+}
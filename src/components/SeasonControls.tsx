@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import Select from '@/components/Select.tsx';
+import { useGameDataContext } from '@/contexts/GameDataContext.tsx';
+import { RESET_POLICIES, isResetPolicy, type ResetPolicy } from '@/utils/seasons.ts';
+
+export default function SeasonControls() {
+  const { seasons, currentSeason, hasMatchInProgress, startSeason } = useGameDataContext();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [policy, setPolicy] = useState<ResetPolicy>('soft');
+  const [saving, setSaving] = useState(false);
+
+  const defaultName = `Season ${(seasons?.length ?? 0) + 1}`;
+
+  const handleStart = async () => {
+    const seasonName = name.trim() || defaultName;
+    const closing = currentSeason ? `close ${currentSeason.name ?? 'the current season'} and ` : '';
+    // eslint-disable-next-line no-alert
+    if (!window.confirm(`This will ${closing}start ${seasonName} (${RESET_POLICIES[policy]}). Continue?`)) return;
+
+    setSaving(true);
+    await startSeason(seasonName, policy);
+    setSaving(false);
+    setOpen(false);
+    setName('');
+  };
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className={`
+          cursor-pointer rounded-lg border border-gray-200 bg-white px-3 py-1.5 text-sm shadow-sm
+          hover:bg-gray-100
+          dark:border-gray-700 dark:bg-gray-800 dark:hover:bg-gray-700
+        `}
+      >
+        New season
+      </button>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <input
+        type="text"
+        placeholder={defaultName}
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        className={`
+          w-36 rounded border border-gray-300 bg-transparent px-3 py-1.5
+          dark:border-gray-600
+        `}
+        aria-label="Season name"
+      />
+      <Select
+        className="w-56"
+        value={policy}
+        options={Object.entries(RESET_POLICIES).map(([value, label]) => ({ value, label }))}
+        onChange={(v) => isResetPolicy(v) && setPolicy(v)}
+        aria-label="Elo reset"
+      />
+      <button
+        type="button"
+        disabled={saving || hasMatchInProgress}
+        onClick={handleStart}
+        title={hasMatchInProgress ? 'Finish or cancel the current game first' : undefined}
+        className={`
+          cursor-pointer rounded-lg bg-indigo-600 px-3 py-1.5 text-white
+          hover:bg-indigo-700
+          disabled:cursor-not-allowed disabled:opacity-50
+        `}
+      >
+        {saving ? 'Starting…' : 'Start'}
+      </button>
+      <button
+        type="button"
+        onClick={() => setOpen(false)}
+        className={`
+          cursor-pointer rounded-lg px-3 py-1.5 text-gray-600
+          hover:bg-gray-100
+          dark:text-gray-300 dark:hover:bg-gray-800
+        `}
+      >
+        Cancel
+      </button>
+    </div>
+  );
+}
@@ -1,22 +1,43 @@
+import { useMemo } from 'react';
+import { meanBy } from 'es-toolkit';
 import type { Player } from '@/types/common.ts';
 import type { Streak } from '@/utils/streaks.ts';
 import Pill from '@/components/Pill';
 import Avatar from '@/components/Avatar.tsx';
 import { useDisplayName } from '@/contexts/DisplayNameContext.tsx';
+import { getProjectedSwing } from '@/utils/elo.ts';
+import type { Role } from '@/utils/roles.ts';
 
 interface Props {
   label: string;
   team: Player[];
   averageElo: number;
+  opponents: Player[];
+  winProbability: number | null;
   onDragStart: (player: Player, from: 'A' | 'B') => (e: any) => void;
   onDragOver: (e: any) => void;
   onDrop: (e: any) => void;
   side: 'A' | 'B';
   streaks: Record<number, Streak>;
+  roles: Map<number, Role>;
 }
 
-export default function TeamPanel({ label, team, averageElo, onDragStart, onDragOver, onDrop, side, streaks }: Props) {
+export default function TeamPanel({
+  label,
+  team,
+  averageElo,
+  opponents,
+  winProbability,
+  onDragStart,
+  onDragOver,
+  onDrop,
+  side,
+  streaks,
+  roles,
+}: Props) {
   const { displayName } = useDisplayName();
+  const opponentMeanElo = useMemo(() => (opponents.length ? meanBy(opponents, (p) => p.elo) : null), [opponents]);
+
   return (
     <div
       className={`
@@ -28,25 +49,62 @@ export default function TeamPanel({ label, team, averageElo, onDragStart, onDrag
     >
       <div className="mb-2 flex items-center justify-between">
         <h3 className="font-semibold">{label}</h3>
-        {team.length > 0 && <Pill>{`Avg ${averageElo}`}</Pill>}
+        <div className="flex gap-1.5">
+          {winProbability !== null && <Pill>{`Win ${Math.round(winProbability * 100)}%`}</Pill>}
+          {team.length > 0 && <Pill>{`Avg ${averageElo}`}</Pill>}
+        </div>
       </div>
       <div className="grid grid-cols-1 gap-2">
-        {team.map((player) => (
-          <div
-            className={`
-              flex cursor-grab items-center gap-2 rounded-xl border border-gray-200 bg-white p-2 text-sm
-              focus:ring-2 focus:ring-indigo-500 focus:outline-none
-              active:cursor-grabbing
-              dark:border-gray-700 dark:bg-gray-800
-            `}
-            key={player.id}
-            draggable
-            onDragStart={onDragStart(player, side)}
-          >
-            <Avatar src={player.avatar} name={displayName(player)} streak={streaks[player.id]} />
-            {displayName(player)}
-          </div>
-        ))}
+        {team.map((player) => {
+          const swing = opponentMeanElo !== null ? getProjectedSwing(player, opponentMeanElo) : null;
+          return (
+            <div
+              className={`
+                flex cursor-grab items-center gap-2 rounded-xl border border-gray-200 bg-white p-2 text-sm
+                focus:ring-2 focus:ring-indigo-500 focus:outline-none
+                active:cursor-grabbing
+                dark:border-gray-700 dark:bg-gray-800
+              `}
+              key={player.id}
+              draggable
+              onDragStart={onDragStart(player, side)}
+            >
+              <Avatar src={player.avatar} name={displayName(player)} streak={streaks[player.id]} />
+              <span className="min-w-0 flex-1 truncate">{displayName(player)}</span>
+              {roles.has(player.id) && (
+                <span
+                  className={`
+                    text-xs text-gray-500
+                    dark:text-gray-400
+                  `}
+                >
+                  {roles.get(player.id)}
+                </span>
+              )}
+              {swing && (
+                <span className="text-xs whitespace-nowrap tabular-nums" title="Projected Elo for a win / loss">
+                  <span
+                    className={`
+                      text-green-700
+                      dark:text-green-400
+                    `}
+                  >
+                    +{swing.win}
+                  </span>
+                  {' / '}
+                  <span
+                    className={`
+                      text-red-700
+                      dark:text-red-400
+                    `}
+                  >
+                    {swing.loss}
+                  </span>
+                </span>
+              )}
+            </div>
+          );
+        })}
       </div>
     </div>
   );
@@ -2,9 +2,8 @@ import { useState, useRef, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useDisplayName } from '@/contexts/DisplayNameContext.tsx';
 import { useAuth } from '@/contexts/AuthContext.tsx';
+import { useAdminContext } from '@/contexts/AdminContext.tsx';
 import useDarkMode from '@/hooks/useDarkMode.ts';
-import supabase from '@/lib/supabase.ts';
-import type { Player } from '@/types/common.ts';
 
 export default function ToolMenu() {
   const [open, setOpen] = useState(false);
@@ -13,20 +12,7 @@ export default function ToolMenu() {
   const { user } = useAuth();
   const { displayName, useIngame, toggleIngame } = useDisplayName();
   const { dark, toggleDark } = useDarkMode();
-  const [player, setPlayer] = useState<Player | null>(null);
-
-  useEffect(() => {
-    if (!user?.email) return;
-    supabase
-      .from('player')
-      .select('*')
-      .eq('email', user.email)
-      .limit(1)
-      .single()
-      .then(({ data }) => {
-        if (data) setPlayer(data);
-      });
-  }, [user?.email]);
+  const { me: player, isAdmin } = useAdminContext();
 
   const handleClickOutside = useCallback((e: MouseEvent) => {
     if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
@@ -111,6 +97,36 @@ export default function ToolMenu() {
             </button>
           )}
 
+          {isAdmin && (
+            <button
+              type="button"
+              onClick={() => {
+                setOpen(false);
+                navigate('/admin');
+              }}
+              className={`
+                flex cursor-pointer items-center gap-3 rounded-lg px-3 py-2.5 text-sm font-medium text-gray-700
+                transition-colors
+                hover:bg-gray-100
+                dark:text-gray-300 dark:hover:bg-gray-700
+              `}
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                className="h-4 w-4"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z" />
+              </svg>
+              Admin
+            </button>
+          )}
+
           <div
             className={`
               border-b border-gray-200
@@ -0,0 +1,136 @@
+import { useCallback, useEffect, useState } from 'react';
+import dayjs from 'dayjs';
+import supabase from '@/lib/supabase.ts';
+import { useDisplayName } from '@/contexts/DisplayNameContext.tsx';
+import useAdminActions from '@/hooks/useAdminActions.ts';
+import type { Player, PlayerClaim, PlayerLogin } from '@/types/common.ts';
+
+export default function AdminClaims({ players }: { players: Player[] }) {
+  const { displayName } = useDisplayName();
+  const [claims, setClaims] = useState<PlayerClaim[]>([]);
+  const [logins, setLogins] = useState<PlayerLogin[]>([]);
+
+  const load = useCallback(async () => {
+    const [{ data: pending }, { data: linked }] = await Promise.all([
+      supabase.from('player_claim').select().eq('status', 'pending').order('created_at'),
+      supabase.from('player_login').select().order('created_at'),
+    ]);
+    setClaims((pending as PlayerClaim[] | null) ?? []);
+    setLogins((linked as PlayerLogin[] | null) ?? []);
+  }, []);
+  const { reviewClaim, unlinkLogin } = useAdminActions(load);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const nameOf = (playerId: number) => {
+    const player = players.find((p) => p.id === playerId);
+    return player ? `${displayName(player)} #${player.id}` : `#${playerId}`;
+  };
+
+  const handleUnlink = (login: PlayerLogin) => {
+    // eslint-disable-next-line no-alert
+    if (!window.confirm(`Unlink ${login.email ?? 'this login'} from ${nameOf(login.player_id)}?`)) return;
+    unlinkLogin(login.user_id);
+  };
+
+  return (
+    <div className="space-y-4 text-sm">
+      {claims.length === 0 ? (
+        <div
+          className={`
+            text-gray-600
+            dark:text-gray-300
+          `}
+        >
+          No claims waiting for approval.
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {claims.map((claim) => {
+            // Someone already signing in as this player is worth a second look before approving
+            const existing = logins.filter((l) => l.player_id === claim.player_id);
+            return (
+              <li
+                key={claim.id}
+                className={`
+                  flex flex-wrap items-center gap-2 border-t border-gray-100 pt-2
+                  dark:border-gray-700
+                `}
+              >
+                <span className="min-w-0 flex-1">
+                  <span className="font-medium">{claim.email ?? 'A login without email'}</span> wants to be{' '}
+                  <span className="font-medium">{nameOf(claim.player_id)}</span>
+                  {existing.length > 0 && (
+                    <span
+                      className={`
+                        block text-xs text-amber-600
+                        dark:text-amber-400
+                      `}
+                    >
+                      Already linked to {existing.map((l) => l.email ?? 'a login without email').join(', ')}
+                    </span>
+                  )}
+                </span>
+                <span
+                  className={`
+                    text-xs text-gray-400
+                    dark:text-gray-500
+                  `}
+                >
+                  {dayjs(claim.created_at).format('MMM D')}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => reviewClaim(claim.id, true)}
+                  className={`
+                    cursor-pointer rounded-full bg-green-600 px-2 py-1 text-xs text-white
+                    hover:bg-green-700
+                  `}
+                >
+                  Approve
+                </button>
+                <button
+                  type="button"
+                  onClick={() => reviewClaim(claim.id, false)}
+                  className={`
+                    cursor-pointer rounded-full bg-red-600 px-2 py-1 text-xs text-white
+                    hover:bg-red-700
+                  `}
+                >
+                  Reject
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {logins.length > 0 && (
+        <details>
+          <summary className="cursor-pointer font-medium">Linked logins ({logins.length})</summary>
+          <ul className="mt-2 space-y-1">
+            {logins.map((login) => (
+              <li key={login.user_id} className="flex items-center gap-2">
+                <span className="min-w-0 flex-1 truncate">
+                  {nameOf(login.player_id)} · {login.email ?? 'no email'}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => handleUnlink(login)}
+                  className={`
+                    cursor-pointer rounded-full bg-gray-500 px-2 py-1 text-xs text-white
+                    hover:bg-gray-600
+                  `}
+                >
+                  Unlink
+                </button>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { orderBy } from 'es-toolkit';
+import Avatar from '@/components/Avatar.tsx';
+import { useAdminContext } from '@/contexts/AdminContext.tsx';
+import { useDisplayName } from '@/contexts/DisplayNameContext.tsx';
+import type { Player } from '@/types/common.ts';
+
+interface Props {
+  players: Player[];
+  onSetHidden: (playerId: number, hidden: boolean) => void;
+  onSetAdmin: (playerId: number, isAdmin: boolean) => void;
+}
+
+function Toggle({
+  checked,
+  label,
+  onChange,
+  disabled = false,
+}: {
+  checked: boolean;
+  label: string;
+  onChange: () => void;
+  disabled?: boolean;
+}) {
+  return (
+    <input
+      type="checkbox"
+      checked={checked}
+      onChange={onChange}
+      disabled={disabled}
+      aria-label={label}
+      className={`
+        h-4 w-4 cursor-pointer
+        disabled:cursor-not-allowed
+      `}
+    />
+  );
+}
+
+export default function AdminPlayers({ players, onSetHidden, onSetAdmin }: Props) {
+  const { me } = useAdminContext();
+  const { displayName } = useDisplayName();
+  const sorted = orderBy(players, [(p) => p.hidden, (p) => p.name.toLowerCase()], ['asc', 'asc']);
+
+  const toggleAdmin = (player: Player) => {
+    const action = player.isAdmin ? 'Revoke admin from' : 'Make';
+    const suffix = player.isAdmin ? '' : ' an admin';
+    // eslint-disable-next-line no-alert
+    if (!window.confirm(`${action} ${displayName(player)}${suffix}?`)) return;
+    onSetAdmin(player.id, !player.isAdmin);
+  };
+
+  return (
+    <div
+      className={`
+        overflow-x-auto rounded-lg bg-white shadow
+        dark:bg-gray-800
+      `}
+    >
+      <table className="w-full text-sm">
+        <thead>
+          <tr
+            className={`
+              text-left text-gray-500
+              dark:text-gray-400
+            `}
+          >
+            <th className="px-4 py-2 font-medium">Player</th>
+            <th className="px-4 py-2 text-right font-medium">Elo</th>
+            <th className="px-4 py-2 text-right font-medium">GP</th>
+            <th className="px-4 py-2 font-medium">Email</th>
+            <th className="px-4 py-2 text-center font-medium">Hidden</th>
+            <th className="px-4 py-2 text-center font-medium">Admin</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.map((player) => (
+            <tr
+              key={player.id}
+              className={`
+                border-t border-gray-100
+                dark:border-gray-700
+                ${player.hidden ? 'opacity-50' : ''}
+              `}
+            >
+              <td className="px-4 py-2">
+                <span className="flex items-center gap-2">
+                  <Avatar src={player.avatar} name={displayName(player)} />
+                  <span className="truncate font-medium">{displayName(player)}</span>
+                  <span
+                    className={`
+                      text-xs text-gray-400
+                      dark:text-gray-500
+                    `}
+                  >
+                    #{player.id}
+                  </span>
+                </span>
+              </td>
+              <td className="px-4 py-2 text-right tabular-nums">{player.elo}</td>
+              <td className="px-4 py-2 text-right tabular-nums">{player.total}</td>
+              <td
+                className={`
+                  px-4 py-2 text-gray-500
+                  dark:text-gray-400
+                `}
+              >
+                {player.email ?? '—'}
+              </td>
+              <td className="px-4 py-2 text-center">
+                <Toggle
+                  checked={player.hidden}
+                  label={`Hide ${displayName(player)}`}
+                  onChange={() => onSetHidden(player.id, !player.hidden)}
+                />
+              </td>
+              <td className="px-4 py-2 text-center">
+                <Toggle
+                  checked={player.isAdmin}
+                  label={`${displayName(player)} is an admin`}
+                  onChange={() => toggleAdmin(player)}
+                  // Revoking your own access would lock you out of this page mid-session
+                  disabled={player.id === me?.id}
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import dayjs from 'dayjs';
+import { Link } from 'react-router-dom';
+import SeasonControls from '@/components/SeasonControls.tsx';
+import type { Season } from '@/types/common.ts';
+
+type SeasonSummary = Pick<Season, 'id' | 'name' | 'end' | 'start'>;
+
+function SeasonRow({ season, onRename }: { season: SeasonSummary; onRename: (id: number, name: string) => void }) {
+  const [name, setName] = useState(season.name ?? '');
+  const changed = name.trim() !== '' && name.trim() !== season.name;
+  const range = [season.start, season.end].map((d) => (d ? dayjs(d).format('DD/MM/YYYY') : '…')).join(' – ');
+
+  return (
+    <li className="flex flex-wrap items-center gap-2 text-sm">
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        className={`
+          w-44 rounded border border-gray-300 bg-transparent px-2 py-1.5
+          dark:border-gray-600
+        `}
+        aria-label={`Name of season ${season.id}`}
+      />
+      {changed && (
+        <button
+          type="button"
+          onClick={() => onRename(season.id, name.trim())}
+          className={`
+            cursor-pointer rounded-lg bg-indigo-600 px-3 py-1.5 text-white
+            hover:bg-indigo-700
+          `}
+        >
+          Rename
+        </button>
+      )}
+      <span
+        className={`
+          text-gray-500
+          dark:text-gray-400
+        `}
+      >
+        {range}
+      </span>
+      {season.end ? (
+        <Link
+          to={`/season/${season.id}`}
+          className={`
+            text-indigo-600
+            hover:underline
+            dark:text-indigo-400
+          `}
+        >
+          Standings
+        </Link>
+      ) : (
+        <span className="font-medium text-green-600">Current</span>
+      )}
+    </li>
+  );
+}
+
+export default function AdminSeasons({
+  seasons,
+  onRename,
+}: {
+  seasons: SeasonSummary[];
+  onRename: (id: number, name: string) => void;
+}) {
+  return (
+    <div className="space-y-4">
+      <SeasonControls />
+      <ul className="space-y-2">
+        {seasons.map((season) => (
+          <SeasonRow key={season.id} season={season} onRename={onRename} />
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import DecayControls from '@/components/DecayControls.tsx';
+import Select from '@/components/Select.tsx';
+import { useGameDataContext } from '@/contexts/GameDataContext.tsx';
+import { RATING_SYSTEMS, isRatingSystemId } from '@/utils/ratingSystems.ts';
+import { LOBBY_IDLE_HOURS_OPTIONS } from '@/utils/lobby.ts';
+
+export default function AdminSettings() {
+  const { ratingSystem, setRatingSystem, lobbyIdleHours, setLobbyIdleHours } = useGameDataContext();
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <DecayControls />
+      <span
+        className={`
+          text-gray-500
+          dark:text-gray-400
+        `}
+      >
+        Rating system
+      </span>
+      <Select
+        className="w-36"
+        value={ratingSystem}
+        options={Object.values(RATING_SYSTEMS).map((s) => ({ value: s.id, label: s.label }))}
+        onChange={(v) => isRatingSystemId(v) && setRatingSystem(v)}
+        aria-label="Rating system"
+      />
+      <span
+        className={`
+          text-gray-500
+          dark:text-gray-400
+        `}
+      >
+        Lobby expires after
+      </span>
+      <Select
+        className="w-24"
+        value={String(lobbyIdleHours)}
+        options={LOBBY_IDLE_HOURS_OPTIONS.map((h) => ({ value: String(h), label: `${h}h idle` }))}
+        onChange={(v) => setLobbyIdleHours(Number(v))}
+        aria-label="Lobby idle time"
+      />
+    </div>
+  );
+}
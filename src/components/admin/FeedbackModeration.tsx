@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useState } from 'react';
+import dayjs from 'dayjs';
+import supabase from '@/lib/supabase.ts';
+import Select from '@/components/Select.tsx';
+import { useDisplayName } from '@/contexts/DisplayNameContext.tsx';
+import useAdminActions from '@/hooks/useAdminActions.ts';
+import type { Player } from '@/types/common.ts';
+import type { Database } from '@/types/database.ts';
+
+type Feedback = Database['public']['Tables']['feedback']['Row'];
+
+const STATUS_OPTIONS = [
+  { value: 'open', label: 'Open' },
+  { value: 'done', label: 'Done' },
+  { value: 'joke', label: 'Off-topic' },
+];
+
+export default function FeedbackModeration({ players }: { players: Player[] }) {
+  const { displayName } = useDisplayName();
+  const [items, setItems] = useState<Feedback[]>([]);
+
+  const load = useCallback(async () => {
+    const { data } = await supabase.from('feedback').select().order('created_at', { ascending: false });
+    if (data) setItems(data as Feedback[]);
+  }, []);
+  const { setFeedbackStatus, deleteFeedback } = useAdminActions(load);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleDelete = (item: Feedback) => {
+    // eslint-disable-next-line no-alert
+    if (!window.confirm('Delete this feedback and its votes?')) return;
+    deleteFeedback(item.id);
+  };
+
+  if (!items.length) {
+    return (
+      <div
+        className={`
+          text-sm text-gray-600
+          dark:text-gray-300
+        `}
+      >
+        No feedback yet.
+      </div>
+    );
+  }
+
+  return (
+    <ul className="space-y-2 text-sm">
+      {items.map((item) => {
+        const author = players.find((p) => p.id === item.player_id);
+        return (
+          <li
+            key={item.id}
+            className={`
+              flex flex-wrap items-center gap-2 border-t border-gray-100 pt-2
+              dark:border-gray-700
+            `}
+          >
+            <span className="min-w-0 flex-1 truncate" title={item.text}>
+              {item.text}
+            </span>
+            <span
+              className={`
+                text-xs text-gray-400
+                dark:text-gray-500
+              `}
+            >
+              {author ? displayName(author) : 'Anonymous'} · {dayjs(item.created_at).format('MMM D')}
+            </span>
+            <Select
+              className="w-28"
+              value={item.status}
+              options={STATUS_OPTIONS}
+              onChange={(status) => setFeedbackStatus(item.id, status)}
+              aria-label="Feedback status"
+            />
+            <button
+              type="button"
+              onClick={() => handleDelete(item)}
+              className={`
+                cursor-pointer rounded-full bg-red-600 px-2 py-1 text-xs text-white
+                hover:bg-red-700
+              `}
+            >
+              Delete
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
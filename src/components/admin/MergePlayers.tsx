@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import { orderBy } from 'es-toolkit';
+import Select from '@/components/Select.tsx';
+import { useDisplayName } from '@/contexts/DisplayNameContext.tsx';
+import type { Player } from '@/types/common.ts';
+
+interface Props {
+  players: Player[];
+  onMerge: (keepId: number, removeId: number) => Promise<boolean>;
+}
+
+export default function MergePlayers({ players, onMerge }: Props) {
+  const { displayName } = useDisplayName();
+  const [removeId, setRemoveId] = useState('');
+  const [keepId, setKeepId] = useState('');
+  const [merging, setMerging] = useState(false);
+
+  const options = [
+    { value: '', label: 'Pick a player' },
+    ...orderBy(players, [(p) => p.name.toLowerCase()], ['asc']).map((p) => ({
+      value: String(p.id),
+      label: `${displayName(p)} #${p.id} · ${p.total} GP`,
+    })),
+  ];
+  const keep = players.find((p) => p.id === Number(keepId));
+  const remove = players.find((p) => p.id === Number(removeId));
+
+  const handleMerge = async () => {
+    if (!keep || !remove || keep.id === remove.id) return;
+    const question =
+      `Merge ${displayName(remove)} #${remove.id} into ${displayName(keep)} #${keep.id}? ` +
+      `Their matches move over, this season's ratings are replayed and ${displayName(remove)} #${remove.id} is ` +
+      "deleted. This can't be undone.";
+    // eslint-disable-next-line no-alert
+    if (!window.confirm(question)) return;
+
+    setMerging(true);
+    if (await onMerge(keep.id, remove.id)) {
+      setKeepId('');
+      setRemoveId('');
+    }
+    setMerging(false);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span
+        className={`
+          text-gray-500
+          dark:text-gray-400
+        `}
+      >
+        Merge duplicate
+      </span>
+      <Select className="w-56" value={removeId} options={options} onChange={setRemoveId} aria-label="Duplicate" />
+      <span
+        className={`
+          text-gray-500
+          dark:text-gray-400
+        `}
+      >
+        into
+      </span>
+      <Select className="w-56" value={keepId} options={options} onChange={setKeepId} aria-label="Player to keep" />
+      <button
+        type="button"
+        disabled={!keep || !remove || keep.id === remove.id || merging}
+        onClick={handleMerge}
+        className={`
+          cursor-pointer rounded-lg bg-red-600 px-3 py-1.5 text-white
+          hover:bg-red-700
+          disabled:cursor-not-allowed disabled:opacity-50
+        `}
+      >
+        {merging ? 'Merging…' : 'Merge'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import dayjs from 'dayjs';
+import relativeTime from 'dayjs/plugin/relativeTime';
+import { useDisplayName } from '@/contexts/DisplayNameContext.tsx';
+import { useMatchActionsContext } from '@/contexts/MatchActionsContext.tsx';
+import type { Match, Player } from '@/types/common.ts';
+
+dayjs.extend(relativeTime);
+
+export default function StuckMatches({ matches, players }: { matches: Match[]; players: Player[] }) {
+  const { endMatch, cancelMatch } = useMatchActionsContext();
+  const { displayName } = useDisplayName();
+  const inProgress = matches.filter((m) => m.result === null);
+
+  const names = (ids: number[]) =>
+    ids.map((id) => {
+      const player = players.find((p) => p.id === id);
+      return player ? displayName(player) : `#${id}`;
+    });
+
+  const forceEnd = (match: Match, result: 'A' | 'B') => {
+    // eslint-disable-next-line no-alert
+    if (!window.confirm(`End match #${match.id} as a Team ${result} win?`)) return;
+    endMatch(match, result);
+  };
+
+  const forceCancel = (match: Match) => {
+    // eslint-disable-next-line no-alert
+    if (!window.confirm(`Cancel match #${match.id}? No Elo changes.`)) return;
+    cancelMatch(match);
+  };
+
+  if (!inProgress.length) {
+    return (
+      <div
+        className={`
+          text-sm text-gray-600
+          dark:text-gray-300
+        `}
+      >
+        No matches in progress.
+      </div>
+    );
+  }
+
+  return (
+    <ul className="space-y-3 text-sm">
+      {inProgress.map((match) => (
+        <li
+          key={match.id}
+          className={`
+            rounded-xl border border-gray-200 p-3
+            dark:border-gray-700
+          `}
+        >
+          <div className="mb-2 flex flex-wrap items-center justify-between gap-2">
+            <span className="font-medium">
+              #{match.id} · started {dayjs(match.created_at).fromNow()}
+            </span>
+            <div className="flex gap-2">
+              {(['A', 'B'] as const).map((result) => (
+                <button
+                  key={result}
+                  type="button"
+                  onClick={() => forceEnd(match, result)}
+                  className={`
+                    cursor-pointer rounded-full bg-cyan-600 px-2 py-1 text-xs text-white
+                    hover:bg-cyan-700
+                  `}
+                >
+                  Team {result} won
+                </button>
+              ))}
+              <button
+                type="button"
+                onClick={() => forceCancel(match)}
+                className={`
+                  cursor-pointer rounded-full bg-red-600 px-2 py-1 text-xs text-white
+                  hover:bg-red-700
+                `}
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+          <div
+            className={`
+              text-gray-600
+              dark:text-gray-300
+            `}
+          >
+            A: {names(match.team_a_players).join(', ')}
+            <br />
+            B: {names(match.team_b_players).join(', ')}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
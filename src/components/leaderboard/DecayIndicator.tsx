@@ -1,6 +1,10 @@
 import { useState, useEffect, useRef } from 'react';
+import dayjs from 'dayjs';
+import { useGameDataContext } from '@/contexts/GameDataContext.tsx';
 
-export default function DecayIndicator() {
+export default function DecayIndicator({ playerId }: { playerId: number }) {
+  const { decayPolicy, decayForecast } = useGameDataContext();
+  const next = decayForecast.get(playerId);
   const [open, setOpen] = useState(false);
   const ref = useRef<HTMLSpanElement>(null);
   const tooltipVisible = open ? 'opacity-100' : 'opacity-0 group-hover:opacity-100';
@@ -27,13 +31,20 @@ export default function DecayIndicator() {
       </button>
       <span
         className={`
-          pointer-events-none absolute right-0 bottom-full z-10 mb-1.5 w-44 rounded-md bg-gray-800 px-2.5 py-1.5
+          pointer-events-none absolute right-0 bottom-full z-10 mb-1.5 w-52 rounded-md bg-gray-800 px-2.5 py-1.5
           text-left text-xs text-white shadow-lg transition-opacity
           dark:bg-gray-700
           ${tooltipVisible}
         `}
       >
-        Elo decaying · inactive for 2+ weeks (-10 per week)
+        Elo decaying · inactive for {decayPolicy.graceDays}+ days.{' '}
+        {next
+          ? `Next: -${next.deduction} on ${dayjs(next.at).format('ddd, MMM D')}`
+          : 'No further decay under the current policy'}
+        {next && decayPolicy.escalation > 0
+          ? ` (+${decayPolicy.escalation} each further week, up to ${decayPolicy.maxAmount})`
+          : ''}
+        {next && decayPolicy.floor > 0 ? `, not below ${decayPolicy.floor}` : ''}
       </span>
     </span>
   );
@@ -0,0 +1,71 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type ReactNode } from 'react';
+import supabase from '@/lib/supabase.ts';
+import { useAuth } from '@/contexts/AuthContext.tsx';
+import type { Player } from '@/types/common.ts';
+import { roleOf, type Role } from '@/utils/permissions.ts';
+
+interface AdminContextValue {
+  /** The signed-in user's player, once they have claimed one. */
+  me: Player | null;
+  isAdmin: boolean;
+  /** What the signed-in user may do; see permissions.ts. */
+  role: Role;
+  loading: boolean;
+  refreshMe: () => Promise<void>;
+}
+
+const AdminContext = createContext<AdminContextValue>({
+  me: null,
+  isAdmin: false,
+  role: 'guest',
+  loading: true,
+  refreshMe: async () => {},
+});
+
+// Looks up the signed-in user's player once for the whole app. Hiding controls by role is only a
+// convenience: every write is checked again by the database or the API.
+export function AdminProvider({ children }: { children: ReactNode }) {
+  const { user, loading: authLoading } = useAuth();
+  const [me, setMe] = useState<Player | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const refreshMe = useCallback(async () => {
+    if (!user) {
+      setMe(null);
+      setLoading(false);
+      return;
+    }
+    // A player may have several logins; each one is linked by its auth user id
+    const { data: login } = await supabase
+      .from('player_login')
+      .select('player_id')
+      .eq('user_id', user.id)
+      .maybeSingle();
+    const { data } = login
+      ? await supabase.from('player').select().eq('id', login.player_id).maybeSingle()
+      : { data: null };
+    setMe(data ? (data as Player) : null);
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    if (!authLoading) refreshMe();
+  }, [authLoading, refreshMe]);
+
+  const value = useMemo(
+    () => ({
+      me,
+      isAdmin: me?.isAdmin ?? false,
+      role: roleOf(!!user, me),
+      loading: authLoading || loading,
+      refreshMe,
+    }),
+    [me, user, authLoading, loading, refreshMe],
+  );
+
+  return <AdminContext.Provider value={value}>{children}</AdminContext.Provider>;
+}
+
+export function useAdminContext() {
+  return useContext(AdminContext);
+}
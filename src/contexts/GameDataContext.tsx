@@ -1,16 +1,37 @@
 import { createContext, useContext, useMemo, type ReactNode } from 'react';
-import useGameData from '@/hooks/useGameData.ts';
-import type { Player, Match, Pairing, Season } from '@/types/common.ts';
+import useGameData, { type RealtimeStatus } from '@/hooks/useGameData.ts';
+import type { Player, EloAdjustment, LobbyEntry, Match, Pairing, Season } from '@/types/common.ts';
 import type { Streak } from '@/utils/streaks.ts';
+import { DEFAULT_RATING_SYSTEM, type RatingSystemId } from '@/utils/ratingSystems.ts';
+import type { ResetPolicy } from '@/utils/seasons.ts';
+import { DEFAULT_LOBBY_IDLE_HOURS } from '@/utils/lobby.ts';
+import { DEFAULT_DECAY_POLICY, type DecayForecast, type DecayPolicy } from '@/utils/eloDecay.ts';
 
 interface GameDataContextValue {
   players: Player[] | null;
   allMatches: Match[] | null;
   matches: Match[] | null;
+  /** Current-season rating adjustments (decay), oldest first. */
+  adjustments: EloAdjustment[];
   pairings: Pairing[] | null;
   seasons: Pick<Season, 'id' | 'name' | 'end' | 'start'>[] | null;
   currentSeason: Pick<Season, 'id' | 'name' | 'end' | 'start'> | null;
   streaks: Record<number, Streak>;
+  ratingSystem: RatingSystemId;
+  setRatingSystem: (id: RatingSystemId) => Promise<void>;
+  lobby: LobbyEntry[];
+  lobbyIds: number[];
+  lobbyIdleHours: number;
+  setLobbyIdleHours: (hours: number) => Promise<void>;
+  decayPolicy: DecayPolicy;
+  setDecayPolicy: (policy: DecayPolicy) => Promise<void>;
+  /** Next deduction per player id if they stay inactive. */
+  decayForecast: Map<number, DecayForecast>;
+  checkIn: (ids: number[]) => Promise<void>;
+  checkOut: (id: number) => Promise<void>;
+  hasMatchInProgress: boolean;
+  startSeason: (name: string, policy: ResetPolicy) => Promise<void>;
+  realtimeStatus: RealtimeStatus;
   refresh: () => void;
 }
 
@@ -18,19 +39,106 @@ const GameDataContext = createContext<GameDataContextValue>({
   players: null,
   allMatches: null,
   matches: null,
+  adjustments: [],
   pairings: null,
   seasons: null,
   currentSeason: null,
   streaks: {},
+  ratingSystem: DEFAULT_RATING_SYSTEM,
+  setRatingSystem: async () => {},
+  lobby: [],
+  lobbyIds: [],
+  lobbyIdleHours: DEFAULT_LOBBY_IDLE_HOURS,
+  setLobbyIdleHours: async () => {},
+  decayPolicy: DEFAULT_DECAY_POLICY,
+  setDecayPolicy: async () => {},
+  decayForecast: new Map(),
+  checkIn: async () => {},
+  checkOut: async () => {},
+  hasMatchInProgress: false,
+  startSeason: async () => {},
+  realtimeStatus: 'connecting',
   refresh: () => {},
 });
 
 export function GameDataProvider({ children }: { children: ReactNode }) {
-  const { players, allMatches, matches, pairings, seasons, currentSeason, streaks, refresh } = useGameData();
+  const {
+    players,
+    allMatches,
+    matches,
+    adjustments,
+    pairings,
+    seasons,
+    currentSeason,
+    streaks,
+    ratingSystem,
+    setRatingSystem,
+    lobby,
+    lobbyIds,
+    lobbyIdleHours,
+    setLobbyIdleHours,
+    decayPolicy,
+    setDecayPolicy,
+    decayForecast,
+    checkIn,
+    checkOut,
+    hasMatchInProgress,
+    startSeason,
+    realtimeStatus,
+    refresh,
+  } = useGameData();
 
   const value = useMemo(
-    () => ({ players, allMatches, matches, pairings, seasons, currentSeason, streaks, refresh }),
-    [players, allMatches, matches, pairings, seasons, currentSeason, streaks, refresh],
+    () => ({
+      players,
+      allMatches,
+      matches,
+      adjustments,
+      pairings,
+      seasons,
+      currentSeason,
+      streaks,
+      ratingSystem,
+      setRatingSystem,
+      lobby,
+      lobbyIds,
+      lobbyIdleHours,
+      setLobbyIdleHours,
+      decayPolicy,
+      setDecayPolicy,
+      decayForecast,
+      checkIn,
+      checkOut,
+      hasMatchInProgress,
+      startSeason,
+      realtimeStatus,
+      refresh,
+    }),
+    [
+      players,
+      allMatches,
+      matches,
+      adjustments,
+      pairings,
+      seasons,
+      currentSeason,
+      streaks,
+      ratingSystem,
+      setRatingSystem,
+      lobby,
+      lobbyIds,
+      lobbyIdleHours,
+      setLobbyIdleHours,
+      decayPolicy,
+      setDecayPolicy,
+      decayForecast,
+      checkIn,
+      checkOut,
+      hasMatchInProgress,
+      startSeason,
+      realtimeStatus,
+      refresh,
+    ],
   );
 
   return <GameDataContext.Provider value={value}>{children}</GameDataContext.Provider>;
@@ -2,24 +2,31 @@ import { createContext, useContext, useMemo, type ReactNode } from 'react';
 import { useGameDataContext } from '@/contexts/GameDataContext.tsx';
 import useMatchActions from '@/hooks/useMatchActions.ts';
 import type { Match } from '@/types/common.ts';
+import type { MatchChanges } from '@/utils/eloReplay.ts';
+import type { MatchPicks } from '@/utils/champions.ts';
 
 interface MatchActionsContextValue {
-  endMatch: (match: Match, result: 'A' | 'B') => Promise<void>;
+  endMatch: (match: Match, result: 'A' | 'B', picks?: MatchPicks) => Promise<void>;
   revertMatch: (match: Match) => Promise<void>;
   cancelMatch: (match: Match) => Promise<void>;
+  editMatch: (match: Match, changes: MatchChanges) => Promise<void>;
 }
 
 const MatchActionsContext = createContext<MatchActionsContextValue>({
   endMatch: async () => {},
   revertMatch: async () => {},
   cancelMatch: async () => {},
+  editMatch: async () => {},
 });
 
 export function MatchActionsProvider({ children }: { children: ReactNode }) {
-  const { players, refresh } = useGameDataContext();
-  const { endMatch, revertMatch, cancelMatch } = useMatchActions(players, refresh);
+  const { players, allMatches, refresh } = useGameDataContext();
+  const { endMatch, revertMatch, cancelMatch, editMatch } = useMatchActions(players, allMatches, refresh);
 
-  const value = useMemo(() => ({ endMatch, revertMatch, cancelMatch }), [endMatch, revertMatch, cancelMatch]);
+  const value = useMemo(
+    () => ({ endMatch, revertMatch, cancelMatch, editMatch }),
+    [endMatch, revertMatch, cancelMatch, editMatch],
+  );
 
   return <MatchActionsContext.Provider value={value}>{children}</MatchActionsContext.Provider>;
 }
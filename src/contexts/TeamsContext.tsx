@@ -2,6 +2,9 @@ import { createContext, useContext, useMemo, type ReactNode } from 'react';
 import { useGameDataContext } from '@/contexts/GameDataContext.tsx';
 import useTeams from '@/hooks/useTeams.ts';
 import type { Player, Match } from '@/types/common.ts';
+import type { Role } from '@/utils/roles.ts';
+import type { Rotation } from '@/utils/rotation.ts';
+import { DEFAULT_TEAM_SIZE, type TeamSuggestion } from '@/utils/suggestTeams.ts';
 
 interface TeamsContextValue {
   teamA: Player[];
@@ -10,6 +13,16 @@ interface TeamsContextValue {
   averageTeamAElos: number;
   averageTeamBElos: number;
   eloDiff: number;
+  teamAWinProbability: number | null;
+  roles: Map<number, Role>;
+  options: TeamSuggestion[];
+  optionIndex: number;
+  selectOption: (index: number) => void;
+  rotation: Rotation | null;
+  rotationMode: boolean;
+  setRotationMode: (on: boolean) => void;
+  teamSize: number;
+  setTeamSize: (size: number) => void;
   disabledStart: boolean;
   disabledSuggest: boolean;
   handleDragStart: (player: Player, from: 'A' | 'B') => (e: any) => void;
@@ -28,6 +41,16 @@ const TeamsContext = createContext<TeamsContextValue>({
   averageTeamAElos: 0,
   averageTeamBElos: 0,
   eloDiff: 0,
+  teamAWinProbability: null,
+  roles: new Map(),
+  options: [],
+  optionIndex: 0,
+  selectOption: () => {},
+  rotation: null,
+  rotationMode: true,
+  setRotationMode: () => {},
+  teamSize: DEFAULT_TEAM_SIZE,
+  setTeamSize: () => {},
   disabledStart: true,
   disabledSuggest: true,
   handleDragStart: () => () => {},
@@ -40,7 +63,7 @@ const TeamsContext = createContext<TeamsContextValue>({
 });
 
 export function TeamsProvider({ children }: { children: ReactNode }) {
-  const { players, matches, pairings, streaks } = useGameDataContext();
+  const { players, allMatches, pairings, streaks, lobby, checkIn, checkOut } = useGameDataContext();
   const {
     teamA,
     teamB,
@@ -48,6 +71,16 @@ export function TeamsProvider({ children }: { children: ReactNode }) {
     averageTeamAElos,
     averageTeamBElos,
     eloDiff,
+    teamAWinProbability,
+    roles,
+    options,
+    optionIndex,
+    selectOption,
+    rotation,
+    rotationMode,
+    setRotationMode,
+    teamSize,
+    setTeamSize,
     disabledStart,
     disabledSuggest,
     handleDragStart,
@@ -57,7 +90,7 @@ export function TeamsProvider({ children }: { children: ReactNode }) {
     suggestTeams,
     lastMatch,
     createMatch,
-  } = useTeams(players, matches, pairings, streaks);
+  } = useTeams(players, allMatches, pairings, streaks, lobby, checkIn, checkOut);
 
   const value = useMemo(
     () => ({
@@ -67,6 +100,16 @@ export function TeamsProvider({ children }: { children: ReactNode }) {
       averageTeamAElos,
       averageTeamBElos,
       eloDiff,
+      teamAWinProbability,
+      roles,
+      options,
+      optionIndex,
+      selectOption,
+      rotation,
+      rotationMode,
+      setRotationMode,
+      teamSize,
+      setTeamSize,
       disabledStart,
       disabledSuggest,
       handleDragStart,
@@ -84,6 +127,16 @@ export function TeamsProvider({ children }: { children: ReactNode }) {
       averageTeamAElos,
       averageTeamBElos,
       eloDiff,
+      teamAWinProbability,
+      roles,
+      options,
+      optionIndex,
+      selectOption,
+      rotation,
+      rotationMode,
+      setRotationMode,
+      teamSize,
+      setTeamSize,
       disabledStart,
       disabledSuggest,
       handleDragStart,
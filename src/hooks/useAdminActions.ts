@@ -0,0 +1,87 @@
+import { useCallback } from 'react';
+import supabase from '@/lib/supabase.ts';
+import type { PlayerMerge } from '@/utils/playerMerge.ts';
+
+// The /admin console's writes. Each is a database function that refuses non-admins, so the
+// console only decides what to show.
+async function callAdmin(fn: string, args: Record<string, unknown>, failure: string) {
+  const { error } = await supabase.rpc(fn, args);
+  if (error) {
+    // eslint-disable-next-line no-alert
+    alert(`${failure}: ${error.message}`);
+    return false;
+  }
+  return true;
+}
+
+export default function useAdminActions(refresh: () => void) {
+  const run = useCallback(
+    async (fn: string, args: Record<string, unknown>, failure: string) => {
+      const ok = await callAdmin(fn, args, failure);
+      refresh();
+      return ok;
+    },
+    [refresh],
+  );
+
+  const setHidden = useCallback(
+    (playerId: number, hidden: boolean) =>
+      run('set_player_hidden', { p_player_id: playerId, p_hidden: hidden }, "Couldn't update the player"),
+    [run],
+  );
+
+  const setAdmin = useCallback(
+    (playerId: number, isAdmin: boolean) =>
+      run('set_player_admin', { p_player_id: playerId, p_is_admin: isAdmin }, "Couldn't change admin access"),
+    [run],
+  );
+
+  const mergePlayers = useCallback(
+    (keepId: number, removeId: number, plan: PlayerMerge) =>
+      run(
+        'merge_players',
+        { p_keep_id: keepId, p_remove_id: removeId, p_matches: plan.matches, p_deltas: plan.deltas },
+        "Couldn't merge the players",
+      ),
+    [run],
+  );
+
+  const renameSeason = useCallback(
+    (seasonId: number, name: string) =>
+      run('rename_season', { p_season_id: seasonId, p_name: name }, "Couldn't rename the season"),
+    [run],
+  );
+
+  const setFeedbackStatus = useCallback(
+    (feedbackId: number, status: string) =>
+      run('set_feedback_status', { p_feedback_id: feedbackId, p_status: status }, "Couldn't update the feedback"),
+    [run],
+  );
+
+  const deleteFeedback = useCallback(
+    (feedbackId: number) => run('delete_feedback', { p_feedback_id: feedbackId }, "Couldn't delete the feedback"),
+    [run],
+  );
+
+  const reviewClaim = useCallback(
+    (claimId: number, approve: boolean) =>
+      run('review_claim', { p_claim_id: claimId, p_approve: approve }, "Couldn't review the claim"),
+    [run],
+  );
+
+  const unlinkLogin = useCallback(
+    (userId: string) => run('unlink_login', { p_user_id: userId }, "Couldn't unlink the login"),
+    [run],
+  );
+
+  return {
+    setHidden,
+    setAdmin,
+    mergePlayers,
+    renameSeason,
+    setFeedbackStatus,
+    deleteFeedback,
+    reviewClaim,
+    unlinkLogin,
+  };
+}
@@ -0,0 +1,47 @@
+import { useCallback } from 'react';
+import supabase from '@/lib/supabase.ts';
+import type { EloAdjustment } from '@/types/common.ts';
+import { ADJUSTMENT_LABELS, signedAmount, type ManualAdjustmentKind } from '@/utils/eloAdjustments.ts';
+
+// Both go through database functions that check the caller is an admin, update the player's Elo
+// and record the author in one transaction
+export default function useEloAdjustments(refresh: () => void) {
+  const adjustElo = useCallback(
+    async (playerId: number, kind: ManualAdjustmentKind, amount: number, reason: string) => {
+      const { error } = await supabase.rpc('adjust_elo', {
+        p_player_id: playerId,
+        p_kind: kind,
+        p_amount: signedAmount(kind, amount),
+        p_reason: reason,
+      });
+      if (error) {
+        // eslint-disable-next-line no-alert
+        alert(`Couldn't adjust Elo: ${error.message}`);
+        return false;
+      }
+      refresh();
+      return true;
+    },
+    [refresh],
+  );
+
+  const revertAdjustment = useCallback(
+    async (adjustment: EloAdjustment) => {
+      if (adjustment.reverted_at) return;
+
+      const label = ADJUSTMENT_LABELS[adjustment.kind] ?? adjustment.kind;
+      // eslint-disable-next-line no-alert
+      if (!window.confirm(`Revert this ${label.toLowerCase()} of ${adjustment.amount} Elo?`)) return;
+
+      const { error } = await supabase.rpc('revert_elo_adjustment', { p_adjustment_id: adjustment.id });
+      if (error) {
+        // eslint-disable-next-line no-alert
+        alert(`Couldn't revert the adjustment: ${error.message}`);
+      }
+      refresh();
+    },
+    [refresh],
+  );
+
+  return { adjustElo, revertAdjustment };
+}
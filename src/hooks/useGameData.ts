@@ -1,8 +1,18 @@
-import { useCallback, useEffect, useMemo } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { REALTIME_SUBSCRIBE_STATES } from '@supabase/supabase-js';
 import supabase from '@/lib/supabase.ts';
 import useSupaQuery from '@/hooks/useSupaQuery.ts';
-import type { Player, Match, Pairing, Season } from '@/types/common.ts';
+import type { Player, EloAdjustment, LobbyEntry, Match, Pairing, Season, Setting } from '@/types/common.ts';
 import { computeStreaks } from '@/utils/streaks.ts';
+import { DEFAULT_RATING_SYSTEM, isRatingSystemId, type RatingSystemId } from '@/utils/ratingSystems.ts';
+import type { ResetPolicy } from '@/utils/seasons.ts';
+import { DEFAULT_LOBBY_IDLE_HOURS, getActiveLobby } from '@/utils/lobby.ts';
+import { DECAY_SETTING_KEY, forecastDecay, parseDecayPolicy, type DecayPolicy } from '@/utils/eloDecay.ts';
+
+// A finished match rewrites every player row at once; bursts of changes are coalesced into one refetch
+const REALTIME_DEBOUNCE_MS = 250;
+
+export type RealtimeStatus = 'connecting' | 'live' | 'offline';
 
 export default function useGameData() {
   const getPlayersCallback = useCallback(
@@ -32,6 +42,52 @@ export default function useGameData() {
   const [getSeasons, { data: seasonsData }] = useSupaQuery(getSeasonsCallback);
   const seasons = seasonsData as Pick<Season, 'id' | 'name' | 'end' | 'start'>[] | null;
 
+  const getLobbyCallback = useCallback(async () => supabase.from('lobby').select(), []);
+  const [getLobby, { data: lobbyData }] = useSupaQuery(getLobbyCallback);
+  const storedLobby = lobbyData as LobbyEntry[] | null;
+
+  const getAdjustmentsCallback = useCallback(
+    async () => supabase.from('elo_adjustment').select().order('created_at', { ascending: true }),
+    [],
+  );
+  const [getAdjustments, { data: adjustmentsData }] = useSupaQuery(getAdjustmentsCallback);
+
+  const getSettingsCallback = useCallback(async () => supabase.from('setting').select(), []);
+  const [getSettings, { data: settingsData }] = useSupaQuery(getSettingsCallback);
+  const settings = settingsData as Setting[] | null;
+
+  const ratingSystem = useMemo(() => {
+    const value = settings?.find((s) => s.key === 'rating_system')?.value;
+    return isRatingSystemId(value) ? value : DEFAULT_RATING_SYSTEM;
+  }, [settings]);
+
+  const lobbyIdleHours = useMemo(() => {
+    const value = settings?.find((s) => s.key === 'lobby_idle_hours')?.value;
+    return typeof value === 'number' && value > 0 ? value : DEFAULT_LOBBY_IDLE_HOURS;
+  }, [settings]);
+
+  const decayPolicy = useMemo(
+    () => parseDecayPolicy(settings?.find((s) => s.key === DECAY_SETTING_KEY)?.value),
+    [settings],
+  );
+
+  const saveSetting = useCallback(
+    async (key: string, value: Setting['value']) => {
+      await supabase.from('setting').upsert({ key, value, updated_at: new Date().toISOString() });
+      getSettings();
+    },
+    [getSettings],
+  );
+
+  const setRatingSystem = useCallback(async (id: RatingSystemId) => saveSetting('rating_system', id), [saveSetting]);
+
+  const setLobbyIdleHours = useCallback(async (hours: number) => saveSetting('lobby_idle_hours', hours), [saveSetting]);
+
+  const setDecayPolicy = useCallback(
+    async (policy: DecayPolicy) => saveSetting(DECAY_SETTING_KEY, { ...policy }),
+    [saveSetting],
+  );
+
   const currentSeason = useMemo(() => seasons?.find((s) => !s.end) ?? null, [seasons]);
 
   const allMatches = useMemo(() => {
@@ -42,6 +98,53 @@ export default function useGameData() {
 
   const matches = useMemo(() => allMatches?.slice(0, 10) ?? null, [allMatches]);
 
+  // Measured over every season, like the cron, since a player's last match may predate this one
+  const decayForecast = useMemo(
+    () =>
+      forecastDecay(
+        (players ?? []).filter((p) => !p.hidden),
+        (allMatchesData as Match[] | null) ?? [],
+        new Date(),
+        decayPolicy,
+      ),
+    [players, allMatchesData, decayPolicy],
+  );
+
+  const adjustments = useMemo(() => {
+    const raw = (adjustmentsData as EloAdjustment[] | null) ?? [];
+    if (!currentSeason?.start) return raw;
+    return raw.filter((a) => a.created_at >= currentSeason.start!);
+  }, [adjustmentsData, currentSeason]);
+
+  const lobby = useMemo(
+    () => getActiveLobby(storedLobby ?? [], allMatches?.slice(0, 1) ?? [], lobbyIdleHours),
+    [storedLobby, allMatches, lobbyIdleHours],
+  );
+  const lobbyIds = useMemo(() => lobby.map((e) => e.player_id), [lobby]);
+
+  const checkIn = useCallback(
+    async (ids: number[]) => {
+      // check_in clears check-ins left over from an expired session rather than reviving them
+      const { error } = await supabase.rpc('check_in', { p_player_ids: ids });
+      if (error) {
+        // eslint-disable-next-line no-alert
+        alert(`Couldn't check in: ${error.message}`);
+      }
+      getLobby();
+    },
+    [getLobby],
+  );
+
+  const checkOut = useCallback(
+    async (id: number) => {
+      await supabase.from('lobby').delete().eq('player_id', id);
+      getLobby();
+    },
+    [getLobby],
+  );
+
+  const hasMatchInProgress = useMemo(() => (allMatches ?? []).some((m) => !m.result), [allMatches]);
+
   const streaks = useMemo(() => (allMatches ? computeStreaks([...allMatches].reverse()) : {}), [allMatches]);
 
   const refresh = useCallback(() => {
@@ -49,11 +152,95 @@ export default function useGameData() {
     getAllMatches();
     getPairings();
     getSeasons();
-  }, [getAllMatches, getPairings, getPlayers, getSeasons]);
+    getSettings();
+    getLobby();
+    getAdjustments();
+  }, [getAdjustments, getAllMatches, getLobby, getPairings, getPlayers, getSeasons, getSettings]);
+
+  // Closes the current season with a snapshot of every player, then opens the next one from `policy`.
+  // start_season does all three in one transaction, resetting from the locked player rows, and
+  // refuses non-admins.
+  const startSeason = useCallback(
+    async (name: string, policy: ResetPolicy) => {
+      if (hasMatchInProgress) return;
+
+      const { error } = await supabase.rpc('start_season', { p_name: name, p_policy: policy });
+      if (error) {
+        // eslint-disable-next-line no-alert
+        alert(`Couldn't start the season: ${error.message}`);
+      }
+
+      refresh();
+    },
+    [hasMatchInProgress, refresh],
+  );
 
   useEffect(() => {
     refresh();
   }, [refresh]);
 
-  return { players, allMatches, matches, pairings, seasons, currentSeason, streaks, refresh };
+  const [realtimeStatus, setRealtimeStatus] = useState<RealtimeStatus>('connecting');
+
+  useEffect(() => {
+    const timers = new Map<string, ReturnType<typeof setTimeout>>();
+    const refetchSoon = (table: string, refetch: () => void) => () => {
+      clearTimeout(timers.get(table));
+      timers.set(table, setTimeout(refetch, REALTIME_DEBOUNCE_MS));
+    };
+
+    let wasOffline = false;
+    const channel = supabase
+      .channel('game-data')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'match' }, refetchSoon('match', getAllMatches))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'player' }, refetchSoon('player', getPlayers))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'pairing' }, refetchSoon('pairing', getPairings))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'lobby' }, refetchSoon('lobby', getLobby))
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'elo_adjustment' },
+        refetchSoon('elo_adjustment', getAdjustments),
+      )
+      .subscribe((status) => {
+        if (status === REALTIME_SUBSCRIBE_STATES.SUBSCRIBED) {
+          // Changes made while disconnected were never delivered, so catch up in one go
+          if (wasOffline) refresh();
+          wasOffline = false;
+          setRealtimeStatus('live');
+        } else {
+          wasOffline = true;
+          setRealtimeStatus('offline');
+        }
+      });
+
+    return () => {
+      timers.forEach((timer) => clearTimeout(timer));
+      supabase.removeChannel(channel);
+    };
+  }, [getAdjustments, getAllMatches, getLobby, getPairings, getPlayers, refresh]);
+
+  return {
+    players,
+    allMatches,
+    matches,
+    adjustments,
+    pairings,
+    seasons,
+    currentSeason,
+    streaks,
+    ratingSystem,
+    setRatingSystem,
+    lobby,
+    lobbyIds,
+    lobbyIdleHours,
+    setLobbyIdleHours,
+    decayPolicy,
+    setDecayPolicy,
+    decayForecast,
+    checkIn,
+    checkOut,
+    hasMatchInProgress,
+    startSeason,
+    realtimeStatus,
+    refresh,
+  };
 }
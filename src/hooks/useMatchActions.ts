@@ -1,30 +1,34 @@
 import { useCallback } from 'react';
-import supabase from '@/lib/supabase.ts';
+import supabase, { authHeaders } from '@/lib/supabase.ts';
 import type { Player, Match } from '@/types/common.ts';
-import { calculateMatchResult, calculateRevertedPlayers } from '@/utils/elo.ts';
+import { applyMatchEdit, type MatchChanges } from '@/utils/eloReplay.ts';
+import { realignPicks, type MatchPicks } from '@/utils/champions.ts';
 
-export default function useMatchActions(players: Player[] | null, refresh: () => void) {
-  const endMatch = useCallback(
-    async (match: Match, result: 'A' | 'B') => {
-      if (!players) return;
-      const { teamANewElos, teamBNewElos, updatedAPlayers, updatedBPlayers } = calculateMatchResult(
-        match,
-        result,
-        players,
-      );
-
-      await supabase
-        .from('match')
-        .update({ result, team_a_new_elos: teamANewElos, team_b_new_elos: teamBNewElos })
-        .eq('id', match.id);
-
-      await supabase
-        .from('player')
-        .upsert([...updatedAPlayers, ...updatedBPlayers].map((p) => ({ ...p, is_decaying: false })));
+// Ending, reverting and cancelling go through the API so Elo is computed and written server-side
+// in one transaction; the endpoint rejects matches that are no longer in the expected state.
+async function postMatchAction(matchId: number, action: 'end' | 'revert' | 'cancel', body: object = {}) {
+  const res = await fetch(`/api/matches/${matchId}/${action}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+    body: JSON.stringify(body),
+  });
+  const payload = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(payload.error ?? res.statusText);
+  return payload as { match: Match; players: Pick<Player, 'id' | 'elo' | 'win' | 'total'>[] };
+}
 
+export default function useMatchActions(players: Player[] | null, allMatches: Match[] | null, refresh: () => void) {
+  const endMatch = useCallback(
+    async (match: Match, result: 'A' | 'B', picks?: MatchPicks) => {
+      try {
+        await postMatchAction(match.id, 'end', { result, ...picks });
+      } catch (err) {
+        // eslint-disable-next-line no-alert
+        alert(`Couldn't end the match: ${(err as Error).message}`);
+      }
       refresh();
     },
-    [players, refresh],
+    [refresh],
   );
 
   const revertMatch = useCallback(
@@ -38,24 +42,55 @@ export default function useMatchActions(players: Player[] | null, refresh: () =>
         return;
       }
 
-      if (!players) return;
-      const { updatedAPlayers, updatedBPlayers } = calculateRevertedPlayers(match, players);
-
-      await supabase.from('match').update({ result: 'Reverted' }).eq('id', match.id);
-      await supabase.from('player').upsert([...updatedAPlayers, ...updatedBPlayers]);
-
+      try {
+        await postMatchAction(match.id, 'revert');
+      } catch (err) {
+        // eslint-disable-next-line no-alert
+        alert(`Couldn't revert the match: ${(err as Error).message}`);
+      }
       refresh();
     },
-    [players, refresh],
+    [refresh],
   );
 
   const cancelMatch = useCallback(
     async (match: Match) => {
-      await supabase.from('match').update({ result: 'Cancelled' }).eq('id', match.id);
+      try {
+        await postMatchAction(match.id, 'cancel');
+      } catch (err) {
+        // eslint-disable-next-line no-alert
+        alert(`Couldn't cancel the match: ${(err as Error).message}`);
+      }
       refresh();
     },
     [refresh],
   );
 
-  return { endMatch, revertMatch, cancelMatch };
+  const editMatch = useCallback(
+    async (match: Match, changes: MatchChanges) => {
+      if (!players || !allMatches) return;
+      const { matches: rewritten, deltas } = applyMatchEdit(allMatches, match.id, changes, players);
+      const edited = rewritten.find((m) => m.id === match.id);
+      if (!edited) return;
+
+      // Picks are stored by slot, so keep each one with its player when the teams change
+      const picks = realignPicks(match, changes.team_a_players, changes.team_b_players);
+      const { error } = await supabase.rpc('edit_match', {
+        p_match_id: match.id,
+        p_match: { ...edited, ...picks },
+        p_matches: rewritten.filter((m) => m.id !== match.id),
+        // Added to the stored ratings under a lock, so a match ended since this page loaded is kept
+        p_deltas: deltas,
+      });
+      if (error) {
+        // eslint-disable-next-line no-alert
+        alert(`Couldn't edit the match: ${error.message}`);
+      }
+
+      refresh();
+    },
+    [allMatches, players, refresh],
+  );
+
+  return { endMatch, revertMatch, cancelMatch, editMatch };
 }
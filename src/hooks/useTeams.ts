@@ -1,21 +1,32 @@
-import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { meanBy } from 'es-toolkit';
 import { some } from 'es-toolkit/compat';
 import supabase from '@/lib/supabase.ts';
 import useSupaQuery from '@/hooks/useSupaQuery.ts';
-import type { Player, Match, Pairing } from '@/types/common.ts';
+import type { Player, LobbyEntry, Match, Pairing } from '@/types/common.ts';
 import type { Streak } from '@/utils/streaks.ts';
-import { findTeams } from '@/utils/suggestTeams.ts';
+import { AVOID_REPEAT_MATCHES, DEFAULT_TEAM_SIZE, findTeams, type TeamSuggestion } from '@/utils/suggestTeams.ts';
+import { getWinProbability } from '@/utils/elo.ts';
+import { ROLES, assignRoles, type Role } from '@/utils/roles.ts';
+import { planRotation } from '@/utils/rotation.ts';
 
 export default function useTeams(
   players: Player[] | null,
   matches: Match[] | null,
   pairings: Pairing[] | null,
   streaks: Record<number, Streak> = {},
+  lobby: LobbyEntry[] = [],
+  checkIn: (ids: number[]) => Promise<void> = async () => {},
+  checkOut: (id: number) => Promise<void> = async () => {},
 ) {
   const [teamA, setTeamA] = useState<Player[]>([]);
   const [teamB, setTeamB] = useState<Player[]>([]);
-  const [availableIds, setAvailableIds] = useState<number[]>([]);
+  const [rotationMode, setRotationMode] = useState(true);
+  const [teamSize, setTeamSize] = useState(DEFAULT_TEAM_SIZE);
+  const matchSize = teamSize * 2;
+  const [options, setOptions] = useState<TeamSuggestion[]>([]);
+  const [optionIndex, setOptionIndex] = useState(0);
+  const availableIds = useMemo(() => lobby.map((e) => e.player_id), [lobby]);
   const [dragging, setDragging] = useState<{ player: Player; from: 'A' | 'B' } | null>(null);
 
   const handleDragStart = useCallback(
@@ -59,19 +70,60 @@ export default function useTeams(
   const averageTeamBElos = useMemo(() => Math.round(meanBy(teamB, (player) => player.elo)), [teamB]);
   const eloDiff = useMemo(() => Math.abs(averageTeamAElos - averageTeamBElos), [averageTeamAElos, averageTeamBElos]);
 
+  const teamAWinProbability = useMemo(
+    () =>
+      teamA.length && teamB.length
+        ? getWinProbability(
+            teamA.map((p) => p.elo),
+            teamB.map((p) => p.elo),
+          )
+        : null,
+    [teamA, teamB],
+  );
+
+  // Lanes only mean something in 5v5
+  const roles = useMemo(
+    () =>
+      teamSize !== ROLES.length
+        ? new Map<number, Role>()
+        : new Map<number, Role>([
+            ...assignRoles(
+              teamA,
+              teamA.map((p) => p.elo),
+            ).roles,
+            ...assignRoles(
+              teamB,
+              teamB.map((p) => p.elo),
+            ).roles,
+          ]),
+    [teamA, teamB, teamSize],
+  );
+
   const available = useMemo(() => {
     if (!players) return [];
     return players.filter((p) => availableIds.includes(p.id));
   }, [availableIds, players]);
 
+  // Who plays next when more people are checked in than fit; everyone plays otherwise
+  const rotation = useMemo(
+    () => (available.length > matchSize ? planRotation(available, lobby, matches ?? [], matchSize) : null),
+    [available, lobby, matchSize, matches],
+  );
+
+  // Splits of the last few played matches, which the suggestion tries not to repeat
+  const recentMatches = useMemo(
+    () => (matches ?? []).filter((m) => m.result === 'A' || m.result === 'B').slice(0, AVOID_REPEAT_MATCHES),
+    [matches],
+  );
+
   const disabledStart = useMemo(
     () =>
-      available.length % 2 === 1 ||
+      Math.min(available.length, matchSize) % 2 === 1 ||
       some(matches, (match) => !match.result) ||
       teamA.length === 0 ||
       teamB.length === 0 ||
       teamA.length !== teamB.length,
-    [available.length, matches, teamA.length, teamB.length],
+    [available.length, matchSize, matches, teamA.length, teamB.length],
   );
 
   const disabledSuggest = useMemo(() => availableIds.length < 2, [availableIds.length]);
@@ -90,9 +142,11 @@ export default function useTeams(
   const createMatchCallback = useCallback(async () => supabase.from('match').insert([newMatch]), [newMatch]);
   const [createMatch] = useSupaQuery(createMatchCallback);
 
-  const toggleAvailable = useCallback((id: number) => {
-    setAvailableIds((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
-  }, []);
+  // Available players are the persisted lobby, so the host's toggles check people in or out for everyone
+  const toggleAvailable = useCallback(
+    (id: number) => (availableIds.includes(id) ? checkOut(id) : checkIn([id])),
+    [availableIds, checkIn, checkOut],
+  );
 
   const lastMatch = useCallback(
     (match?: Match) => {
@@ -100,28 +154,79 @@ export default function useTeams(
       const lastTeamA = players?.filter((player) => lastMatchData?.team_a_players.includes(player.id));
       const lastTeamB = players?.filter((player) => lastMatchData?.team_b_players.includes(player.id));
 
-      setAvailableIds([...(lastMatchData?.team_a_players || []), ...(lastMatchData?.team_b_players || [])]);
+      const lastIds = [...(lastMatchData?.team_a_players || []), ...(lastMatchData?.team_b_players || [])];
+      const missingIds = lastIds.filter((id) => !availableIds.includes(id));
+      if (missingIds.length) checkIn(missingIds);
 
       setTeamA(lastTeamA || []);
       setTeamB(lastTeamB || []);
     },
-    [matches, players],
+    [availableIds, checkIn, matches, players],
+  );
+
+  const selectOption = useCallback(
+    (index: number) => {
+      const option = options[index];
+      if (!option) return;
+      setOptionIndex(index);
+      setTeamA(option.teamA);
+      setTeamB(option.teamB);
+    },
+    [options],
+  );
+
+  // Who the suggestion picks from: the next rotation when it's on, otherwise everyone checked in
+  const pool = useMemo(
+    () => (rotationMode && rotation ? rotation.playing.map((e) => e.player) : available),
+    [available, rotation, rotationMode],
   );
 
+  // Ranks the best splits; a non-zero tolerance starts on a random one that's as good as the best
+  // on constraints and lanes and within `tolerance` of it on balance
   const suggestTeams = useCallback(
     (tolerance = 20) => {
       if (!players) return;
-      const { teamA: a, teamB: b } = findTeams(available, pairings, tolerance, streaks);
-      setTeamA(a);
-      setTeamB(b);
+      const ranked = findTeams(pool, pairings, streaks, recentMatches, { teamSize });
+      const [best] = ranked;
+      const close = ranked.filter(
+        (o) =>
+          best &&
+          o.unsatisfied.length === best.unsatisfied.length &&
+          o.offRole.length === best.offRole.length &&
+          o.imbalance - best.imbalance <= tolerance,
+      );
+      const index = close.length ? Math.floor(Math.random() * close.length) : 0;
+      setOptions(ranked);
+      setOptionIndex(index);
+      setTeamA(ranked[index]?.teamA ?? []);
+      setTeamB(ranked[index]?.teamB ?? []);
     },
-    [available, pairings, players, streaks],
+    [pairings, players, pool, recentMatches, streaks, teamSize],
   );
 
+  // Realtime refetches give suggestTeams a new identity on every remote change, which would undo
+  // teams the host has arranged by hand, so only a different set of players (or format) re-suggests
+  const suggestTeamsRef = useRef(suggestTeams);
   useEffect(() => {
-    suggestTeams(0);
+    suggestTeamsRef.current = suggestTeams;
   }, [suggestTeams]);
 
+  const poolKey = useMemo(
+    () =>
+      pool
+        .map((p) => p.id)
+        .sort((a, b) => a - b)
+        .join(','),
+    [pool],
+  );
+
+  // Pairings usually load after the players; the first suggestion shouldn't miss them
+  const pairingsLoaded = pairings !== null;
+
+  useEffect(() => {
+    suggestTeamsRef.current(0);
+  }, [pairingsLoaded, poolKey, teamSize]);
+
   return {
     teamA,
     teamB,
@@ -129,6 +234,16 @@ export default function useTeams(
     averageTeamAElos,
     averageTeamBElos,
     eloDiff,
+    teamAWinProbability,
+    roles,
+    options,
+    optionIndex,
+    selectOption,
+    rotation,
+    rotationMode,
+    setRotationMode,
+    teamSize,
+    setTeamSize,
     disabledStart,
     disabledSuggest,
     handleDragStart,
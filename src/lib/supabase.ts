@@ -6,3 +6,9 @@ const supabase = createClient(
 );
 
 export default supabase;
+
+/** Header that identifies the signed-in user to our own api/ endpoints. */
+export async function authHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabase.auth.getSession();
+  return data.session ? { Authorization: `Bearer ${data.session.access_token}` } : {};
+}
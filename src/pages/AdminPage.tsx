@@ -0,0 +1,93 @@
+import BackButton from '@/components/BackButton.tsx';
+import Section from '@/components/Section.tsx';
+import RequireAdmin from '@/components/RequireAdmin.tsx';
+import AdminPlayers from '@/components/admin/AdminPlayers.tsx';
+import MergePlayers from '@/components/admin/MergePlayers.tsx';
+import AdminClaims from '@/components/admin/AdminClaims.tsx';
+import AdminSeasons from '@/components/admin/AdminSeasons.tsx';
+import AdminSettings from '@/components/admin/AdminSettings.tsx';
+import StuckMatches from '@/components/admin/StuckMatches.tsx';
+import FeedbackModeration from '@/components/admin/FeedbackModeration.tsx';
+import { GameDataProvider, useGameDataContext } from '@/contexts/GameDataContext.tsx';
+import { MatchActionsProvider } from '@/contexts/MatchActionsContext.tsx';
+import { useAdminContext } from '@/contexts/AdminContext.tsx';
+import useAdminActions from '@/hooks/useAdminActions.ts';
+import { planPlayerMerge } from '@/utils/playerMerge.ts';
+
+function AdminContent() {
+  const { players, allMatches, seasons, refresh } = useGameDataContext();
+  const { refreshMe } = useAdminContext();
+  const { setHidden, setAdmin, mergePlayers, renameSeason } = useAdminActions(refresh);
+
+  const handleMerge = async (keepId: number, removeId: number) => {
+    const plan = planPlayerMerge(allMatches ?? [], players ?? [], keepId, removeId);
+    const merged = await mergePlayers(keepId, removeId, plan);
+    // Merging may have moved the signed-in user's login onto the kept player
+    if (merged) await refreshMe();
+    return merged;
+  };
+
+  return (
+    <div className="space-y-6">
+      <Section title="Players">
+        <div className="space-y-4">
+          <MergePlayers players={players ?? []} onMerge={handleMerge} />
+          <AdminPlayers players={players ?? []} onSetHidden={setHidden} onSetAdmin={setAdmin} />
+        </div>
+      </Section>
+      <Section title="Claims">
+        <AdminClaims players={players ?? []} />
+      </Section>
+      <Section title="Matches in progress">
+        <StuckMatches matches={allMatches ?? []} players={players ?? []} />
+      </Section>
+      <Section title="Seasons">
+        <AdminSeasons seasons={seasons ?? []} onRename={renameSeason} />
+      </Section>
+      <Section title="Settings">
+        <AdminSettings />
+      </Section>
+      <Section title="Feedback">
+        <FeedbackModeration players={players ?? []} />
+      </Section>
+    </div>
+  );
+}
+
+export default function AdminPage() {
+  return (
+    <div
+      className={`
+        min-h-screen bg-gradient-to-b from-gray-50 to-white text-gray-900
+        dark:from-gray-950 dark:to-gray-900 dark:text-gray-100
+      `}
+    >
+      <div
+        className={`
+          mx-auto max-w-6xl p-4
+          md:p-8
+        `}
+      >
+        <div className="mb-6 flex items-center gap-4">
+          <BackButton to="/" />
+          <h1
+            className={`
+              text-2xl font-bold tracking-tight
+              md:text-3xl
+            `}
+          >
+            Admin
+          </h1>
+        </div>
+
+        <RequireAdmin>
+          <GameDataProvider>
+            <MatchActionsProvider>
+              <AdminContent />
+            </MatchActionsProvider>
+          </GameDataProvider>
+        </RequireAdmin>
+      </div>
+    </div>
+  );
+}
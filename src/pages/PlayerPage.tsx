@@ -1,24 +1,32 @@
 import { useEffect, useState, useCallback, useMemo } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import supabase from '@/lib/supabase.ts';
-import type { Player, Match } from '@/types/common.ts';
+import type { Player, Match, EloAdjustment } from '@/types/common.ts';
 import Avatar from '@/components/Avatar.tsx';
 import BackButton from '@/components/BackButton.tsx';
 import EloChart from '@/components/EloChart.tsx';
+import AdjustmentCard from '@/components/AdjustmentCard.tsx';
+import EloAdjustmentForm from '@/components/EloAdjustmentForm.tsx';
 import PlayerGarden from '@/components/PlayerGarden.tsx';
+import Pill from '@/components/Pill.tsx';
+import Markdown from '@/components/Markdown.tsx';
 import { useDisplayName } from '@/contexts/DisplayNameContext.tsx';
-import { useAuth } from '@/contexts/AuthContext.tsx';
+import { useAdminContext } from '@/contexts/AdminContext.tsx';
+import useEloAdjustments from '@/hooks/useEloAdjustments.ts';
 import { getWeekWindow, computeWeeklyStats } from '@/utils/weeklyStats.ts';
+import { getChampionStats } from '@/utils/champions.ts';
+import { formatIngame } from '@/utils/profile.ts';
 
 export default function PlayerPage() {
   const { displayName } = useDisplayName();
-  const { user } = useAuth();
+  const { isAdmin } = useAdminContext();
   const { id } = useParams<{ id: string }>();
   const playerId = Number(id);
   const [player, setPlayer] = useState<Player | null>(null);
   const [playerLoading, setPlayerLoading] = useState(true);
   const [matches, setMatches] = useState<Match[]>([]);
-  const [isAdmin, setIsAdmin] = useState(false);
+  const [adjustments, setAdjustments] = useState<EloAdjustment[]>([]);
+  const [allPlayers, setAllPlayers] = useState<Pick<Player, 'id' | 'name' | 'avatar' | 'ingame'>[]>([]);
 
   const fetchPlayer = useCallback(async () => {
     const { data } = await supabase.from('player').select().eq('id', playerId).single();
@@ -34,6 +42,27 @@ export default function PlayerPage() {
     if (data) setMatches(data as Match[]);
   }, [playerId]);
 
+  const fetchAdjustments = useCallback(async () => {
+    const { data } = await supabase
+      .from('elo_adjustment')
+      .select()
+      .eq('player_id', playerId)
+      .order('created_at', { ascending: false });
+    if (data) setAdjustments(data as EloAdjustment[]);
+  }, [playerId]);
+
+  // Adjustment authors are shown by name
+  const fetchAllPlayers = useCallback(async () => {
+    const { data } = await supabase.from('player').select('id, name, avatar, ingame');
+    if (data) setAllPlayers(data as Pick<Player, 'id' | 'name' | 'avatar' | 'ingame'>[]);
+  }, []);
+
+  const refreshRating = useCallback(() => {
+    fetchPlayer();
+    fetchAdjustments();
+  }, [fetchPlayer, fetchAdjustments]);
+  const { adjustElo, revertAdjustment } = useEloAdjustments(refreshRating);
+
   const weeklyStats = useMemo(() => {
     if (!player || matches.length === 0) return null;
     const sorted = [...matches]
@@ -41,9 +70,9 @@ export default function PlayerPage() {
       .sort((a, b) => b.created_at.localeCompare(a.created_at));
     const week = getWeekWindow(sorted);
     if (!week) return null;
-    const stats = computeWeeklyStats(sorted, [player], week);
+    const stats = computeWeeklyStats(sorted, [player], week, adjustments);
     return { stat: stats[0] ?? null, label: week.label };
-  }, [player, matches]);
+  }, [player, matches, adjustments]);
 
   const allTimeStats = useMemo(() => {
     const completed = matches.filter((m) => m.result === 'A' || m.result === 'B');
@@ -55,20 +84,25 @@ export default function PlayerPage() {
     return { wins, losses: total - wins, total, winRate: total ? ((wins / total) * 100).toFixed(1) : '0' };
   }, [matches, playerId]);
 
+  const championStats = useMemo(() => getChampionStats(matches, playerId), [matches, playerId]);
+  const riotId = player ? formatIngame(player) : null;
+  const hasProfile =
+    !!player &&
+    !!(
+      riotId ||
+      player.rank ||
+      player.bio ||
+      player.preferred_roles.length ||
+      player.secondary_roles.length ||
+      player.favorite_champions.length
+    );
+
   useEffect(() => {
     fetchPlayer();
     fetchMatches();
-  }, [fetchPlayer, fetchMatches]);
-
-  useEffect(() => {
-    if (!user?.email) return;
-    supabase
-      .from('player')
-      .select('isAdmin')
-      .eq('email', user.email)
-      .single()
-      .then(({ data }) => setIsAdmin(data?.isAdmin ?? false));
-  }, [user?.email]);
+    fetchAdjustments();
+    fetchAllPlayers();
+  }, [fetchPlayer, fetchMatches, fetchAdjustments, fetchAllPlayers]);
 
   if (playerLoading || !player) {
     return (
@@ -207,6 +241,67 @@ export default function PlayerPage() {
           </h1>
         </div>
 
+        {hasProfile && (
+          <div
+            className={`
+              mb-6 flex flex-col gap-3 rounded-lg bg-white p-4 shadow
+              dark:bg-gray-800
+            `}
+          >
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              {riotId && <span className="font-medium">{riotId}</span>}
+              {player.rank && <Pill>{player.rank}</Pill>}
+              {player.preferred_roles.map((role) => (
+                <Pill key={role}>{role}</Pill>
+              ))}
+              {player.secondary_roles.map((role) => (
+                <span
+                  key={role}
+                  className={`
+                    text-xs text-gray-500
+                    dark:text-gray-400
+                  `}
+                >
+                  {role}
+                </span>
+              ))}
+            </div>
+
+            {player.favorite_champions.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span
+                  className={`
+                    text-gray-500
+                    dark:text-gray-400
+                  `}
+                >
+                  Plays
+                </span>
+                {player.favorite_champions.map((champion) => {
+                  const stat = championStats.find((s) => s.champion === champion);
+                  return (
+                    <Pill key={champion}>
+                      {champion}
+                      {stat && ` · ${stat.games}G ${Math.round(stat.winRate * 100)}%`}
+                    </Pill>
+                  );
+                })}
+              </div>
+            )}
+
+            {player.bio && (
+              <div
+                className={`
+                  text-sm text-gray-700
+                  dark:text-gray-300
+                `}
+              >
+                <Markdown>{player.bio}</Markdown>
+              </div>
+            )}
+          </div>
+        )}
+
         <div className="mb-6">
           <PlayerGarden player={player} matches={matches} playerId={playerId} isAdmin={isAdmin} />
         </div>
@@ -455,7 +550,105 @@ export default function PlayerPage() {
           </div>
         </div>
 
-        <EloChart playerId={playerId} matches={matches} />
+        {championStats.length > 0 && (
+          <>
+            <h2
+              className={`
+                mb-4 text-lg font-semibold
+                md:text-xl
+              `}
+            >
+              Champion Pool
+            </h2>
+            <div
+              className={`
+                mb-6 overflow-x-auto rounded-lg bg-white shadow
+                dark:bg-gray-800
+              `}
+            >
+              <table className="w-full text-sm">
+                <thead>
+                  <tr
+                    className={`
+                      text-left text-gray-500
+                      dark:text-gray-400
+                    `}
+                  >
+                    <th className="px-4 py-2 font-medium">Champion</th>
+                    <th className="px-4 py-2 text-right font-medium">Games</th>
+                    <th className="px-4 py-2 text-right font-medium">Win Rate</th>
+                    <th className="px-4 py-2 text-right font-medium">Elo Δ</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {championStats.map((stat) => (
+                    <tr
+                      key={stat.champion}
+                      className={`
+                        border-t border-gray-100
+                        dark:border-gray-700
+                      `}
+                    >
+                      <td className="px-4 py-2 font-medium">{stat.champion}</td>
+                      <td className="px-4 py-2 text-right tabular-nums">{stat.games}</td>
+                      <td className="px-4 py-2 text-right tabular-nums">{(stat.winRate * 100).toFixed(1)}%</td>
+                      <td
+                        className={`
+                          px-4 py-2 text-right tabular-nums
+                          ${
+                            stat.eloDelta > 0
+                              ? `
+                                text-green-600
+                                dark:text-green-400
+                              `
+                              : stat.eloDelta < 0
+                                ? `
+                                  text-red-500
+                                  dark:text-red-400
+                                `
+                                : ''
+                          }
+                        `}
+                      >
+                        {stat.eloDelta > 0 ? `+${stat.eloDelta}` : stat.eloDelta}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        <EloChart playerId={playerId} matches={matches} adjustments={adjustments} />
+
+        {(isAdmin || adjustments.length > 0) && (
+          <>
+            <h2
+              className={`
+                mt-8 mb-4 text-lg font-semibold
+                md:text-xl
+              `}
+            >
+              Elo Adjustments
+            </h2>
+            {isAdmin && (
+              <div className="mb-4">
+                <EloAdjustmentForm onAdjust={(kind, amount, reason) => adjustElo(playerId, kind, amount, reason)} />
+              </div>
+            )}
+            <ul className="space-y-4">
+              {adjustments.map((adjustment) => (
+                <AdjustmentCard
+                  key={adjustment.id}
+                  adjustment={adjustment}
+                  players={allPlayers}
+                  onRevert={isAdmin ? revertAdjustment : undefined}
+                />
+              ))}
+            </ul>
+          </>
+        )}
       </div>
     </div>
   );
@@ -1,13 +1,29 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
 import BackButton from '@/components/BackButton.tsx';
+import Select from '@/components/Select.tsx';
 import { upload } from '@vercel/blob/client';
-import supabase from '@/lib/supabase.ts';
+import supabase, { authHeaders } from '@/lib/supabase.ts';
 import { useAuth } from '@/contexts/AuthContext.tsx';
-import type { Player } from '@/types/common.ts';
+import { useAdminContext } from '@/contexts/AdminContext.tsx';
+import type { Player, PlayerClaim } from '@/types/common.ts';
+import type { TablesUpdate } from '@/types/database.ts';
+import { ROLES, type Role } from '@/utils/roles.ts';
+import {
+  BIO_MAX_LENGTH,
+  MAX_FAVORITE_CHAMPIONS,
+  RANKS,
+  formatIngame,
+  parseFavoriteChampions,
+  parseIngame,
+} from '@/utils/profile.ts';
 
 const DEFAULT_AVATAR = 'https://cob0e2g1ourlhlk0.public.blob.vercel-storage.com/default.jpg';
 
+type RoleComfort = 'preferred' | 'secondary' | null;
+
+const sameRoles = (a: string[], b: string[]) => a.length === b.length && a.every((r) => b.includes(r));
+
 function LoginForm({
   signIn,
   signInWithPassword,
@@ -181,6 +197,7 @@ function LoginForm({
 
 export default function UserPage() {
   const { user, loading, signOut, signIn, signInWithPassword, signUp } = useAuth();
+  const { refreshMe } = useAdminContext();
   const navigate = useNavigate();
 
   const handleSignOut = useCallback(async () => {
@@ -191,56 +208,93 @@ export default function UserPage() {
   const [player, setPlayer] = useState<Player | null>(null);
   const [playerLoading, setPlayerLoading] = useState(true);
   const [name, setName] = useState('');
+  const [preferredRoles, setPreferredRoles] = useState<string[]>([]);
+  const [secondaryRoles, setSecondaryRoles] = useState<string[]>([]);
+  const [ingame, setIngame] = useState('');
+  const [rank, setRank] = useState('');
+  const [favorites, setFavorites] = useState('');
+  const [bio, setBio] = useState('');
   const [saving, setSaving] = useState(false);
   const [pendingAvatar, setPendingAvatar] = useState<File | null>(null);
   const [pendingAvatarPreview, setPendingAvatarPreview] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const [unclaimedPlayers, setUnclaimedPlayers] = useState<Player[]>([]);
+  const [claimablePlayers, setClaimablePlayers] = useState<Player[]>([]);
+  const [claim, setClaim] = useState<PlayerClaim | null>(null);
   const [claimSearch, setClaimSearch] = useState('');
   const [claiming, setClaiming] = useState(false);
 
   const fetchPlayer = useCallback(async () => {
-    if (!user?.email) return;
+    if (!user) return;
     setPlayerLoading(true);
-    const { data } = await supabase.from('player').select('*').eq('email', user.email).limit(1).single();
+    const { data: login } = await supabase
+      .from('player_login')
+      .select('player_id')
+      .eq('user_id', user.id)
+      .maybeSingle();
+    const { data } = login
+      ? await supabase.from('player').select('*').eq('id', login.player_id).single()
+      : { data: null };
     if (data) {
       setPlayer(data);
       setName(data.name);
+      setPreferredRoles(data.preferred_roles);
+      setSecondaryRoles(data.secondary_roles);
+      setIngame(formatIngame(data) ?? '');
+      setRank(data.rank ?? '');
+      setFavorites(data.favorite_champions.join(', '));
+      setBio(data.bio ?? '');
     }
     setPlayerLoading(false);
-  }, [user?.email]);
+  }, [user]);
 
-  const fetchUnclaimedPlayers = useCallback(async () => {
-    const { data } = await supabase.from('player').select('*').is('email', null).order('name');
-    if (data) setUnclaimedPlayers(data);
+  // Any player can be claimed, since one person may sign in with several logins; an admin confirms
+  const fetchClaimablePlayers = useCallback(async () => {
+    const { data } = await supabase.from('player').select('*').eq('hidden', false).order('name');
+    if (data) setClaimablePlayers(data);
   }, []);
 
+  const fetchClaim = useCallback(async () => {
+    if (!user) return;
+    const { data } = await supabase
+      .from('player_claim')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    setClaim(data);
+  }, [user]);
+
   useEffect(() => {
     fetchPlayer();
   }, [fetchPlayer]);
 
   useEffect(() => {
     if (!playerLoading && !player && user) {
-      fetchUnclaimedPlayers();
+      fetchClaimablePlayers();
+      fetchClaim();
     }
-  }, [playerLoading, player, user, fetchUnclaimedPlayers]);
+  }, [playerLoading, player, user, fetchClaimablePlayers, fetchClaim]);
 
-  const filteredUnclaimedPlayers = useMemo(
+  const filteredClaimablePlayers = useMemo(
     () =>
       claimSearch.trim()
-        ? unclaimedPlayers.filter((p) => p.name.toLowerCase().includes(claimSearch.trim().toLowerCase()))
-        : unclaimedPlayers,
-    [unclaimedPlayers, claimSearch],
+        ? claimablePlayers.filter((p) => p.name.toLowerCase().includes(claimSearch.trim().toLowerCase()))
+        : claimablePlayers,
+    [claimablePlayers, claimSearch],
   );
+  const claimedName = claimablePlayers.find((p) => p.id === claim?.player_id)?.name ?? 'this player';
 
   const handleClaim = useCallback(
     async (playerId: number) => {
-      if (!user?.email) return;
+      if (!user) return;
       setClaiming(true);
       try {
-        await supabase.from('player').update({ email: user.email }).eq('id', playerId);
-        await fetchPlayer();
+        // Only files the request; the login is linked once an admin approves it
+        const { data, error } = await supabase.rpc('claim_player', { p_player_id: playerId });
+        if (error) throw error;
+        setClaim(data as PlayerClaim);
       } catch (err) {
         // eslint-disable-next-line no-alert
         alert(`Claim failed: ${(err as Error).message}`);
@@ -248,9 +302,15 @@ export default function UserPage() {
         setClaiming(false);
       }
     },
-    [user?.email, fetchPlayer],
+    [user],
   );
 
+  const handleWithdraw = useCallback(async () => {
+    if (!claim) return;
+    await supabase.from('player_claim').delete().eq('id', claim.id);
+    fetchClaim();
+  }, [claim, fetchClaim]);
+
   const handleAvatarChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
@@ -263,37 +323,106 @@ export default function UserPage() {
     [player],
   );
 
-  const hasChanges = player && name.trim() !== '' && (name.trim() !== player.name || pendingAvatar);
+  const roleComfort = useCallback(
+    (role: Role): RoleComfort => {
+      if (preferredRoles.includes(role)) return 'preferred';
+      if (secondaryRoles.includes(role)) return 'secondary';
+      return null;
+    },
+    [preferredRoles, secondaryRoles],
+  );
+
+  // Each tap cycles a lane through none → preferred → secondary → none
+  const cycleRole = useCallback(
+    (role: Role) => {
+      const current = roleComfort(role);
+      setPreferredRoles((prev) => (current === null ? [...prev, role] : prev.filter((r) => r !== role)));
+      setSecondaryRoles((prev) => (current === 'preferred' ? [...prev, role] : prev.filter((r) => r !== role)));
+    },
+    [roleComfort],
+  );
+
+  const rolesChanged =
+    !!player &&
+    (!sameRoles(preferredRoles, player.preferred_roles) || !sameRoles(secondaryRoles, player.secondary_roles));
+
+  // An empty in-game name clears it; anything else has to be a full Riot ID. Names set before tags
+  // existed stay as they are until the player edits them.
+  const parsedIngame = useMemo(() => (ingame.trim() ? parseIngame(ingame) : null), [ingame]);
+  const ingameUntouched = !!player && ingame.trim() === (formatIngame(player) ?? '');
+  const ingameInvalid = !ingameUntouched && ingame.trim() !== '' && !parsedIngame;
+  const ingameChanged = !!player && !ingameUntouched && !ingameInvalid;
+  const favoriteChampions = useMemo(() => parseFavoriteChampions(favorites), [favorites]);
+  const favoritesChanged = !!player && favoriteChampions.join(',') !== player.favorite_champions.join(',');
+  const profileChanged =
+    !!player &&
+    (ingameChanged || (rank || null) !== player.rank || favoritesChanged || (bio.trim() || null) !== player.bio);
+
+  const hasChanges =
+    player &&
+    name.trim() !== '' &&
+    !ingameInvalid &&
+    (name.trim() !== player.name || pendingAvatar || rolesChanged || profileChanged);
 
   const handleSave = useCallback(async () => {
     if (!user || !player || !hasChanges) return;
     setSaving(true);
     try {
-      const updates: Record<string, string> = {};
+      const updates: TablesUpdate<'player'> = {};
       if (name.trim() !== player.name) updates.name = name.trim();
+      if (rolesChanged) {
+        updates.preferred_roles = ROLES.filter((r) => preferredRoles.includes(r));
+        updates.secondary_roles = ROLES.filter((r) => secondaryRoles.includes(r));
+      }
+      if (ingameChanged) {
+        updates.ingame = parsedIngame?.name ?? null;
+        updates.ingame_tag = parsedIngame?.tag ?? null;
+      }
+      if ((rank || null) !== player.rank) updates.rank = rank || null;
+      if (favoritesChanged) updates.favorite_champions = favoriteChampions;
+      if ((bio.trim() || null) !== player.bio) updates.bio = bio.trim() || null;
 
       if (pendingAvatar) {
         const blob = await upload(`avatars/${player.id}-${Date.now()}`, pendingAvatar, {
           access: 'public',
           handleUploadUrl: '/api/upload',
+          headers: await authHeaders(),
         });
         updates.avatar = blob.url;
       }
 
       if (Object.keys(updates).length > 0) {
-        await supabase.from('player').update(updates).eq('id', player.id);
+        const { error } = await supabase.from('player').update(updates).eq('id', player.id);
+        if (error) throw error;
       }
 
       setPendingAvatar(null);
       setPendingAvatarPreview(null);
-      await fetchPlayer();
+      await Promise.all([fetchPlayer(), refreshMe()]);
     } catch (err) {
       // eslint-disable-next-line no-alert
       alert(`Save failed: ${(err as Error).message}`);
     } finally {
       setSaving(false);
     }
-  }, [user, player, hasChanges, name, pendingAvatar, fetchPlayer]);
+  }, [
+    user,
+    player,
+    hasChanges,
+    name,
+    rolesChanged,
+    preferredRoles,
+    secondaryRoles,
+    ingameChanged,
+    parsedIngame,
+    rank,
+    favoritesChanged,
+    favoriteChampions,
+    bio,
+    pendingAvatar,
+    fetchPlayer,
+    refreshMe,
+  ]);
 
   if (loading) {
     return (
@@ -392,73 +521,109 @@ export default function UserPage() {
               dark:text-gray-400
             `}
           >
-            No player is linked to <span className="font-medium">{user.email}</span>. Pick your player below to claim
-            it.
+            No player is linked to <span className="font-medium">{user.email}</span>. Pick your player below and an
+            admin will confirm it.
           </p>
 
-          <input
-            type="text"
-            placeholder="Search players..."
-            value={claimSearch}
-            onChange={(e) => setClaimSearch(e.target.value)}
-            className={`
-              mb-4 w-full rounded border border-gray-300 bg-transparent px-3 py-2
-              dark:border-gray-600
-            `}
-          />
-
-          {filteredUnclaimedPlayers.length === 0 ? (
+          {claim?.status === 'rejected' && (
             <p
               className={`
-                text-gray-500
-                dark:text-gray-400
+                mb-4 rounded-lg bg-red-50 p-3 text-sm text-red-700
+                dark:bg-red-950 dark:text-red-300
               `}
             >
-              No unclaimed players found.
+              An admin turned down your claim on {claimedName}. Pick again or ask an admin.
             </p>
+          )}
+
+          {claim?.status === 'pending' ? (
+            <div
+              className={`
+                flex items-center justify-between gap-3 rounded-lg bg-white p-3 shadow
+                dark:bg-gray-800
+              `}
+            >
+              <span>
+                Waiting for an admin to confirm you are <span className="font-medium">{claimedName}</span>.
+              </span>
+              <button
+                type="button"
+                onClick={handleWithdraw}
+                className={`
+                  rounded bg-gray-500 px-3 py-1 text-sm text-white
+                  hover:bg-gray-600
+                `}
+              >
+                Withdraw
+              </button>
+            </div>
           ) : (
-            <ul className="flex flex-col gap-2">
-              {filteredUnclaimedPlayers.map((p) => (
-                <li
-                  key={p.id}
+            <>
+              <input
+                type="text"
+                placeholder="Search players..."
+                value={claimSearch}
+                onChange={(e) => setClaimSearch(e.target.value)}
+                className={`
+                  mb-4 w-full rounded border border-gray-300 bg-transparent px-3 py-2
+                  dark:border-gray-600
+                `}
+              />
+
+              {filteredClaimablePlayers.length === 0 ? (
+                <p
                   className={`
-                    flex items-center justify-between rounded-lg bg-white p-3 shadow
-                    dark:bg-gray-800
+                    text-gray-500
+                    dark:text-gray-400
                   `}
                 >
-                  <div className="flex items-center gap-3">
-                    <img
-                      src={p.avatar || DEFAULT_AVATAR}
-                      alt={p.name}
-                      className="h-10 w-10 rounded-full object-cover"
-                    />
-                    <div>
-                      <div className="font-medium">{p.name}</div>
-                      <div
+                  No players found.
+                </p>
+              ) : (
+                <ul className="flex flex-col gap-2">
+                  {filteredClaimablePlayers.map((p) => (
+                    <li
+                      key={p.id}
+                      className={`
+                        flex items-center justify-between rounded-lg bg-white p-3 shadow
+                        dark:bg-gray-800
+                      `}
+                    >
+                      <div className="flex items-center gap-3">
+                        <img
+                          src={p.avatar || DEFAULT_AVATAR}
+                          alt={p.name}
+                          className="h-10 w-10 rounded-full object-cover"
+                        />
+                        <div>
+                          <div className="font-medium">{p.name}</div>
+                          <div
+                            className={`
+                              text-sm text-gray-500
+                              dark:text-gray-400
+                            `}
+                          >
+                            Elo {p.elo} &middot; {p.win}W / {p.total}G
+                          </div>
+                        </div>
+                      </div>
+                      <button
+                        type="button"
+                        disabled={claiming}
+                        onClick={() => handleClaim(p.id)}
                         className={`
-                          text-sm text-gray-500
-                          dark:text-gray-400
+                          rounded bg-blue-600 px-3 py-1 text-sm text-white
+                          hover:bg-blue-700
+                          disabled:opacity-50
                         `}
                       >
-                        Elo {p.elo} &middot; {p.win}W / {p.total}G
-                      </div>
-                    </div>
-                  </div>
-                  <button
-                    type="button"
-                    disabled={claiming}
-                    onClick={() => handleClaim(p.id)}
-                    className={`
-                      rounded bg-blue-600 px-3 py-1 text-sm text-white
-                      hover:bg-blue-700
-                      disabled:opacity-50
-                    `}
-                  >
-                    {claiming ? 'Claiming...' : 'Claim'}
-                  </button>
-                </li>
-              ))}
-            </ul>
+                        {claiming ? 'Sending...' : 'Claim'}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
           )}
 
           <button
@@ -606,7 +771,141 @@ export default function UserPage() {
             >
               Ingame
             </div>
-            <div className="text-lg">{player?.ingame || '-'}</div>
+            <div className="min-w-0 flex-1">
+              <input
+                type="text"
+                value={ingame}
+                placeholder="Name#TAG"
+                onChange={(e) => setIngame(e.target.value)}
+                aria-invalid={ingameInvalid}
+                className={`
+                  w-full rounded border border-gray-300 bg-transparent px-2 py-1 text-lg
+                  dark:border-gray-600
+                `}
+              />
+              {ingameInvalid && (
+                <p className="mt-1 text-sm text-red-500">
+                  Use your Riot ID as shown in game: a 3–16 character name, # and a 3–5 letter or digit tag.
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-baseline gap-8">
+            <div
+              className={`
+                w-16 shrink-0 text-base text-gray-500
+                md:w-32
+                dark:text-gray-400
+              `}
+            >
+              Roles
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {ROLES.map((role) => {
+                const comfort = roleComfort(role);
+                return (
+                  <button
+                    key={role}
+                    type="button"
+                    onClick={() => cycleRole(role)}
+                    title={comfort ? `${role}: ${comfort}` : role}
+                    className={`
+                      rounded-full border px-3 py-1 text-sm
+                      ${
+                        comfort === 'preferred'
+                          ? 'border-indigo-600 bg-indigo-600 text-white'
+                          : comfort === 'secondary'
+                            ? `
+                              border-indigo-400 text-indigo-700
+                              dark:text-indigo-300
+                            `
+                            : `
+                              border-gray-300 text-gray-500
+                              dark:border-gray-600 dark:text-gray-400
+                            `
+                      }
+                    `}
+                  >
+                    {role}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-8">
+            <div
+              className={`
+                w-16 shrink-0 text-base text-gray-500
+                md:w-32
+                dark:text-gray-400
+              `}
+            >
+              Rank
+            </div>
+            <Select
+              className="w-40"
+              value={rank}
+              options={[{ value: '', label: 'Unranked' }, ...RANKS.map((r) => ({ value: r, label: r }))]}
+              onChange={setRank}
+              aria-label="Solo-queue rank"
+            />
+          </div>
+
+          <div className="flex items-baseline gap-8">
+            <div
+              className={`
+                w-16 shrink-0 text-base text-gray-500
+                md:w-32
+                dark:text-gray-400
+              `}
+            >
+              Champions
+            </div>
+            <input
+              type="text"
+              value={favorites}
+              placeholder={`Up to ${MAX_FAVORITE_CHAMPIONS}, separated by commas`}
+              onChange={(e) => setFavorites(e.target.value)}
+              className={`
+                min-w-0 flex-1 rounded border border-gray-300 bg-transparent px-2 py-1 text-lg
+                dark:border-gray-600
+              `}
+            />
+          </div>
+
+          <div className="flex items-baseline gap-8">
+            <div
+              className={`
+                w-16 shrink-0 text-base text-gray-500
+                md:w-32
+                dark:text-gray-400
+              `}
+            >
+              Bio
+            </div>
+            <div className="min-w-0 flex-1">
+              <textarea
+                value={bio}
+                maxLength={BIO_MAX_LENGTH}
+                rows={4}
+                placeholder="A few words about you. Markdown works."
+                onChange={(e) => setBio(e.target.value)}
+                className={`
+                  w-full rounded border border-gray-300 bg-transparent px-2 py-1
+                  dark:border-gray-600
+                `}
+              />
+              <div
+                className={`
+                  text-right text-xs text-gray-400
+                  dark:text-gray-500
+                `}
+              >
+                {bio.length}/{BIO_MAX_LENGTH}
+              </div>
+            </div>
           </div>
 
           <div className="flex items-baseline gap-8">
@@ -619,7 +918,7 @@ export default function UserPage() {
             >
               Email
             </div>
-            <div className="min-w-0 truncate text-lg">{player?.email}</div>
+            <div className="min-w-0 truncate text-lg">{user.email}</div>
           </div>
 
           <button
@@ -3,9 +3,11 @@ import { useParams } from 'react-router-dom';
 import BackButton from '@/components/BackButton.tsx';
 import dayjs from 'dayjs';
 import supabase from '@/lib/supabase.ts';
-import type { Player, Match, Season } from '@/types/common.ts';
+import type { Player, Match, Season, EloAdjustment } from '@/types/common.ts';
 import Avatar from '@/components/Avatar.tsx';
 import { useDisplayName } from '@/contexts/DisplayNameContext.tsx';
+import { getChampionStats } from '@/utils/champions.ts';
+import { buildEloHistory } from '@/utils/eloHistory.ts';
 
 function weekRange(first: string, last: string): string {
   const d1 = dayjs(first);
@@ -30,6 +32,7 @@ export default function WrappedPage() {
   const [player, setPlayer] = useState<Player | null>(null);
   const [season, setSeason] = useState<Season | null>(null);
   const [seasonMatches, setSeasonMatches] = useState<Match[]>([]);
+  const [seasonAdjustments, setSeasonAdjustments] = useState<EloAdjustment[]>([]);
   const [allPlayers, setAllPlayers] = useState<Pick<Player, 'id' | 'name' | 'avatar' | 'ingame'>[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -67,13 +70,24 @@ export default function WrappedPage() {
     setLoading(false);
   }, [season, playerId]);
 
+  const fetchAdjustments = useCallback(async () => {
+    if (!season?.start || !season?.end) return;
+    const { data } = await supabase
+      .from('elo_adjustment')
+      .select()
+      .eq('player_id', playerId)
+      .gte('created_at', season.start)
+      .lte('created_at', season.end);
+    if (data) setSeasonAdjustments(data as EloAdjustment[]);
+  }, [season, playerId]);
+
   useEffect(() => {
     Promise.all([fetchPlayer(), fetchLastSeason(), fetchAllPlayers()]);
   }, [fetchPlayer, fetchLastSeason, fetchAllPlayers]);
 
   useEffect(() => {
-    if (season) fetchMatches();
-  }, [season, fetchMatches]);
+    if (season) Promise.all([fetchMatches(), fetchAdjustments()]);
+  }, [season, fetchMatches, fetchAdjustments]);
 
   const playerMap = useMemo(() => new Map(allPlayers.map((p) => [p.id, p])), [allPlayers]);
 
@@ -91,30 +105,21 @@ export default function WrappedPage() {
   const eloJourney = useMemo(() => {
     if (completed.length === 0) return null;
 
-    const journey = completed.reduce(
-      (acc, m) => {
-        const onA = m.team_a_players.includes(playerId);
-        const idx = onA ? m.team_a_players.indexOf(playerId) : m.team_b_players.indexOf(playerId);
-        const preElo = onA ? m.team_a_elos[idx] : m.team_b_elos[idx];
-        const postElo = onA ? (m.team_a_new_elos?.[idx] ?? preElo) : (m.team_b_new_elos?.[idx] ?? preElo);
-        const start = acc.startElo ?? preElo;
-        const isPeak = postElo > acc.peakElo;
-        return {
-          startElo: start,
-          peakElo: isPeak ? postElo : acc.peakElo,
-          peakDate: isPeak ? m.created_at : acc.peakDate,
-        };
-      },
-      { startElo: null as number | null, peakElo: 0, peakDate: '' },
+    // Matches and adjustments (decay) in order, so the peak and the final Elo match the ledger
+    const history = buildEloHistory(playerId, completed, seasonAdjustments);
+    const first = history[0];
+    const journey = history.reduce(
+      (acc, point) => (point.elo > acc.peakElo ? { peakElo: point.elo, peakDate: point.at } : acc),
+      { peakElo: 0, peakDate: '' },
     );
 
     const seasonPlayers = season?.players as Partial<Player>[] | null;
     const snapshot = seasonPlayers?.find((p) => p.id === playerId);
-    const endElo = snapshot?.elo ?? journey.peakElo;
-    const startElo = journey.startElo ?? endElo;
+    const endElo = snapshot?.elo ?? history.at(-1)?.elo ?? journey.peakElo;
+    const startElo = first ? first.elo - first.change : endElo;
 
     return { startElo, endElo, peakElo: journey.peakElo, peakDate: journey.peakDate };
-  }, [completed, playerId, season]);
+  }, [completed, playerId, season, seasonAdjustments]);
 
   const rankInfo = useMemo(() => {
     const seasonPlayers = season?.players as Partial<Player>[] | null;
@@ -167,6 +172,12 @@ export default function WrappedPage() {
             hidden: false,
             isAdmin: false,
             is_decaying: false,
+            preferred_roles: [],
+            secondary_roles: [],
+            ingame_tag: null,
+            rank: null,
+            favorite_champions: [],
+            bio: null,
           };
           const w = wins[pid] ?? 0;
           return [{ player: p, wins: w, total, rate: w / total }];
@@ -262,6 +273,8 @@ export default function WrappedPage() {
     return { wins: result.maxWin, losses: result.maxLoss };
   }, [completed, playerId]);
 
+  const topChampion = useMemo(() => getChampionStats(completed, playerId)[0] ?? null, [completed, playerId]);
+
   const shell = (children: React.ReactNode) => (
     <div
       className={`
@@ -414,6 +427,25 @@ export default function WrappedPage() {
     );
   }
 
+  if (topChampion) {
+    secondaryItems.push(
+      <div key="champion" className={card}>
+        <div
+          className={`
+            text-sm text-gray-500
+            dark:text-gray-400
+          `}
+        >
+          Most Played
+        </div>
+        <div className="truncate text-2xl font-bold">{topChampion.champion}</div>
+        <div className="text-xs text-gray-400">
+          {topChampion.games} games · {Math.round(topChampion.winRate * 100)}% wins
+        </div>
+      </div>,
+    );
+  }
+
   const secondaryCols =
     secondaryItems.length <= 2
       ? `grid-cols-${secondaryItems.length}`
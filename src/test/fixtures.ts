@@ -0,0 +1,60 @@
+import type { Match, Player } from '@/types/common.ts';
+
+// Builders for the rows the utils work on. Every field has a neutral default so a test only
+// spells out what it is about.
+
+export function makePlayer(overrides: Partial<Player> & Pick<Player, 'id'>): Player {
+  return {
+    avatar: null,
+    bio: null,
+    created_at: '2026-01-01T00:00:00.000Z',
+    elo: 1500,
+    email: null,
+    favorite_champions: [],
+    hidden: false,
+    ingame: null,
+    ingame_tag: null,
+    is_decaying: false,
+    isAdmin: false,
+    name: `Player ${overrides.id}`,
+    preferred_roles: [],
+    rank: null,
+    secondary_roles: [],
+    total: 0,
+    win: 0,
+    ...overrides,
+  };
+}
+
+export function makeMatch(overrides: Partial<Match> & Pick<Match, 'id' | 'team_a_players' | 'team_b_players'>): Match {
+  return {
+    created_at: '2026-01-01T20:00:00.000Z',
+    result: null,
+    team_a_champions: null,
+    team_a_elos: overrides.team_a_players.map(() => 1500),
+    team_a_new_elos: null,
+    team_a_roles: null,
+    team_b_champions: null,
+    team_b_elos: overrides.team_b_players.map(() => 1500),
+    team_b_new_elos: null,
+    team_b_roles: null,
+    ...overrides,
+  };
+}
+
+/** A completed match at `created_at`, with the given winner and any stored Elos left at 1500. */
+export function playedMatch(
+  id: number,
+  createdAt: string | Date,
+  teamA: number[],
+  teamB: number[],
+  result: 'A' | 'B',
+): Match {
+  return makeMatch({
+    id,
+    created_at: typeof createdAt === 'string' ? createdAt : createdAt.toISOString(),
+    team_a_players: teamA,
+    team_b_players: teamB,
+    result,
+  });
+}
@@ -1,6 +1,12 @@
 import type { Database } from '@/types/database.ts';
 
 export type Player = Database['public']['Tables']['player']['Row'];
+export type EloAdjustment = Database['public']['Tables']['elo_adjustment']['Row'];
+export type LobbyEntry = Database['public']['Tables']['lobby']['Row'];
 export type Match = Database['public']['Tables']['match']['Row'];
+export type MatchEdit = Database['public']['Tables']['match_edit']['Row'];
 export type Pairing = Database['public']['Tables']['pairing']['Row'];
+export type PlayerClaim = Database['public']['Tables']['player_claim']['Row'];
+export type PlayerLogin = Database['public']['Tables']['player_login']['Row'];
 export type Season = Database['public']['Tables']['season']['Row'];
+export type Setting = Database['public']['Tables']['setting']['Row'];
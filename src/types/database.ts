@@ -8,6 +8,70 @@ export interface Database {
   };
   public: {
     Tables: {
+      elo_adjustment: {
+        Row: {
+          amount: number;
+          author_id: number | null;
+          created_at: string;
+          elo_after: number;
+          id: number;
+          kind: string;
+          period: string | null;
+          player_id: number;
+          reason: string | null;
+          reverted_at: string | null;
+          reverted_by: number | null;
+        };
+        Insert: {
+          amount: number;
+          author_id?: number | null;
+          created_at?: string;
+          elo_after: number;
+          id?: number;
+          kind?: string;
+          period?: string | null;
+          player_id: number;
+          reason?: string | null;
+          reverted_at?: string | null;
+          reverted_by?: number | null;
+        };
+        Update: {
+          amount?: number;
+          author_id?: number | null;
+          created_at?: string;
+          elo_after?: number;
+          id?: number;
+          kind?: string;
+          period?: string | null;
+          player_id?: number;
+          reason?: string | null;
+          reverted_at?: string | null;
+          reverted_by?: number | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'elo_adjustment_author_id_fkey';
+            columns: ['author_id'];
+            isOneToOne: false;
+            referencedRelation: 'player';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'elo_adjustment_player_id_fkey';
+            columns: ['player_id'];
+            isOneToOne: false;
+            referencedRelation: 'player';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'elo_adjustment_reverted_by_fkey';
+            columns: ['reverted_by'];
+            isOneToOne: false;
+            referencedRelation: 'player';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       feedback: {
         Row: {
           created_at: string;
@@ -72,60 +136,143 @@ export interface Database {
           },
         ];
       };
+      lobby: {
+        Row: {
+          checked_in_at: string;
+          player_id: number;
+        };
+        Insert: {
+          checked_in_at?: string;
+          player_id: number;
+        };
+        Update: {
+          checked_in_at?: string;
+          player_id?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'lobby_player_id_fkey';
+            columns: ['player_id'];
+            isOneToOne: true;
+            referencedRelation: 'player';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       match: {
         Row: {
           created_at: string;
           id: number;
           result: string | null;
+          team_a_champions: string[] | null;
           team_a_elos: number[];
           team_a_new_elos: number[] | null;
           team_a_players: number[];
+          team_a_roles: string[] | null;
+          team_b_champions: string[] | null;
           team_b_elos: number[];
           team_b_new_elos: number[] | null;
           team_b_players: number[];
+          team_b_roles: string[] | null;
         };
         Insert: {
           created_at?: string;
           id?: number;
           result?: string | null;
+          team_a_champions?: string[] | null;
           team_a_elos: number[];
           team_a_new_elos?: number[] | null;
           team_a_players: number[];
+          team_a_roles?: string[] | null;
+          team_b_champions?: string[] | null;
           team_b_elos: number[];
           team_b_new_elos?: number[] | null;
           team_b_players: number[];
+          team_b_roles?: string[] | null;
         };
         Update: {
           created_at?: string;
           id?: number;
           result?: string | null;
+          team_a_champions?: string[] | null;
           team_a_elos?: number[];
           team_a_new_elos?: number[] | null;
           team_a_players?: number[];
+          team_a_roles?: string[] | null;
+          team_b_champions?: string[] | null;
           team_b_elos?: number[];
           team_b_new_elos?: number[] | null;
           team_b_players?: number[];
+          team_b_roles?: string[] | null;
         };
         Relationships: [];
       };
+      match_edit: {
+        Row: {
+          after: Json;
+          before: Json;
+          created_at: string;
+          id: number;
+          match_id: number;
+          player_id: number | null;
+          user_id: string | null;
+        };
+        Insert: {
+          after: Json;
+          before: Json;
+          created_at?: string;
+          id?: number;
+          match_id: number;
+          player_id?: number | null;
+          user_id?: string | null;
+        };
+        Update: {
+          after?: Json;
+          before?: Json;
+          created_at?: string;
+          id?: number;
+          match_id?: number;
+          player_id?: number | null;
+          user_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'match_edit_match_id_fkey';
+            columns: ['match_id'];
+            isOneToOne: false;
+            referencedRelation: 'match';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'match_edit_player_id_fkey';
+            columns: ['player_id'];
+            isOneToOne: false;
+            referencedRelation: 'player';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       pairing: {
         Row: {
           created_at: string;
           id: number;
           player1: number | null;
           player2: number | null;
+          type: string;
         };
         Insert: {
           created_at?: string;
           id?: number;
           player1?: number | null;
           player2?: number | null;
+          type?: string;
         };
         Update: {
           created_at?: string;
           id?: number;
           player1?: number | null;
           player2?: number | null;
+          type?: string;
         };
         Relationships: [
           {
@@ -147,48 +294,143 @@ export interface Database {
       player: {
         Row: {
           avatar: string | null;
+          bio: string | null;
           created_at: string;
           elo: number;
           email: string | null;
+          favorite_champions: string[];
           hidden: boolean;
           id: number;
           ingame: string | null;
+          ingame_tag: string | null;
           is_decaying: boolean;
           isAdmin: boolean;
           name: string;
+          preferred_roles: string[];
+          rank: string | null;
+          secondary_roles: string[];
           total: number;
           win: number;
         };
         Insert: {
           avatar?: string | null;
+          bio?: string | null;
           created_at?: string;
           elo?: number;
           email?: string | null;
+          favorite_champions?: string[];
           hidden?: boolean;
           id?: number;
           ingame?: string | null;
+          ingame_tag?: string | null;
           is_decaying?: boolean;
           isAdmin?: boolean;
           name?: string;
+          preferred_roles?: string[];
+          rank?: string | null;
+          secondary_roles?: string[];
           total?: number;
           win?: number;
         };
         Update: {
           avatar?: string | null;
+          bio?: string | null;
           created_at?: string;
           elo?: number;
           email?: string | null;
+          favorite_champions?: string[];
           hidden?: boolean;
           id?: number;
           ingame?: string | null;
+          ingame_tag?: string | null;
           is_decaying?: boolean;
           isAdmin?: boolean;
           name?: string;
+          preferred_roles?: string[];
+          rank?: string | null;
+          secondary_roles?: string[];
           total?: number;
           win?: number;
         };
         Relationships: [];
       };
+      player_claim: {
+        Row: {
+          created_at: string;
+          decided_at: string | null;
+          decided_by: number | null;
+          email: string | null;
+          id: number;
+          player_id: number;
+          status: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          decided_at?: string | null;
+          decided_by?: number | null;
+          email?: string | null;
+          id?: number;
+          player_id: number;
+          status?: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          decided_at?: string | null;
+          decided_by?: number | null;
+          email?: string | null;
+          id?: number;
+          player_id?: number;
+          status?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'player_claim_decided_by_fkey';
+            columns: ['decided_by'];
+            isOneToOne: false;
+            referencedRelation: 'player';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'player_claim_player_id_fkey';
+            columns: ['player_id'];
+            isOneToOne: false;
+            referencedRelation: 'player';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      player_login: {
+        Row: {
+          created_at: string;
+          email: string | null;
+          player_id: number;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          email?: string | null;
+          player_id: number;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          email?: string | null;
+          player_id?: number;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'player_login_player_id_fkey';
+            columns: ['player_id'];
+            isOneToOne: false;
+            referencedRelation: 'player';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       season: {
         Row: {
           created_at: string;
@@ -216,6 +458,24 @@ export interface Database {
         };
         Relationships: [];
       };
+      setting: {
+        Row: {
+          key: string;
+          updated_at: string;
+          value: Json;
+        };
+        Insert: {
+          key: string;
+          updated_at?: string;
+          value: Json;
+        };
+        Update: {
+          key?: string;
+          updated_at?: string;
+          value?: Json;
+        };
+        Relationships: [];
+      };
     };
     Views: Record<never, never>;
     Functions: Record<never, never>;
@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { playedMatch } from '@/test/fixtures.ts';
+import { backtest } from '@/utils/backtest.ts';
+import { getExpected } from '@/utils/elo.ts';
+
+const close = (actual: number, expected: number) =>
+  assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} is not close to ${expected}`);
+
+describe('backtest', () => {
+  // Player 1 beats 2 twice, then loses
+  const matches = [
+    playedMatch(1, '2026-03-02T20:00:00.000Z', [1], [2], 'A'),
+    playedMatch(2, '2026-03-03T20:00:00.000Z', [1], [2], 'A'),
+    playedMatch(3, '2026-03-04T20:00:00.000Z', [1], [2], 'B'),
+  ];
+  // Pre-match probabilities that team A wins: even, then 1513 vs 1488, then 1525 vs 1476
+  const p = [0.5, getExpected(1513, 1488), getExpected(1525, 1476)];
+
+  it('scores log-loss and accuracy of the pre-match probabilities', () => {
+    const report = backtest(matches, { name: 'Elo', system: 'elo' });
+
+    assert.equal(report.matches, 3);
+    close(report.logLoss, -(Math.log(p[0]) + Math.log(p[1]) + Math.log(1 - p[2])) / 3);
+    close(report.brier, ((1 - p[0]) ** 2 + (1 - p[1]) ** 2 + p[2] ** 2) / 3);
+    close(report.accuracy, 2 / 3);
+  });
+
+  it('rates warmup matches without scoring them', () => {
+    const report = backtest(matches, { name: 'Elo', system: 'elo', warmup: 2 });
+
+    assert.equal(report.matches, 1);
+    close(report.logLoss, -Math.log(1 - p[2]));
+    close(report.accuracy, 0);
+  });
+
+  it('ignores the order matches are given in and skips unfinished ones', () => {
+    const shuffled = [matches[2], { ...matches[0], id: 4, result: 'Reverted' }, matches[0], matches[1]];
+
+    assert.deepEqual(
+      backtest(shuffled, { name: 'Elo', system: 'elo' }),
+      backtest(matches, { name: 'Elo', system: 'elo' }),
+    );
+  });
+
+  it('only lets streaks going into a match move its prediction', () => {
+    const winning = [1, 2, 3, 4].map((id) => playedMatch(id, `2026-03-0${id}T20:00:00.000Z`, [1], [2], 'A'));
+    const raw = { name: 'Elo', system: 'elo', warmup: 3 } as const;
+    const withStreaks = { ...raw, streakEloPerGame: 50 };
+
+    // Three wins make a streak for the fourth match only
+    assert.deepEqual(backtest(winning.slice(0, 3), withStreaks), backtest(winning.slice(0, 3), raw));
+    assert.ok(backtest(winning, withStreaks).logLoss < backtest(winning, raw).logLoss);
+  });
+
+  it('leans on solo-queue ranks from the dump while players are new', () => {
+    const config = { name: 'Elo', system: 'elo', rankPriorGames: 10 } as const;
+    const ranked = backtest(matches.slice(0, 1), config, [{ id: 1, rank: 'Diamond I' }]);
+
+    assert.ok(ranked.logLoss < backtest(matches.slice(0, 1), config).logLoss);
+  });
+});
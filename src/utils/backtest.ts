@@ -0,0 +1,141 @@
+import type { Match, Player } from '@/types/common.ts';
+import { recordStreak, streaksFromRuns, type StreakRuns } from '@/utils/streaks.ts';
+import { sortChronologically } from '@/utils/eloReplay.ts';
+import { getEffectiveElos } from '@/utils/suggestTeams.ts';
+import { RATING_SYSTEMS, createElo, type RatingState, type RatingSystemId } from '@/utils/ratingSystems.ts';
+
+// Probabilities are clamped before taking logs so a single confident miss can't make log-loss infinite
+const PROBABILITY_EPSILON = 1e-6;
+const CALIBRATION_BUCKETS = 10;
+
+export interface BacktestConfig {
+  name: string;
+  system: RatingSystemId;
+  /** Elo only: K-factor for the same bands as getKFactor (<10, 10–30, >30 games). */
+  kFactors?: { new: number; developing: number; established: number };
+  /** Balancer handicap applied to the pre-match ratings; 0 predicts from raw ratings. */
+  handicapRatio?: number;
+  /** Balancer streak adjustment applied to the pre-match ratings; 0 ignores streaks. */
+  streakEloPerGame?: number;
+  /** Balancer rank prior: games before a player's solo-queue rank stops counting; 0 ignores ranks. */
+  rankPriorGames?: number;
+  /** Leading matches that are rated but left out of the metrics while ratings settle. */
+  warmup?: number;
+}
+
+export interface CalibrationBucket {
+  from: number;
+  to: number;
+  count: number;
+  /** Mean predicted probability that team A wins. */
+  predicted: number;
+  /** Share of these matches team A actually won. */
+  observed: number;
+}
+
+export interface BacktestReport {
+  name: string;
+  matches: number;
+  logLoss: number;
+  brier: number;
+  /** Share of matches where the favourite won. */
+  accuracy: number;
+  calibration: CalibrationBucket[];
+}
+
+function systemFor(config: BacktestConfig) {
+  const { kFactors } = config;
+  if (config.system !== 'elo' || !kFactors) return RATING_SYSTEMS[config.system];
+  return createElo((totalGames) => {
+    if (totalGames < 10) return kFactors.new;
+    if (totalGames <= 30) return kFactors.developing;
+    return kFactors.established;
+  });
+}
+
+/**
+ * Replays completed matches oldest first and scores the pre-match probability that
+ * team A wins against what actually happened.
+ *
+ * @param matches Match log in any order; in-progress, Cancelled and Reverted rows are skipped
+ * @param config  Rating system and parameters to evaluate
+ * @param players Player rows from the same dump; their solo-queue ranks feed the rank prior
+ */
+export function backtest(
+  matches: Match[],
+  config: BacktestConfig,
+  players: Pick<Player, 'id' | 'rank'>[] = [],
+): BacktestReport {
+  const system = systemFor(config);
+  const { handicapRatio = 0, streakEloPerGame = 0, rankPriorGames = 0, warmup = 0 } = config;
+  const adjusted = handicapRatio !== 0 || streakEloPerGame !== 0 || rankPriorGames !== 0;
+  const rankById = new Map(players.map((p) => [p.id, p.rank]));
+
+  const completed = sortChronologically(matches.filter((m) => m.result === 'A' || m.result === 'B'));
+  const states = new Map<number, RatingState>();
+  const stateOf = (id: number) => states.get(id) ?? system.initial();
+
+  const predictions: { p: number; y: number }[] = [];
+  // Kept up to date as matches are rated, so each one sees the streaks going into it
+  const runs: StreakRuns = new Map();
+
+  completed.forEach((m, i) => {
+    const teamA = m.team_a_players.map(stateOf);
+    const teamB = m.team_b_players.map(stateOf);
+
+    let p: number;
+    if (adjusted) {
+      const ids = [...m.team_a_players, ...m.team_b_players];
+      const streaks = streakEloPerGame !== 0 ? streaksFromRuns(runs) : {};
+      const effective = getEffectiveElos(
+        [...teamA, ...teamB].map((s, j) => ({
+          id: ids[j],
+          elo: s.rating,
+          rank: rankById.get(ids[j]),
+          total: s.games,
+        })),
+        streaks,
+        { handicapRatio, streakEloPerGame, rankPriorGames },
+      );
+      const withEffective = (s: RatingState, j: number) => ({ ...s, rating: effective[j] });
+      p = system.winProbability(
+        teamA.map((s, j) => withEffective(s, j)),
+        teamB.map((s, j) => withEffective(s, teamA.length + j)),
+      );
+    } else {
+      p = system.winProbability(teamA, teamB);
+    }
+
+    if (i >= warmup) predictions.push({ p, y: m.result === 'A' ? 1 : 0 });
+
+    const [nextA, nextB] = system.rate(teamA, teamB, m.result as 'A' | 'B');
+    m.team_a_players.forEach((id, j) => states.set(id, nextA[j]));
+    m.team_b_players.forEach((id, j) => states.set(id, nextB[j]));
+    recordStreak(runs, m);
+  });
+
+  const n = predictions.length || 1;
+  const logLoss =
+    -predictions.reduce((sum, { p, y }) => {
+      const clamped = Math.min(Math.max(p, PROBABILITY_EPSILON), 1 - PROBABILITY_EPSILON);
+      return sum + y * Math.log(clamped) + (1 - y) * Math.log(1 - clamped);
+    }, 0) / n;
+  const brier = predictions.reduce((sum, { p, y }) => sum + (p - y) ** 2, 0) / n;
+  const accuracy = predictions.filter(({ p, y }) => (p >= 0.5 ? 1 : 0) === y).length / n;
+
+  const calibration = Array.from({ length: CALIBRATION_BUCKETS }, (_, b) => {
+    const from = b / CALIBRATION_BUCKETS;
+    const to = (b + 1) / CALIBRATION_BUCKETS;
+    const inBucket = predictions.filter(({ p }) => p >= from && (p < to || (b === CALIBRATION_BUCKETS - 1 && p <= to)));
+    const count = inBucket.length;
+    return {
+      from,
+      to,
+      count,
+      predicted: count ? inBucket.reduce((sum, { p }) => sum + p, 0) / count : 0,
+      observed: count ? inBucket.reduce((sum, { y }) => sum + y, 0) / count : 0,
+    };
+  });
+
+  return { name: config.name, matches: predictions.length, logLoss, brier, accuracy, calibration };
+}
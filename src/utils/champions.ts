@@ -0,0 +1,93 @@
+import { orderBy } from 'es-toolkit';
+import type { Match } from '@/types/common.ts';
+import { isRole, type Role } from '@/utils/roles.ts';
+
+export type MatchPicks = Pick<Match, 'team_a_champions' | 'team_a_roles' | 'team_b_champions' | 'team_b_roles'>;
+
+export interface PlayerPick {
+  champion: string | null;
+  role: Role | null;
+}
+
+export interface ChampionStat {
+  champion: string;
+  games: number;
+  wins: number;
+  winRate: number;
+  /** Net Elo change over these games. */
+  eloDelta: number;
+}
+
+// Champions are typed by hand, so "yasuo " and "Yasuo" should count as the same pick
+export function normalizeChampion(name: string): string | null {
+  const trimmed = name.trim().replace(/\s+/g, ' ');
+  if (!trimmed) return null;
+  return trimmed
+    .split(' ')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/** The champion and lane a player recorded for a match, if any. */
+export function getPlayerPick(match: Match, playerId: number): PlayerPick | null {
+  const onA = match.team_a_players.includes(playerId);
+  const idx = onA ? match.team_a_players.indexOf(playerId) : match.team_b_players.indexOf(playerId);
+  if (idx === -1) return null;
+
+  const champion = (onA ? match.team_a_champions : match.team_b_champions)?.[idx] || null;
+  const role = (onA ? match.team_a_roles : match.team_b_roles)?.[idx] ?? '';
+  if (!champion && !isRole(role)) return null;
+  return { champion, role: isRole(role) ? role : null };
+}
+
+/**
+ * Re-aligns recorded picks after the players of a match change, so each pick stays with
+ * the player who made it. Players who are new to the match start without a pick.
+ */
+export function realignPicks(match: Match, teamAPlayers: number[], teamBPlayers: number[]): MatchPicks {
+  const pickFor = (id: number) => getPlayerPick(match, id);
+  const champions = (ids: number[]) => ids.map((id) => pickFor(id)?.champion ?? '');
+  const roles = (ids: number[]) => ids.map((id) => pickFor(id)?.role ?? '');
+  const hasPicks = !!(match.team_a_champions || match.team_a_roles || match.team_b_champions || match.team_b_roles);
+
+  return hasPicks
+    ? {
+        team_a_champions: champions(teamAPlayers),
+        team_a_roles: roles(teamAPlayers),
+        team_b_champions: champions(teamBPlayers),
+        team_b_roles: roles(teamBPlayers),
+      }
+    : { team_a_champions: null, team_a_roles: null, team_b_champions: null, team_b_roles: null };
+}
+
+/**
+ * Per-champion record for one player over completed matches, most played first.
+ *
+ * @param matches  Matches in any order; only completed ones with a recorded champion count
+ * @param playerId Player to summarise
+ */
+export function getChampionStats(matches: Match[], playerId: number): ChampionStat[] {
+  const stats = new Map<string, ChampionStat>();
+
+  matches
+    .filter((m) => m.result === 'A' || m.result === 'B')
+    .forEach((m) => {
+      const champion = getPlayerPick(m, playerId)?.champion;
+      if (!champion) return;
+
+      const onA = m.team_a_players.includes(playerId);
+      const idx = onA ? m.team_a_players.indexOf(playerId) : m.team_b_players.indexOf(playerId);
+      const preElo = onA ? m.team_a_elos[idx] : m.team_b_elos[idx];
+      const postElo = onA ? (m.team_a_new_elos?.[idx] ?? preElo) : (m.team_b_new_elos?.[idx] ?? preElo);
+      const won = (onA && m.result === 'A') || (!onA && m.result === 'B');
+
+      const stat = stats.get(champion) ?? { champion, games: 0, wins: 0, winRate: 0, eloDelta: 0 };
+      stat.games += 1;
+      stat.wins += won ? 1 : 0;
+      stat.eloDelta += postElo - preElo;
+      stat.winRate = stat.wins / stat.games;
+      stats.set(champion, stat);
+    });
+
+  return orderBy([...stats.values()], ['games', 'winRate', 'champion'], ['desc', 'desc', 'asc']);
+}
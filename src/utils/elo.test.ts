@@ -0,0 +1,155 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { makeMatch, makePlayer } from '@/test/fixtures.ts';
+import { calculateMatchResult, getExpected, getKFactor, getProjectedSwing, getWinProbability } from '@/utils/elo.ts';
+import { replayMatches } from '@/utils/eloReplay.ts';
+
+describe('getKFactor', () => {
+  it('steps down at 10 and 31 games', () => {
+    assert.equal(getKFactor(0), 25);
+    assert.equal(getKFactor(9), 25);
+    assert.equal(getKFactor(10), 20);
+    assert.equal(getKFactor(30), 20);
+    assert.equal(getKFactor(31), 15);
+  });
+});
+
+describe('getExpected', () => {
+  it('is even for equal ratings and symmetric', () => {
+    assert.equal(getExpected(1500, 1500), 0.5);
+    assert.ok(Math.abs(getExpected(1600, 1200) + getExpected(1200, 1600) - 1) < 1e-12);
+  });
+
+  it('gives 10:1 odds at a 400 point gap', () => {
+    assert.ok(Math.abs(getExpected(1600, 1200) - 10 / 11) < 1e-12);
+  });
+});
+
+describe('getWinProbability', () => {
+  it('compares team means', () => {
+    assert.equal(getWinProbability([1400, 1600], [1500, 1500]), 0.5);
+    assert.ok(Math.abs(getWinProbability([1700, 1700], [1300, 1300]) - 10 / 11) < 1e-12);
+  });
+});
+
+describe('calculateMatchResult', () => {
+  const match = makeMatch({ id: 1, team_a_players: [1], team_b_players: [2] });
+
+  it('rounds an even game half up for both sides', () => {
+    const players = [makePlayer({ id: 1 }), makePlayer({ id: 2 })];
+    const { teamANewElos, teamBNewElos } = calculateMatchResult(match, 'A', players);
+
+    // 1500 ± 25 * 0.5 = 1512.5 / 1487.5
+    assert.deepEqual(teamANewElos, [1513]);
+    assert.deepEqual(teamBNewElos, [1488]);
+  });
+
+  it("uses each player's own K-factor", () => {
+    const players = [makePlayer({ id: 1, total: 40 }), makePlayer({ id: 2, total: 15 })];
+    const { teamANewElos, teamBNewElos } = calculateMatchResult(match, 'B', players);
+
+    assert.deepEqual(teamANewElos, [1493]); // 1500 - 15 * 0.5 = 1492.5
+    assert.deepEqual(teamBNewElos, [1510]);
+  });
+
+  it('measures each player against the opposing mean', () => {
+    const teamMatch = makeMatch({
+      id: 2,
+      team_a_players: [1, 2],
+      team_b_players: [3, 4],
+      team_a_elos: [1300, 1700],
+      team_b_elos: [1500, 1500],
+    });
+    const players = [1, 2, 3, 4].map((id) => makePlayer({ id, total: 40 }));
+    const { teamANewElos } = calculateMatchResult(teamMatch, 'A', players);
+
+    assert.deepEqual(teamANewElos, [
+      Math.round(1300 + 15 * (1 - getExpected(1300, 1500))),
+      Math.round(1700 + 15 * (1 - getExpected(1700, 1500))),
+    ]);
+  });
+
+  it('counts wins and games', () => {
+    const players = [makePlayer({ id: 1, win: 3, total: 5 }), makePlayer({ id: 2, win: 1, total: 5 })];
+    const { updatedAPlayers, updatedBPlayers } = calculateMatchResult(match, 'A', players);
+
+    assert.deepEqual(updatedAPlayers, [{ id: 1, elo: 1513, win: 4, total: 6 }]);
+    assert.deepEqual(updatedBPlayers, [{ id: 2, elo: 1488, win: 1, total: 6 }]);
+  });
+
+  it('treats an unknown player as brand new', () => {
+    const { teamANewElos, updatedAPlayers } = calculateMatchResult(match, 'A', [makePlayer({ id: 2 })]);
+
+    assert.deepEqual(teamANewElos, [1513]);
+    assert.equal(updatedAPlayers[0].total, 1);
+  });
+});
+
+describe('getProjectedSwing', () => {
+  it('matches what calculateMatchResult applies', () => {
+    const player = makePlayer({ id: 1, elo: 1540, total: 12 });
+    const opponent = makePlayer({ id: 2, elo: 1460, total: 12 });
+    const match = makeMatch({
+      id: 1,
+      team_a_players: [1],
+      team_b_players: [2],
+      team_a_elos: [1540],
+      team_b_elos: [1460],
+    });
+    const swing = getProjectedSwing(player, 1460);
+
+    assert.equal(calculateMatchResult(match, 'A', [player, opponent]).teamANewElos[0], 1540 + swing.win);
+    assert.equal(calculateMatchResult(match, 'B', [player, opponent]).teamANewElos[0], 1540 + swing.loss);
+  });
+});
+
+describe('reverting a match', () => {
+  const baseline = [1, 2, 3].map((id) => ({ id, elo: 1500, win: 0, total: 0 }));
+  const first = makeMatch({
+    id: 1,
+    created_at: '2026-03-02T20:00:00.000Z',
+    team_a_players: [1],
+    team_b_players: [2],
+    result: 'A',
+  });
+  const second = makeMatch({
+    id: 2,
+    created_at: '2026-03-02T21:00:00.000Z',
+    team_a_players: [1],
+    team_b_players: [3],
+    result: 'B',
+  });
+
+  it('leaves no trace in a replay of the log', () => {
+    const withRevert = replayMatches([{ ...first, result: 'Reverted' }, second], baseline);
+    const without = replayMatches([second], baseline);
+
+    assert.deepEqual([...withRevert.players.values()], [...without.players.values()]);
+    assert.deepEqual(
+      withRevert.matches.map((m) => m.id),
+      [2],
+    );
+  });
+
+  it('skips cancelled and in-progress matches too', () => {
+    const replay = replayMatches(
+      [
+        { ...first, result: 'Cancelled' },
+        { ...second, result: null },
+      ],
+      baseline,
+    );
+
+    assert.deepEqual([...replay.players.values()], baseline);
+  });
+
+  it('replays later matches from the corrected ratings', () => {
+    const full = replayMatches([first, second], baseline);
+    const player1 = full.players.get(1)!;
+
+    // Player 1 went into the second match at 1513 after winning the first
+    assert.deepEqual(full.matches[1].team_a_elos, [1513]);
+    assert.equal(player1.win, 1);
+    assert.equal(player1.total, 2);
+  });
+});
@@ -9,11 +9,30 @@ export function getKFactor(totalGames: number): number {
   return 15;
 }
 
-function getExpected(playerElo: number, opponentElo: number): number {
+export function getExpected(playerElo: number, opponentElo: number): number {
   return 1 / (1 + 10 ** ((opponentElo - playerElo) / 400));
 }
 
-export function calculateMatchResult(match: Match, result: 'A' | 'B', players: Player[]) {
+// Pre-match probability that team A wins, from the same team-mean expectation calculateMatchResult uses
+export function getWinProbability(teamAElos: number[], teamBElos: number[]): number {
+  return getExpected(mean(teamAElos), mean(teamBElos));
+}
+
+// What a player stands to gain on a win and lose on a loss against the given opposing mean Elo,
+// rounded exactly as calculateMatchResult rounds the new Elo
+export function getProjectedSwing(
+  player: Pick<Player, 'elo' | 'total'>,
+  opponentMeanElo: number,
+): { win: number; loss: number } {
+  const k = getKFactor(player.total);
+  const expected = getExpected(player.elo, opponentMeanElo);
+  return {
+    win: Math.round(player.elo + k * (1 - expected)) - player.elo,
+    loss: Math.round(player.elo + k * (0 - expected)) - player.elo,
+  };
+}
+
+export function calculateMatchResult(match: Match, result: 'A' | 'B', players: Pick<Player, 'id' | 'win' | 'total'>[]) {
   const meanTeamAElo = mean(match.team_a_elos);
   const meanTeamBElo = mean(match.team_b_elos);
 
@@ -77,47 +96,3 @@ export function calculateMatchResult(match: Match, result: 'A' | 'B', players: P
 
   return { teamANewElos, teamBNewElos, updatedAPlayers, updatedBPlayers };
 }
-
-export function calculateRevertedPlayers(match: Match, players: Player[]) {
-  const updatedAPlayers: Partial<Player>[] = zipWith(
-    match.team_a_players,
-    match.team_a_elos,
-    match.team_a_new_elos!,
-    (id: number, elo: number, newElo: number) => {
-      const player = find(players, { id });
-      if (!player) return { id };
-
-      const revertedElo = newElo - elo;
-      const won = match.result === 'A';
-
-      return {
-        id,
-        total: player.total - 1,
-        elo: player.elo - revertedElo,
-        win: won ? player.win - 1 : player.win,
-      };
-    },
-  );
-
-  const updatedBPlayers: Partial<Player>[] = zipWith(
-    match.team_b_players,
-    match.team_b_elos,
-    match.team_b_new_elos!,
-    (id: number, elo: number, newElo: number) => {
-      const player = find(players, { id });
-      if (!player) return { id };
-
-      const revertedElo = newElo - elo;
-      const won = match.result === 'B';
-
-      return {
-        id,
-        total: player.total - 1,
-        elo: player.elo - revertedElo,
-        win: won ? player.win - 1 : player.win,
-      };
-    },
-  );
-
-  return { updatedAPlayers, updatedBPlayers };
-}
@@ -0,0 +1,26 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { isManualAdjustment, signedAmount } from '@/utils/eloAdjustments.ts';
+
+describe('signedAmount', () => {
+  it('always takes Elo for a penalty', () => {
+    assert.equal(signedAmount('penalty', 20), -20);
+    assert.equal(signedAmount('penalty', -20), -20);
+  });
+
+  it('always gives Elo for compensation', () => {
+    assert.equal(signedAmount('compensation', -15), 15);
+  });
+
+  it('keeps the sign of a correction', () => {
+    assert.equal(signedAmount('correction', -7), -7);
+    assert.equal(signedAmount('correction', 7), 7);
+  });
+});
+
+describe('isManualAdjustment', () => {
+  it('tells admin adjustments from decay', () => {
+    assert.equal(isManualAdjustment({ kind: 'penalty' }), true);
+    assert.equal(isManualAdjustment({ kind: 'decay' }), false);
+  });
+});
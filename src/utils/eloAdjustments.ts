@@ -0,0 +1,27 @@
+import type { EloAdjustment } from '@/types/common.ts';
+
+export const MANUAL_ADJUSTMENT_KINDS = ['penalty', 'compensation', 'correction'] as const;
+export type ManualAdjustmentKind = (typeof MANUAL_ADJUSTMENT_KINDS)[number];
+
+export const ADJUSTMENT_LABELS: Record<string, string> = {
+  decay: 'Decay',
+  penalty: 'Penalty',
+  compensation: 'Compensation',
+  correction: 'Correction',
+};
+
+export function isManualAdjustmentKind(value: string): value is ManualAdjustmentKind {
+  return (MANUAL_ADJUSTMENT_KINDS as readonly string[]).includes(value);
+}
+
+/** Admin-made adjustments, as opposed to the ones the decay cron records. */
+export function isManualAdjustment(adjustment: Pick<EloAdjustment, 'kind'>): boolean {
+  return isManualAdjustmentKind(adjustment.kind);
+}
+
+/** Penalties always take Elo and compensation always gives it; corrections keep the sign entered. */
+export function signedAmount(kind: ManualAdjustmentKind, amount: number): number {
+  if (kind === 'penalty') return -Math.abs(amount);
+  if (kind === 'compensation') return Math.abs(amount);
+  return amount;
+}
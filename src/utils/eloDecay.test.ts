@@ -0,0 +1,158 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { makePlayer, playedMatch } from '@/test/fixtures.ts';
+import {
+  DEFAULT_DECAY_POLICY,
+  decayAmount,
+  findDecayPlayers,
+  forecastDecay,
+  nextDecayRun,
+  parseDecayPolicy,
+} from '@/utils/eloDecay.ts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DECAY_AFTER_DAYS = DEFAULT_DECAY_POLICY.graceDays;
+const lastPlayed = new Date('2026-05-04T20:30:00.000Z');
+const after = (ms: number) => new Date(lastPlayed.getTime() + ms);
+
+describe('findDecayPlayers', () => {
+  const player = makePlayer({ id: 1 });
+  const matches = [playedMatch(1, lastPlayed, [1], [2], 'A')];
+
+  it('spares a player one millisecond short of the grace period', () => {
+    assert.deepEqual(findDecayPlayers([player], matches, after(DECAY_AFTER_DAYS * DAY_MS - 1)), []);
+  });
+
+  it('decays a player on the first whole day past the grace period', () => {
+    assert.deepEqual(findDecayPlayers([player], matches, after(DECAY_AFTER_DAYS * DAY_MS)), [
+      { player, daysInactive: DECAY_AFTER_DAYS, deduction: 10 },
+    ]);
+  });
+
+  it('counts whole days only', () => {
+    const [result] = findDecayPlayers([player], matches, after(20 * DAY_MS + 23 * 60 * 60 * 1000));
+
+    assert.equal(result.daysInactive, 20);
+  });
+
+  it('measures from the most recent completed match', () => {
+    const later = playedMatch(2, after(10 * DAY_MS), [2], [1], 'B');
+
+    assert.deepEqual(findDecayPlayers([player], [later, ...matches], after(DECAY_AFTER_DAYS * DAY_MS)), []);
+  });
+
+  it('ignores cancelled, reverted and in-progress matches', () => {
+    const notPlayed = ['Cancelled', 'Reverted', null].map((result, i) => ({
+      ...playedMatch(10 + i, after(10 * DAY_MS), [1], [2], 'A'),
+      result,
+    }));
+    const [result] = findDecayPlayers([player], [...matches, ...notPlayed], after(DECAY_AFTER_DAYS * DAY_MS));
+
+    assert.equal(result.daysInactive, DECAY_AFTER_DAYS);
+  });
+
+  it('never decays a player without a completed match', () => {
+    assert.deepEqual(findDecayPlayers([makePlayer({ id: 3 })], matches, after(365 * DAY_MS)), []);
+  });
+
+  it('follows a custom amount and grace period', () => {
+    const policy = { ...DEFAULT_DECAY_POLICY, amount: 25, graceDays: 7 };
+
+    assert.deepEqual(findDecayPlayers([player], matches, after(7 * DAY_MS), policy), [
+      { player, daysInactive: 7, deduction: 25 },
+    ]);
+  });
+
+  it('spares players at or below the threshold', () => {
+    const policy = { ...DEFAULT_DECAY_POLICY, threshold: 1500 };
+    const at = after(DECAY_AFTER_DAYS * DAY_MS);
+
+    assert.deepEqual(findDecayPlayers([player], matches, at, policy), []);
+    assert.equal(findDecayPlayers([makePlayer({ id: 1, elo: 1501 })], matches, at, policy)[0].deduction, 10);
+  });
+
+  it('spares players below the minimum game count', () => {
+    const policy = { ...DEFAULT_DECAY_POLICY, minGames: 10 };
+    const at = after(DECAY_AFTER_DAYS * DAY_MS);
+
+    assert.deepEqual(findDecayPlayers([makePlayer({ id: 1, total: 9 })], matches, at, policy), []);
+    assert.equal(findDecayPlayers([makePlayer({ id: 1, total: 10 })], matches, at, policy).length, 1);
+  });
+
+  it('stops at the floor', () => {
+    const policy = { ...DEFAULT_DECAY_POLICY, floor: 1495 };
+    const at = after(DECAY_AFTER_DAYS * DAY_MS);
+
+    assert.equal(findDecayPlayers([player], matches, at, policy)[0].deduction, 5);
+    assert.deepEqual(findDecayPlayers([makePlayer({ id: 1, elo: 1495 })], matches, at, policy), []);
+  });
+});
+
+describe('decayAmount', () => {
+  const policy = { ...DEFAULT_DECAY_POLICY, escalation: 5, maxAmount: 30 };
+
+  it('takes nothing within the grace period', () => {
+    assert.equal(decayAmount(13, policy), 0);
+  });
+
+  it('escalates per whole week past the grace period up to the cap', () => {
+    assert.equal(decayAmount(14, policy), 10);
+    assert.equal(decayAmount(20, policy), 10);
+    assert.equal(decayAmount(21, policy), 15);
+    assert.equal(decayAmount(28, policy), 20);
+    assert.equal(decayAmount(365, policy), 30);
+  });
+
+  it('stays flat without escalation', () => {
+    assert.equal(decayAmount(365), DEFAULT_DECAY_POLICY.amount);
+  });
+});
+
+describe('nextDecayRun', () => {
+  it('is the following Monday at midnight UTC', () => {
+    assert.equal(nextDecayRun(new Date('2026-10-21T12:00:00.000Z')).toISOString(), '2026-10-26T00:00:00.000Z');
+    assert.equal(nextDecayRun(new Date('2026-10-25T23:59:00.000Z')).toISOString(), '2026-10-26T00:00:00.000Z');
+  });
+
+  it('skips a run that has already started', () => {
+    assert.equal(nextDecayRun(new Date('2026-10-26T00:00:00.000Z')).toISOString(), '2026-11-02T00:00:00.000Z');
+  });
+});
+
+describe('forecastDecay', () => {
+  const player = makePlayer({ id: 1 });
+
+  it('finds the first run past the grace period', () => {
+    const matches = [playedMatch(1, '2026-10-14T20:00:00.000Z', [1], [2], 'A')];
+    const forecast = forecastDecay([player], matches, new Date('2026-10-19T12:00:00.000Z'));
+
+    assert.deepEqual(forecast.get(1), { at: new Date('2026-11-02T00:00:00.000Z'), deduction: 10 });
+  });
+
+  it('reports the escalated amount for a player already decaying', () => {
+    const policy = { ...DEFAULT_DECAY_POLICY, escalation: 5 };
+    const matches = [playedMatch(1, '2026-09-01T20:00:00.000Z', [1], [2], 'A')];
+    const forecast = forecastDecay([player], matches, new Date('2026-10-19T12:00:00.000Z'), policy);
+
+    // 54 days away on Oct 26: 40 past grace, so five extra weeks
+    assert.deepEqual(forecast.get(1), { at: new Date('2026-10-26T00:00:00.000Z'), deduction: 35 });
+  });
+
+  it('leaves out players who will never decay', () => {
+    const matches = [playedMatch(1, '2026-09-01T20:00:00.000Z', [1], [2], 'A')];
+    const policy = { ...DEFAULT_DECAY_POLICY, floor: 1500 };
+
+    assert.equal(forecastDecay([player], matches, new Date('2026-10-19T12:00:00.000Z'), policy).size, 0);
+  });
+});
+
+describe('parseDecayPolicy', () => {
+  it('falls back to the defaults for missing or invalid values', () => {
+    assert.deepEqual(parseDecayPolicy(null), DEFAULT_DECAY_POLICY);
+    assert.deepEqual(parseDecayPolicy({ amount: 0, graceDays: 'x', floor: 1200, escalation: -1, minGames: 5 }), {
+      ...DEFAULT_DECAY_POLICY,
+      floor: 1200,
+      minGames: 5,
+    });
+  });
+});
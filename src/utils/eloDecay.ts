@@ -1,26 +1,105 @@
 import type { Match, Player } from '../types/common.ts';
 
-/** A player decays once this many whole days have passed since their last completed match. */
-export const DECAY_AFTER_DAYS = 14;
+// Shared by the UI and the api/elo-decay cron, so it only imports types and relative paths
+
+export interface DecayPolicy {
+  /** Elo taken on the first run after the grace period. */
+  amount: number;
+  /** Extra Elo taken per further week away, so long absences cost more. 0 keeps the amount flat. */
+  escalation: number;
+  /** Most Elo a single run can take once escalation kicks in; never less than `amount`. */
+  maxAmount: number;
+  /** A player decays once this many whole days have passed since their last completed match. */
+  graceDays: number;
+  /** Decay never takes a player below this Elo. */
+  floor: number;
+  /** Only players above this Elo decay, e.g. to keep the top of the ladder active. 0 applies to everyone. */
+  threshold: number;
+  /** Players with fewer completed games than this never decay. */
+  minGames: number;
+}
+
+export const DEFAULT_DECAY_POLICY: DecayPolicy = {
+  amount: 10,
+  escalation: 0,
+  maxAmount: 50,
+  graceDays: 14,
+  floor: 0,
+  threshold: 0,
+  minGames: 0,
+};
+
+/** `setting` row holding the DecayPolicy overrides. */
+export const DECAY_SETTING_KEY = 'decay';
+
 const DAY_MS = 24 * 60 * 60 * 1000;
 
-export interface DecayResult {
-  player: Player;
+export type DecayPlayer = Pick<Player, 'id' | 'elo' | 'total'>;
+export type DecayMatch = Pick<Match, 'created_at' | 'result' | 'team_a_players' | 'team_b_players'>;
+
+export interface DecayResult<P extends DecayPlayer = Player> {
+  player: P;
   daysInactive: number;
   deduction: number;
 }
 
+export interface DecayForecast {
+  /** When the cron run that takes it is due. */
+  at: Date;
+  deduction: number;
+}
+
+// Lowest accepted value per field
+const POLICY_MINIMUMS: Record<keyof DecayPolicy, number> = {
+  amount: 1,
+  escalation: 0,
+  maxAmount: 1,
+  graceDays: 1,
+  floor: 0,
+  threshold: 0,
+  minGames: 0,
+};
+
+/** Reads a stored DecayPolicy, falling back to the default for anything missing or invalid. */
+export function parseDecayPolicy(value: unknown): DecayPolicy {
+  const stored = value && typeof value === 'object' ? (value as Partial<Record<keyof DecayPolicy, unknown>>) : {};
+  const pick = (key: keyof DecayPolicy) => {
+    const v = stored[key];
+    return typeof v === 'number' && Number.isFinite(v) && v >= POLICY_MINIMUMS[key] ? v : DEFAULT_DECAY_POLICY[key];
+  };
+  const policy = { ...DEFAULT_DECAY_POLICY };
+  (Object.keys(POLICY_MINIMUMS) as (keyof DecayPolicy)[]).forEach((key) => {
+    policy[key] = pick(key);
+  });
+  return policy;
+}
+
+/** Elo a run takes from someone `daysInactive` days away, before the floor is applied. */
+export function decayAmount(daysInactive: number, policy: DecayPolicy = DEFAULT_DECAY_POLICY): number {
+  if (daysInactive < policy.graceDays) return 0;
+  const extraWeeks = Math.floor((daysInactive - policy.graceDays) / 7);
+  return Math.min(policy.amount + policy.escalation * extraWeeks, Math.max(policy.maxAmount, policy.amount));
+}
+
 /**
- * Returns players eligible for a -10 Elo deduction this run.
+ * Returns players eligible for a deduction this run.
  * A player decays once they have not played a completed match for
- * DECAY_AFTER_DAYS (14) whole days — measured from the actual last-match
- * timestamp, so a single missed play-week is still within grace.
+ * `policy.graceDays` whole days — measured from the actual last-match
+ * timestamp, so a single missed play-week is still within grace. Players
+ * at or below `policy.threshold`, or with fewer than `policy.minGames`
+ * games, are left alone.
  *
  * @param players All active (non-hidden) players
  * @param matches All completed matches (result 'A' or 'B')
  * @param now     Injectable for testing; defaults to today
+ * @param policy  Amounts, grace period, floor and exemptions
  */
-export function findDecayPlayers(players: Player[], matches: Match[], now: Date = new Date()): DecayResult[] {
+export function findDecayPlayers<P extends DecayPlayer>(
+  players: P[],
+  matches: DecayMatch[],
+  now: Date = new Date(),
+  policy: DecayPolicy = DEFAULT_DECAY_POLICY,
+): DecayResult<P>[] {
   const nowMs = now.getTime();
 
   const lastPlayedMs = new Map<number, number>();
@@ -36,10 +115,54 @@ export function findDecayPlayers(players: Player[], matches: Match[], now: Date
   return players.flatMap((player) => {
     const lastTs = lastPlayedMs.get(player.id);
     if (!lastTs) return [];
+    if (player.total < policy.minGames || player.elo <= policy.threshold) return [];
 
     const daysInactive = Math.floor((nowMs - lastTs) / DAY_MS);
-    if (daysInactive < DECAY_AFTER_DAYS) return [];
+    if (daysInactive < policy.graceDays) return [];
 
-    return [{ player, daysInactive, deduction: 10 }];
+    const deduction = Math.min(decayAmount(daysInactive, policy), player.elo - policy.floor);
+    if (deduction <= 0) return [];
+
+    return [{ player, daysInactive, deduction }];
+  });
+}
+
+/** Start of the next decay run after `now`: Mondays 00:00 UTC, as scheduled in vercel.json. */
+export function nextDecayRun(now: Date = new Date()): Date {
+  const daysUntilMonday = (8 - now.getUTCDay()) % 7 || 7;
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + daysUntilMonday));
+}
+
+/**
+ * The next deduction each player is headed for if they stay away: which run takes it and how
+ * much. Players who will never decay under `policy` (no matches, exempt, at the floor) are left out.
+ */
+export function forecastDecay<P extends DecayPlayer>(
+  players: P[],
+  matches: DecayMatch[],
+  now: Date = new Date(),
+  policy: DecayPolicy = DEFAULT_DECAY_POLICY,
+): Map<number, DecayForecast> {
+  const forecast = new Map<number, DecayForecast>();
+  // Everyone with a match is past grace by the last of these runs
+  const runs = Math.ceil(policy.graceDays / 7) + 1;
+  const runDates = [nextDecayRun(now)];
+  while (runDates.length < runs) runDates.push(nextDecayRun(runDates[runDates.length - 1]));
+
+  runDates.forEach((at) => {
+    findDecayPlayers(players, matches, at, policy).forEach(({ player, deduction }) => {
+      if (!forecast.has(player.id)) forecast.set(player.id, { at, deduction });
+    });
   });
+  return forecast;
+}
+
+/**
+ * The decay period a run belongs to: the UTC date of that week's Monday. One run per player
+ * per period is recorded, so a retried cron run can't deduct twice.
+ */
+export function decayPeriod(now: Date = new Date()): string {
+  const daysSinceMonday = (now.getUTCDay() + 6) % 7;
+  const monday = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - daysSinceMonday));
+  return monday.toISOString().slice(0, 10);
 }
@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { makeMatch } from '@/test/fixtures.ts';
+import { buildEloHistory } from '@/utils/eloHistory.ts';
+
+describe('buildEloHistory', () => {
+  const won = makeMatch({
+    id: 1,
+    created_at: '2026-05-01T20:00:00.000Z',
+    result: 'A',
+    team_a_players: [1],
+    team_b_players: [2],
+    team_a_new_elos: [1513],
+    team_b_new_elos: [1488],
+  });
+  const lost = makeMatch({
+    id: 2,
+    created_at: '2026-05-30T20:00:00.000Z',
+    result: 'B',
+    team_a_players: [1],
+    team_b_players: [2],
+    team_a_elos: [1503],
+    team_b_elos: [1488],
+    team_a_new_elos: [1490],
+    team_b_new_elos: [1501],
+  });
+  const decay = {
+    player_id: 1,
+    created_at: '2026-05-25T00:00:00.000Z',
+    amount: -10,
+    elo_after: 1503,
+    kind: 'decay',
+  };
+
+  it('interleaves matches and adjustments in time order', () => {
+    assert.deepEqual(buildEloHistory(1, [lost, won], [decay]), [
+      { at: won.created_at, elo: 1513, change: 13, kind: 'match' },
+      { at: decay.created_at, elo: 1503, change: -10, kind: 'decay' },
+      { at: lost.created_at, elo: 1490, change: -13, kind: 'match' },
+    ]);
+  });
+
+  it('leaves out reverted adjustments', () => {
+    const penalty = { ...decay, created_at: '2026-05-26T00:00:00.000Z', kind: 'penalty', reverted_at: '2026-05-27' };
+
+    assert.deepEqual(
+      buildEloHistory(1, [won], [decay, penalty]).map((p) => p.kind),
+      ['match', 'decay'],
+    );
+  });
+
+  it("leaves out other players' adjustments and unfinished matches", () => {
+    const cancelled = { ...won, id: 3, result: 'Cancelled' };
+
+    assert.deepEqual(
+      buildEloHistory(2, [won, cancelled], [decay]).map((p) => p.elo),
+      [1488],
+    );
+  });
+});
@@ -0,0 +1,43 @@
+import type { EloAdjustment, Match } from '@/types/common.ts';
+
+export interface EloPoint {
+  at: string;
+  /** Elo right after this event. */
+  elo: number;
+  change: number;
+  /** 'match', or the adjustment kind (e.g. 'decay'). */
+  kind: string;
+}
+
+/**
+ * A player's Elo over time, oldest first: one point per completed match they played and one per
+ * rating adjustment (decay, penalties and the like), so the line ends at their actual Elo. Reverted
+ * adjustments are left out, like reverted matches.
+ *
+ * @param playerId    Whose history
+ * @param matches     Matches in any order; only completed ones with stored post-match Elos count
+ * @param adjustments Adjustments in any order; other players' entries are ignored
+ */
+export function buildEloHistory(
+  playerId: number,
+  matches: Match[],
+  adjustments: (Pick<EloAdjustment, 'player_id' | 'created_at' | 'amount' | 'elo_after' | 'kind'> &
+    Partial<Pick<EloAdjustment, 'reverted_at'>>)[] = [],
+): EloPoint[] {
+  const matchPoints = matches.flatMap((m) => {
+    if (!(m.result === 'A' || m.result === 'B') || !m.team_a_new_elos || !m.team_b_new_elos) return [];
+    const onTeamA = m.team_a_players.includes(playerId);
+    const players = onTeamA ? m.team_a_players : m.team_b_players;
+    const idx = players.indexOf(playerId);
+    if (idx === -1) return [];
+    const pre = onTeamA ? m.team_a_elos[idx] : m.team_b_elos[idx];
+    const post = onTeamA ? m.team_a_new_elos[idx] : m.team_b_new_elos[idx];
+    return [{ at: m.created_at, elo: post, change: post - pre, kind: 'match' }];
+  });
+
+  const adjustmentPoints = adjustments
+    .filter((a) => a.player_id === playerId && !a.reverted_at)
+    .map((a) => ({ at: a.created_at, elo: a.elo_after, change: a.amount, kind: a.kind }));
+
+  return [...matchPoints, ...adjustmentPoints].sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+}
@@ -0,0 +1,135 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { makeMatch, playedMatch } from '@/test/fixtures.ts';
+import { applyMatchEdit, applyMatchRevert, replayMatches } from '@/utils/eloReplay.ts';
+
+describe('applyMatchEdit', () => {
+  // Player 1 beats 2, then beats 3
+  const log = [
+    playedMatch(1, '2026-03-02T20:00:00.000Z', [1], [2], 'A'),
+    playedMatch(2, '2026-03-03T20:00:00.000Z', [1], [3], 'A'),
+  ];
+  const { matches, players: ratings } = replayMatches(log);
+  const players = [...ratings.values()];
+
+  it('re-derives later matches that share a player when the result flips', () => {
+    const edit = applyMatchEdit(matches, 1, { team_a_players: [1], team_b_players: [2], result: 'B' }, players);
+    const clean = replayMatches(log.map((m) => (m.id === 1 ? { ...m, result: 'B' } : m)));
+
+    assert.deepEqual(
+      edit.matches.map((m) => [m.id, m.team_a_elos, m.team_b_elos, m.team_a_new_elos, m.team_b_new_elos]),
+      clean.matches.map((m) => [m.id, m.team_a_elos, m.team_b_elos, m.team_a_new_elos, m.team_b_new_elos]),
+    );
+    assert.deepEqual(edit.matches[1].team_a_elos, [1488]);
+    assert.deepEqual(
+      edit.players,
+      [1, 2, 3].map((id) => clean.players.get(id)),
+    );
+  });
+
+  it('moves the record to the player swapped into the roster', () => {
+    const withNewcomer = [...players, { id: 4, elo: 1600, win: 0, total: 0 }];
+    const edit = applyMatchEdit(matches, 1, { team_a_players: [1], team_b_players: [4], result: 'A' }, withNewcomer);
+
+    // The newcomer steps into the slot at their own Elo, the removed player loses the game
+    assert.deepEqual(edit.matches[0].team_b_elos, [1600]);
+    assert.deepEqual(
+      edit.players.find((p) => p.id === 2),
+      { id: 2, elo: 1500, win: 0, total: 0 },
+    );
+    assert.deepEqual(
+      edit.players.find((p) => p.id === 4),
+      { id: 4, elo: 1584, win: 0, total: 1 },
+    );
+  });
+
+  it("seeds a player's first match from its stored pre-match Elo", () => {
+    // Player 1 carried 1600 over from last season; their row has since moved on
+    const seeded = [
+      makeMatch({
+        id: 1,
+        created_at: '2026-03-02T20:00:00.000Z',
+        team_a_players: [1],
+        team_b_players: [2],
+        team_a_elos: [1600],
+        result: 'A',
+      }),
+    ];
+    const replayed = replayMatches(seeded);
+    const stored = [...replayed.players.values()];
+    const edit = applyMatchEdit(replayed.matches, 1, { team_a_players: [1], team_b_players: [2], result: 'B' }, stored);
+
+    assert.deepEqual(edit.matches[0].team_a_elos, [1600]);
+    assert.deepEqual(edit.matches[0].team_a_new_elos, [1584]);
+    assert.equal(edit.players.find((p) => p.id === 1)?.elo, 1584);
+  });
+
+  it('keeps Elo picked up outside the match log', () => {
+    const decayed = players.map((p) => (p.id === 1 ? { ...p, elo: p.elo - 10 } : p));
+    const flipped = applyMatchEdit(matches, 1, { team_a_players: [1], team_b_players: [2], result: 'B' }, players);
+    const edit = applyMatchEdit(matches, 1, { team_a_players: [1], team_b_players: [2], result: 'B' }, decayed);
+
+    assert.equal(edit.players[0].elo, flipped.players[0].elo - 10);
+  });
+
+  it('changes nothing for an unknown or unfinished match', () => {
+    const changes = { team_a_players: [1], team_b_players: [2], result: 'A' };
+    const inProgress = makeMatch({ id: 3, team_a_players: [1], team_b_players: [2] });
+
+    assert.deepEqual(applyMatchEdit(matches, 99, changes, players), { matches: [], players: [], deltas: [] });
+    assert.deepEqual(applyMatchEdit([...matches, inProgress], 3, changes, players), {
+      matches: [],
+      players: [],
+      deltas: [],
+    });
+  });
+});
+
+describe('applyMatchRevert', () => {
+  // Player 1 beats 2, then 2 beats 3, then 1 beats 3
+  const log = [
+    playedMatch(1, '2026-03-02T20:00:00.000Z', [1], [2], 'A'),
+    playedMatch(2, '2026-03-03T20:00:00.000Z', [2], [3], 'A'),
+    playedMatch(3, '2026-03-04T20:00:00.000Z', [1], [3], 'A'),
+  ];
+  const { matches, players: ratings } = replayMatches(log);
+  const players = [...ratings.values()];
+
+  it('leaves the same ratings as a clean replay without the match', () => {
+    const revert = applyMatchRevert(matches, 1, players);
+    const clean = replayMatches(log.filter((m) => m.id !== 1));
+
+    assert.deepEqual(
+      revert.matches.map((m) => [m.id, m.team_a_elos, m.team_b_elos, m.team_a_new_elos, m.team_b_new_elos]),
+      clean.matches.map((m) => [m.id, m.team_a_elos, m.team_b_elos, m.team_a_new_elos, m.team_b_new_elos]),
+    );
+    assert.deepEqual(
+      [...revert.players].sort((a, b) => a.id - b.id),
+      [1, 2, 3].map((id) => clean.players.get(id)),
+    );
+  });
+
+  it('hands back each change as a difference from the stored row', () => {
+    const revert = applyMatchRevert(matches, 1, players);
+
+    revert.deltas.forEach((d) => {
+      const stored = ratings.get(d.id)!;
+      const planned = revert.players.find((p) => p.id === d.id)!;
+      assert.deepEqual(
+        { elo: stored.elo + d.elo, win: stored.win + d.win, total: stored.total + d.total },
+        { elo: planned.elo, win: planned.win, total: planned.total },
+      );
+    });
+    // Player 2 gets back the loss
+    const loser = revert.deltas.find((d) => d.id === 2)!;
+    assert.equal(loser.win, 0);
+    assert.equal(loser.total, -1);
+    assert.ok(loser.elo > 0);
+  });
+
+  it('plans nothing for a match without a result', () => {
+    const inProgress = makeMatch({ id: 4, team_a_players: [1], team_b_players: [2] });
+
+    assert.deepEqual(applyMatchRevert([...matches, inProgress], 4, players), { matches: [], players: [], deltas: [] });
+  });
+});
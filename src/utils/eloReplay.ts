@@ -0,0 +1,292 @@
+import { isEqual, sum, zip } from 'es-toolkit';
+import type { Match, Player } from '../types/common.ts';
+import { calculateMatchResult } from './elo.ts';
+import { INITIAL_ELO } from './leaderboardStats.ts';
+
+// Shared by the UI and the api/matches endpoint, so it only imports types and relative paths
+
+export type PlayerRating = Pick<Player, 'id' | 'elo' | 'win' | 'total'>;
+
+export interface ReplayResult {
+  /** Final rating per player id, for every baseline player or player seen in a completed match. */
+  players: Map<number, PlayerRating>;
+  /** Completed matches in chronological order, with pre- and post-match Elos re-derived. */
+  matches: Match[];
+  /** The subset of `matches` whose stored Elos differ from the replayed ones. */
+  changed: Match[];
+}
+
+export type MatchChanges = Pick<Match, 'team_a_players' | 'team_b_players' | 'result'>;
+
+export interface MatchEditResult {
+  /** Match rows to write back: the edited match plus every later match whose Elos moved. */
+  matches: Match[];
+  /** Players whose Elo, wins or totals change. */
+  players: PlayerRating[];
+  /**
+   * The same changes as differences from the stored rows, for the database functions that add
+   * them under a row lock so a match ended meanwhile isn't overwritten.
+   */
+  deltas: PlayerRating[];
+}
+
+function isCompleted(match: Match): boolean {
+  return match.result === 'A' || match.result === 'B';
+}
+
+/** Chronological order, with id as a tie-breaker so the replay is deterministic. */
+export function sortChronologically(matches: Match[]): Match[] {
+  return [...matches].sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id - b.id);
+}
+
+/**
+ * Rebuilds every rating by walking the match log in `created_at` order, skipping
+ * in-progress, Cancelled and Reverted matches. Elo, wins and totals are derived from
+ * the log alone, so the result does not depend on how earlier reverts were applied.
+ *
+ * A player starts from their `baseline` entry if given (e.g. a season's starting
+ * ratings), otherwise from the stored pre-match Elo of their first completed match,
+ * otherwise from INITIAL_ELO.
+ *
+ * @param matches  All matches of the season, in any order
+ * @param baseline Starting ratings; players without a completed match keep theirs
+ */
+export function replayMatches(matches: Match[], baseline: PlayerRating[] = []): ReplayResult {
+  const ratings = new Map<number, PlayerRating>(baseline.map((p) => [p.id, { ...p }]));
+
+  const ratingOf = (id: number, storedElo: number | undefined): PlayerRating =>
+    ratings.get(id) ?? { id, elo: storedElo ?? INITIAL_ELO, win: 0, total: 0 };
+
+  const replayed = sortChronologically(matches.filter(isCompleted)).map((match) => {
+    const teamA = match.team_a_players.map((id, i) => ratingOf(id, match.team_a_elos[i]));
+    const teamB = match.team_b_players.map((id, i) => ratingOf(id, match.team_b_elos[i]));
+    const teamAElos = teamA.map((p) => p.elo);
+    const teamBElos = teamB.map((p) => p.elo);
+
+    const { teamANewElos, teamBNewElos, updatedAPlayers, updatedBPlayers } = calculateMatchResult(
+      { ...match, team_a_elos: teamAElos, team_b_elos: teamBElos },
+      match.result as 'A' | 'B',
+      [...teamA, ...teamB],
+    );
+
+    [...updatedAPlayers, ...updatedBPlayers].forEach(({ id, elo, win, total }) => {
+      ratings.set(id!, { id: id!, elo: elo!, win: win!, total: total! });
+    });
+
+    return {
+      ...match,
+      team_a_elos: teamAElos,
+      team_b_elos: teamBElos,
+      team_a_new_elos: teamANewElos,
+      team_b_new_elos: teamBNewElos,
+    };
+  });
+
+  const storedById = new Map(matches.map((m) => [m.id, m]));
+  const changed = replayed.filter((m) => {
+    const stored = storedById.get(m.id)!;
+    return (
+      !isEqual(stored.team_a_elos, m.team_a_elos) ||
+      !isEqual(stored.team_b_elos, m.team_b_elos) ||
+      !isEqual(stored.team_a_new_elos, m.team_a_new_elos) ||
+      !isEqual(stored.team_b_new_elos, m.team_b_new_elos)
+    );
+  });
+
+  return { players: ratings, matches: replayed, changed };
+}
+
+interface Slot {
+  pre: number;
+  post: number | null;
+}
+
+/** Each player's slot in a match, keyed by `playerKey` of their id. */
+function slotsOf(match: Match, playerKey = (id: number) => id): Map<number, Slot> {
+  return new Map([
+    ...match.team_a_players.map((id, i): [number, Slot] => [
+      playerKey(id),
+      { pre: match.team_a_elos[i], post: match.team_a_new_elos?.[i] ?? null },
+    ]),
+    ...match.team_b_players.map((id, i): [number, Slot] => [
+      playerKey(id),
+      { pre: match.team_b_elos[i], post: match.team_b_new_elos?.[i] ?? null },
+    ]),
+  ]);
+}
+
+/** Everyone's first stored pre-match Elo of the season, so both sides of a rewrite start alike. */
+export function seasonAnchors(matches: Match[]): Map<number, PlayerRating> {
+  const anchors = new Map<number, PlayerRating>();
+  sortChronologically(matches.filter(isCompleted)).forEach((m) => {
+    [...zip(m.team_a_players, m.team_a_elos), ...zip(m.team_b_players, m.team_b_elos)].forEach(([id, elo]) => {
+      if (!anchors.has(id)) anchors.set(id, { id, elo, win: 0, total: 0 });
+    });
+  });
+  return anchors;
+}
+
+export interface Reconciliation {
+  /** Starting ratings for the replay as stored */
+  baseline: PlayerRating[];
+  /** Starting ratings for the rewritten replay, when they differ from `baseline` */
+  rewrittenBaseline?: PlayerRating[];
+  /** The match being changed; it is returned even if its Elos did not move */
+  matchId?: number;
+  /** A duplicate folded into another player: the rewritten log has `keepId` wherever `removeId` played */
+  merge?: { keepId: number; removeId: number };
+}
+
+/**
+ * Replays the season as stored and as rewritten and applies only the difference between the
+ * two runs on top of the stored values. Anything the match log does not capture (decay, manual
+ * fixes) is kept as is.
+ *
+ * @param matches   All matches of the season, as stored
+ * @param rewritten The same matches with the change applied
+ * @param players   Current player rows
+ */
+export function reconcileReplays(
+  matches: Match[],
+  rewritten: Match[],
+  players: PlayerRating[],
+  { baseline, rewrittenBaseline = baseline, matchId, merge }: Reconciliation,
+): MatchEditResult {
+  const playerById = new Map(players.map((p) => [p.id, p]));
+  const before = replayMatches(matches, baseline);
+  const after = replayMatches(rewritten, rewrittenBaseline);
+
+  // Who a stored slot belongs to in the rewritten log
+  const rewrittenId = (id: number) => (merge && id === merge.removeId ? merge.keepId : id);
+  // Stored records that end up in a rewritten one besides its own
+  const foldedInto = (id: number) =>
+    merge && id === merge.keepId && playerById.has(merge.removeId) ? [playerById.get(merge.removeId)!] : [];
+
+  // Out-of-band Elo a player picked up after the replayed log, e.g. decay
+  const trailingOffset = (id: number) => {
+    const stored = playerById.get(id);
+    const replayed = before.players.get(id);
+    return stored && replayed ? stored.elo - replayed.elo : 0;
+  };
+
+  const storedById = new Map(matches.map((m) => [m.id, m]));
+  const beforeById = new Map(before.matches.map((m) => [m.id, m]));
+
+  const rewrittenMatches = after.matches.flatMap((m) => {
+    const stored = storedById.get(m.id)!;
+    const storedSlots = slotsOf(stored, rewrittenId);
+    const beforeSlots = beforeById.has(m.id) ? slotsOf(beforeById.get(m.id)!, rewrittenId) : new Map<number, Slot>();
+
+    const shift = (ids: number[], replayed: number[], pick: (slot: Slot) => number | null) =>
+      ids.map((id, i) => {
+        const storedSlot = storedSlots.get(id);
+        const beforeSlot = beforeSlots.get(id);
+        const storedValue = storedSlot ? pick(storedSlot) : null;
+        const beforeValue = beforeSlot ? pick(beforeSlot) : null;
+        const offset = storedValue !== null && beforeValue !== null ? storedValue - beforeValue : trailingOffset(id);
+        return replayed[i] + offset;
+      });
+
+    const next: Match = {
+      ...m,
+      team_a_elos: shift(m.team_a_players, m.team_a_elos, (slot) => slot.pre),
+      team_b_elos: shift(m.team_b_players, m.team_b_elos, (slot) => slot.pre),
+      team_a_new_elos: shift(m.team_a_players, m.team_a_new_elos!, (slot) => slot.post),
+      team_b_new_elos: shift(m.team_b_players, m.team_b_new_elos!, (slot) => slot.post),
+    };
+
+    const unchanged =
+      m.id !== matchId &&
+      isEqual(stored.team_a_elos, next.team_a_elos) &&
+      isEqual(stored.team_b_elos, next.team_b_elos) &&
+      isEqual(stored.team_a_new_elos, next.team_a_new_elos) &&
+      isEqual(stored.team_b_new_elos, next.team_b_new_elos);
+    return unchanged ? [] : [next];
+  });
+
+  const deltas = [...after.players.values()].flatMap((a) => {
+    const stored = playerById.get(a.id);
+    if (!stored) return [];
+    const folded = foldedInto(a.id);
+    // A record the stored log never rated counts as replayed at its stored values
+    const sources = [stored, ...folded].map((p) => before.players.get(p.id) ?? p);
+    const delta = (key: 'elo' | 'win' | 'total') =>
+      a[key] - sum(sources.map((p) => p[key])) + sum(folded.map((p) => p[key]));
+    const d = { id: a.id, elo: delta('elo'), win: delta('win'), total: delta('total') };
+    return folded.length || d.elo || d.win || d.total ? [d] : [];
+  });
+
+  const updatedPlayers = deltas.map((d) => {
+    const stored = playerById.get(d.id)!;
+    return { id: d.id, elo: stored.elo + d.elo, win: stored.win + d.win, total: stored.total + d.total };
+  });
+
+  return { matches: rewrittenMatches, players: updatedPlayers, deltas };
+}
+
+/**
+ * Applies an edit to a completed match's teams or winner and re-derives that match and
+ * every later one. Both replays start everyone from their first stored pre-match Elo of
+ * the season; see reconcileReplays.
+ *
+ * @param matches  All matches of the season, the edited one included
+ * @param matchId  The match being edited
+ * @param changes  Corrected teams and result ('A' or 'B')
+ * @param players  Current player rows
+ */
+export function applyMatchEdit(
+  matches: Match[],
+  matchId: number,
+  changes: MatchChanges,
+  players: PlayerRating[],
+): MatchEditResult {
+  const original = matches.find((m) => m.id === matchId);
+  if (!original || !isCompleted(original) || !(changes.result === 'A' || changes.result === 'B')) {
+    return { matches: [], players: [], deltas: [] };
+  }
+
+  const playerById = new Map(players.map((p) => [p.id, p]));
+  const originalSlots = slotsOf(original);
+  const slotElo = (id: number) => originalSlots.get(id)?.pre ?? playerById.get(id)?.elo ?? INITIAL_ELO;
+
+  const anchors = seasonAnchors(matches);
+  [...changes.team_a_players, ...changes.team_b_players].forEach((id) => {
+    if (!anchors.has(id)) anchors.set(id, { id, elo: slotElo(id), win: 0, total: 0 });
+  });
+
+  const edited: Match = {
+    ...original,
+    ...changes,
+    team_a_elos: changes.team_a_players.map(slotElo),
+    team_b_elos: changes.team_b_players.map(slotElo),
+  };
+
+  return reconcileReplays(
+    matches,
+    matches.map((m) => (m.id === matchId ? edited : m)),
+    players,
+    { baseline: [...anchors.values()], matchId },
+  );
+}
+
+/**
+ * Takes a completed match out of the log and re-derives every later match, so a revert
+ * leaves the same ratings as a season that never had the match (plus anything the log does
+ * not capture, as in applyMatchEdit). The reverted match itself is not among the returned
+ * matches.
+ *
+ * @param matches  All matches of the season, the reverted one included
+ * @param matchId  The match being reverted
+ * @param players  Current player rows
+ */
+export function applyMatchRevert(matches: Match[], matchId: number, players: PlayerRating[]): MatchEditResult {
+  const original = matches.find((m) => m.id === matchId);
+  if (!original || !isCompleted(original)) return { matches: [], players: [], deltas: [] };
+
+  return reconcileReplays(
+    matches,
+    matches.map((m) => (m.id === matchId ? { ...m, result: 'Reverted' } : m)),
+    players,
+    { baseline: [...seasonAnchors(matches).values()], matchId },
+  );
+}
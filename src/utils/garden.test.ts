@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { makePlayer, playedMatch } from '@/test/fixtures.ts';
+import {
+  DRIED_ICE_STREAK_MIN,
+  DRIED_MIN_GAMES,
+  DRIED_WINRATE_MAX,
+  computeGardenState,
+  getGrowthStage,
+  getWeatherState,
+  isDried,
+} from '@/utils/garden.ts';
+
+describe('getGrowthStage', () => {
+  it('grows at each win threshold', () => {
+    const stages = [0, 2, 3, 14, 15, 29, 30, 44, 45, 59, 60, 70, 71, 81, 82, 200].map(getGrowthStage);
+
+    assert.deepEqual(stages, [1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8]);
+  });
+});
+
+describe('isDried', () => {
+  it('dries a frequent player with a poor win rate', () => {
+    assert.equal(isDried(DRIED_MIN_GAMES, DRIED_WINRATE_MAX - 0.1, null, false), true);
+    assert.equal(isDried(DRIED_MIN_GAMES, DRIED_WINRATE_MAX, null, false), false);
+    assert.equal(isDried(DRIED_MIN_GAMES - 1, 0, null, false), false);
+  });
+
+  it('dries a long ice streak regardless of totals', () => {
+    assert.equal(isDried(0, 100, { type: 'ice', count: DRIED_ICE_STREAK_MIN }, false), true);
+    assert.equal(isDried(0, 100, { type: 'ice', count: DRIED_ICE_STREAK_MIN - 1 }, false), false);
+    assert.equal(isDried(0, 100, { type: 'fire', count: 10 }, false), false);
+  });
+
+  it('dries a decaying player', () => {
+    assert.equal(isDried(0, 100, null, true), true);
+  });
+});
+
+describe('getWeatherState', () => {
+  it('is rainy with no history', () => {
+    const { weather, breakdown } = getWeatherState(null, [], 1, 0, 0);
+
+    assert.equal(breakdown.healthScore, 50);
+    assert.equal(weather, 'rainy');
+  });
+
+  it('is sunny on a hot streak with a perfect record', () => {
+    const recent = [1, 2, 3, 4, 5].map((id) => playedMatch(id, `2026-06-0${id}T20:00:00.000Z`, [1], [2], 'A'));
+    const { weather, breakdown } = getWeatherState({ type: 'fire', count: 5 }, recent, 1, 5, 5);
+
+    assert.equal(breakdown.healthScore, 100);
+    assert.equal(weather, 'sunny');
+  });
+
+  it('is a blizzard on a cold streak with no wins', () => {
+    const recent = [1, 2, 3, 4, 5].map((id) => playedMatch(id, `2026-06-0${id}T20:00:00.000Z`, [1], [2], 'B'));
+
+    assert.equal(getWeatherState({ type: 'ice', count: 5 }, recent, 1, 0, 5).weather, 'blizzard');
+  });
+
+  it('counts only the five most recent completed matches', () => {
+    const recent = [
+      { ...playedMatch(9, '2026-06-09T20:00:00.000Z', [1], [2], 'A'), result: 'Cancelled' },
+      ...[1, 2, 3, 4, 5, 6].map((id) => playedMatch(id, `2026-06-0${id}T20:00:00.000Z`, [2], [1], 'B')),
+    ];
+    const { breakdown } = getWeatherState(null, recent, 1, 6, 6);
+
+    assert.equal(breakdown.recentTotal, 5);
+    assert.equal(breakdown.recentWins, 5);
+  });
+});
+
+describe('computeGardenState', () => {
+  it('derives the streak from matches in any order', () => {
+    const matches = [3, 1, 2].map((id) => playedMatch(id, `2026-06-0${id}T20:00:00.000Z`, [1], [2], 'A'));
+    const state = computeGardenState(makePlayer({ id: 1, win: 3, total: 3 }), matches, 1);
+
+    assert.equal(state.stage, 2);
+    assert.equal(state.breakdown.streakValue, 3);
+    assert.equal(state.dried, false);
+  });
+});
@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import glicko2, { PROVISIONAL_RD, ratePeriod } from '@/utils/glicko2.ts';
+
+const close = (actual: number, expected: number, tolerance: number) =>
+  assert.ok(Math.abs(actual - expected) < tolerance, `${actual} is not within ${tolerance} of ${expected}`);
+
+// Opponents on the Glicko-2 scale, as in step 2 of the paper
+const opponent = (rating: number, deviation: number) => ({ mu: (rating - 1500) / 173.7178, phi: deviation / 173.7178 });
+
+describe('ratePeriod', () => {
+  it("reproduces Glickman's worked example", () => {
+    const next = ratePeriod({ rating: 1500, deviation: 200, volatility: 0.06, games: 0 }, [
+      { opponent: opponent(1400, 30), score: 1 },
+      { opponent: opponent(1550, 100), score: 0 },
+      { opponent: opponent(1700, 300), score: 0 },
+    ]);
+
+    close(next.rating, 1464.06, 0.01);
+    close(next.deviation, 151.52, 0.01);
+    close(next.volatility, 0.05999, 0.00001);
+    assert.equal(next.games, 3);
+  });
+});
+
+describe('glicko2', () => {
+  const fresh = glicko2.initial();
+
+  it('moves two fresh players apart by the same amount', () => {
+    const [[winner], [loser]] = glicko2.rate([fresh], [fresh], 'A');
+
+    close(winner.rating - 1500, 1500 - loser.rating, 1e-9);
+    assert.ok(winner.rating > 1500);
+    assert.ok(winner.deviation < fresh.deviation);
+  });
+
+  it('matches the expected score of the paper for a settled player', () => {
+    const settled = { rating: 1500, deviation: 0, volatility: 0.06, games: 20 };
+    const rival = { rating: 1400, deviation: 30, volatility: 0.06, games: 20 };
+
+    close(glicko2.winProbability([settled], [rival]), 0.639, 0.001);
+    close(glicko2.winProbability([fresh], [fresh]), 0.5, 1e-12);
+  });
+
+  it('treats a rating as provisional until the deviation settles', () => {
+    assert.ok(glicko2.isProvisional(fresh));
+    assert.ok(!glicko2.isProvisional({ ...fresh, deviation: PROVISIONAL_RD }));
+  });
+});
@@ -0,0 +1,123 @@
+import { mean } from 'es-toolkit';
+import type { RatingState, RatingSystem } from '@/utils/ratingSystems.ts';
+import { INITIAL_ELO } from '@/utils/leaderboardStats.ts';
+
+// Glicko-2 (Glickman, 2012) with every match treated as its own rating period. Teams are
+// rated against a composite opponent: the mean rating and root-mean-square deviation of the
+// other side, which keeps the one-vs-one formulas intact for 5v5.
+const SCALE = 173.7178;
+const INITIAL_RD = 350;
+const INITIAL_VOLATILITY = 0.06;
+// Constrains volatility changes; Glickman suggests 0.3–1.2
+const TAU = 0.5;
+const EPSILON = 0.000001;
+
+// Below this deviation the rating is settled enough to rank (roughly 8–10 games in)
+export const PROVISIONAL_RD = 110;
+
+function g(phi: number): number {
+  return 1 / Math.sqrt(1 + (3 * phi ** 2) / Math.PI ** 2);
+}
+
+function expected(mu: number, opponentMu: number, opponentPhi: number): number {
+  return 1 / (1 + Math.exp(-g(opponentPhi) * (mu - opponentMu)));
+}
+
+function composite(team: RatingState[]) {
+  return {
+    mu: (mean(team.map((s) => s.rating)) - INITIAL_ELO) / SCALE,
+    phi: Math.sqrt(mean(team.map((s) => (s.deviation / SCALE) ** 2))),
+  };
+}
+
+// Step 5 of the paper: new volatility via the Illinois variant of regula falsi
+function nextVolatility(phi: number, sigma: number, v: number, delta: number): number {
+  const a = Math.log(sigma ** 2);
+  const f = (x: number) =>
+    (Math.exp(x) * (delta ** 2 - phi ** 2 - v - Math.exp(x))) / (2 * (phi ** 2 + v + Math.exp(x)) ** 2) -
+    (x - a) / TAU ** 2;
+
+  let lo = a;
+  let hi: number;
+  if (delta ** 2 > phi ** 2 + v) {
+    hi = Math.log(delta ** 2 - phi ** 2 - v);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) k += 1;
+    hi = a - k * TAU;
+  }
+
+  let fLo = f(lo);
+  let fHi = f(hi);
+  while (Math.abs(hi - lo) > EPSILON) {
+    const c = lo + ((lo - hi) * fLo) / (fHi - fLo);
+    const fC = f(c);
+    if (fC * fHi <= 0) {
+      lo = hi;
+      fLo = fHi;
+    } else {
+      fLo /= 2;
+    }
+    hi = c;
+    fHi = fC;
+  }
+
+  return Math.exp(lo / 2);
+}
+
+/**
+ * Steps 3–8 of the paper: one player's state after a rating period.
+ *
+ * @param state    The player before the period
+ * @param outcomes Each opponent (on the Glicko-2 scale) with the score against them, 1 or 0
+ */
+export function ratePeriod(
+  state: RatingState,
+  outcomes: { opponent: { mu: number; phi: number }; score: number }[],
+): RatingState {
+  const mu = (state.rating - INITIAL_ELO) / SCALE;
+  const phi = state.deviation / SCALE;
+
+  const terms = outcomes.map(({ opponent, score }) => ({
+    gPhi: g(opponent.phi),
+    e: expected(mu, opponent.mu, opponent.phi),
+    score,
+  }));
+  const v = 1 / terms.reduce((sum, { gPhi, e }) => sum + gPhi ** 2 * e * (1 - e), 0);
+  const improvement = terms.reduce((sum, { gPhi, e, score }) => sum + gPhi * (score - e), 0);
+  const delta = v * improvement;
+
+  const volatility = nextVolatility(phi, state.volatility, v, delta);
+  const phiStar = Math.sqrt(phi ** 2 + volatility ** 2);
+  const nextPhi = 1 / Math.sqrt(1 / phiStar ** 2 + 1 / v);
+  const nextMu = mu + nextPhi ** 2 * improvement;
+
+  return {
+    rating: nextMu * SCALE + INITIAL_ELO,
+    deviation: nextPhi * SCALE,
+    volatility,
+    games: state.games + outcomes.length,
+  };
+}
+
+const glicko2: RatingSystem = {
+  id: 'glicko2',
+  label: 'Glicko-2',
+  initial: () => ({ rating: INITIAL_ELO, deviation: INITIAL_RD, volatility: INITIAL_VOLATILITY, games: 0 }),
+  rate: (teamA, teamB, result) => {
+    const a = composite(teamA);
+    const b = composite(teamB);
+    return [
+      teamA.map((s) => ratePeriod(s, [{ opponent: b, score: result === 'A' ? 1 : 0 }])),
+      teamB.map((s) => ratePeriod(s, [{ opponent: a, score: result === 'B' ? 1 : 0 }])),
+    ];
+  },
+  winProbability: (teamA, teamB) => {
+    const a = composite(teamA);
+    const b = composite(teamB);
+    return expected(a.mu, b.mu, Math.sqrt(a.phi ** 2 + b.phi ** 2));
+  },
+  isProvisional: (state) => state.deviation > PROVISIONAL_RD,
+};
+
+export default glicko2;
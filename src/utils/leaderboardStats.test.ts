@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { makePlayer, playedMatch } from '@/test/fixtures.ts';
+import { buildLast5 } from '@/utils/leaderboardStats.ts';
+
+describe('buildLast5', () => {
+  const players = [1, 2, 3].map((id) => makePlayer({ id }));
+
+  it('lists the last five results oldest first', () => {
+    // Newest first, as the match list is stored; player 1 wins the even ids
+    const matches = [6, 5, 4, 3, 2, 1].map((id) =>
+      playedMatch(id, `2026-04-0${id}T20:00:00.000Z`, [1], [2], id % 2 === 0 ? 'A' : 'B'),
+    );
+    const last5 = buildLast5(matches, players);
+
+    // Match 1 falls off; matches 2 to 6 read W L W L W
+    assert.deepEqual(last5.get(1), ['W', 'L', 'W', 'L', 'W']);
+    assert.deepEqual(last5.get(2), ['L', 'W', 'L', 'W', 'L']);
+  });
+
+  it('skips matches that were not played out', () => {
+    const matches = [
+      { ...playedMatch(2, '2026-04-02T20:00:00.000Z', [1], [2], 'B'), result: 'Reverted' },
+      playedMatch(1, '2026-04-01T20:00:00.000Z', [1], [2], 'A'),
+    ];
+
+    assert.deepEqual(buildLast5(matches, players).get(1), ['W']);
+  });
+
+  it('gives players without matches an empty list', () => {
+    assert.deepEqual(buildLast5([], players).get(3), []);
+  });
+});
@@ -0,0 +1,29 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { getActiveLobby } from '@/utils/lobby.ts';
+
+describe('getActiveLobby', () => {
+  const entries = [
+    { player_id: 1, checked_in_at: '2026-03-02T18:00:00.000Z' },
+    { player_id: 2, checked_in_at: '2026-03-02T19:00:00.000Z' },
+  ];
+
+  it('keeps every check-in while the lobby is within its idle time', () => {
+    assert.deepEqual(getActiveLobby(entries, [], 6, new Date('2026-03-03T00:30:00.000Z')), entries);
+  });
+
+  it('expires the whole lobby once it has been idle too long', () => {
+    assert.deepEqual(getActiveLobby(entries, [], 6, new Date('2026-03-03T01:00:01.000Z')), []);
+  });
+
+  it('counts a started match as activity', () => {
+    const matches = [{ created_at: '2026-03-02T22:00:00.000Z' }, { created_at: '2026-03-02T20:00:00.000Z' }];
+
+    assert.deepEqual(getActiveLobby(entries, matches, 6, new Date('2026-03-03T03:00:00.000Z')), entries);
+    assert.deepEqual(getActiveLobby(entries, matches, 2, new Date('2026-03-03T03:00:00.000Z')), []);
+  });
+
+  it('has nothing to expire when nobody is checked in', () => {
+    assert.deepEqual(getActiveLobby([], [], 6, new Date('2026-03-03T00:00:00.000Z')), []);
+  });
+});
@@ -0,0 +1,28 @@
+import type { LobbyEntry, Match } from '@/types/common.ts';
+
+export const DEFAULT_LOBBY_IDLE_HOURS = 6;
+export const LOBBY_IDLE_HOURS_OPTIONS = [2, 4, 6, 12, 24];
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Check-ins that are still live. The lobby counts as one session that stays alive while people
+ * check in or matches start; once it has been idle for `idleHours` every check-in lapses.
+ *
+ * @param entries   Lobby rows
+ * @param matches   Recent matches, any order (only the newest `created_at` matters)
+ * @param idleHours Idle time after which the whole lobby expires
+ * @param now       Injectable for testing; defaults to now
+ */
+export function getActiveLobby(
+  entries: LobbyEntry[],
+  matches: Pick<Match, 'created_at'>[],
+  idleHours: number,
+  now: Date = new Date(),
+): LobbyEntry[] {
+  const lastActivityMs = Math.max(
+    ...entries.map((e) => new Date(e.checked_in_at).getTime()),
+    ...matches.map((m) => new Date(m.created_at).getTime()),
+  );
+  if (now.getTime() - lastActivityMs > idleHours * HOUR_MS) return [];
+  return entries;
+}
@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { makePlayer } from '@/test/fixtures.ts';
+import { can, roleOf } from '@/utils/permissions.ts';
+
+describe('roleOf', () => {
+  it('tells guests, users without a player, members and admins apart', () => {
+    assert.equal(roleOf(false, null), 'guest');
+    assert.equal(roleOf(true, null), 'user');
+    assert.equal(roleOf(true, makePlayer({ id: 1 })), 'member');
+    assert.equal(roleOf(true, makePlayer({ id: 1, isAdmin: true })), 'admin');
+  });
+
+  it('ignores a player without a session', () => {
+    assert.equal(roleOf(false, makePlayer({ id: 1, isAdmin: true })), 'guest');
+  });
+});
+
+describe('can', () => {
+  it('lets members run matches but not rewrite them', () => {
+    assert.ok(can('member', 'startMatch'));
+    assert.ok(can('member', 'endMatch'));
+    assert.ok(!can('member', 'revertMatch'));
+    assert.ok(!can('member', 'editMatch'));
+  });
+
+  it('keeps admin writes to admins', () => {
+    assert.ok(!can('member', 'editPairings'));
+    assert.ok(!can('member', 'moderateFeedback'));
+    assert.ok(can('admin', 'editPairings'));
+    assert.ok(can('admin', 'moderateFeedback'));
+  });
+
+  it('leaves guests read-only', () => {
+    assert.ok(!can('guest', 'startMatch'));
+    assert.ok(!can('guest', 'checkIn'));
+    assert.ok(!can('guest', 'claimPlayer'));
+  });
+
+  it('only lets users without a player claim one', () => {
+    assert.ok(can('user', 'claimPlayer'));
+    assert.ok(!can('member', 'claimPlayer'));
+    assert.ok(!can('admin', 'claimPlayer'));
+  });
+});
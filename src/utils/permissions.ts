@@ -0,0 +1,65 @@
+import type { Player } from '../types/common.ts';
+
+// Shared by the UI and the api/ endpoints, so it only imports types and relative paths. The
+// database enforces the same rules with row-level security (20261019200000_row_level_security.sql).
+
+/**
+ * - guest: signed out, read-only
+ * - user: signed in without a player, may claim one and post feedback
+ * - member: signed in as a player, runs the evening (lobby, matches) and edits their profile
+ * - admin: everything else (ratings, pairings, seasons, settings, moderation)
+ */
+export type Role = 'guest' | 'user' | 'member' | 'admin';
+
+export type Action =
+  | 'claimPlayer'
+  | 'postFeedback'
+  | 'editProfile'
+  | 'checkIn'
+  | 'startMatch'
+  | 'endMatch'
+  | 'cancelMatch'
+  | 'revertMatch'
+  | 'editMatch'
+  | 'editPairings'
+  | 'moderateFeedback'
+  | 'adjustElo'
+  | 'manageSeasons'
+  | 'editSettings';
+
+const RANK: Record<Role, number> = { guest: 0, user: 1, member: 2, admin: 3 };
+
+/** Least role allowed to take each action. */
+export const REQUIRED_ROLE: Record<Action, Role> = {
+  claimPlayer: 'user',
+  postFeedback: 'user',
+  editProfile: 'member',
+  checkIn: 'member',
+  startMatch: 'member',
+  endMatch: 'member',
+  cancelMatch: 'member',
+  revertMatch: 'admin',
+  editMatch: 'admin',
+  editPairings: 'admin',
+  moderateFeedback: 'admin',
+  adjustElo: 'admin',
+  manageSeasons: 'admin',
+  editSettings: 'admin',
+};
+
+/**
+ * @param signedIn Whether there is a session at all
+ * @param player   The signed-in user's player, if they have claimed one
+ */
+export function roleOf(signedIn: boolean, player: Pick<Player, 'isAdmin'> | null | undefined): Role {
+  if (!signedIn) return 'guest';
+  if (!player) return 'user';
+  return player.isAdmin ? 'admin' : 'member';
+}
+
+export function can(role: Role, action: Action): boolean {
+  const required = REQUIRED_ROLE[action];
+  // Claiming is for users who don't have a player yet
+  if (action === 'claimPlayer') return role === required;
+  return RANK[role] >= RANK[required];
+}
@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { makeMatch } from '@/test/fixtures.ts';
+import { replayMatches } from '@/utils/eloReplay.ts';
+import { planPlayerMerge } from '@/utils/playerMerge.ts';
+
+describe('planPlayerMerge', () => {
+  // Player 1 and their duplicate 2 each beat player 3 once
+  const baseline = [
+    { id: 1, elo: 1500, win: 0, total: 0 },
+    { id: 2, elo: 1400, win: 0, total: 0 },
+    { id: 3, elo: 1500, win: 0, total: 0 },
+  ];
+  const { matches, players: ratings } = replayMatches(
+    [
+      makeMatch({
+        id: 1,
+        created_at: '2026-03-02T20:00:00.000Z',
+        team_a_players: [1],
+        team_b_players: [3],
+        result: 'A',
+      }),
+      makeMatch({
+        id: 2,
+        created_at: '2026-03-03T20:00:00.000Z',
+        team_a_players: [2],
+        team_b_players: [3],
+        result: 'A',
+        team_a_elos: [1400],
+      }),
+    ],
+    baseline,
+  );
+  const players = [...ratings.values()];
+
+  it("replays the duplicate's matches from the kept player's rating", () => {
+    const merge = planPlayerMerge(matches, players, 1, 2);
+
+    assert.deepEqual(merge.matches, [
+      { id: 2, team_a_elos: [1513], team_b_elos: [1488], team_a_new_elos: [1525], team_b_new_elos: [1476] },
+    ]);
+    assert.deepEqual(merge.players[0], { id: 1, elo: 1525, win: 2, total: 2 });
+  });
+
+  it("moves opponents' ratings along with the replay", () => {
+    const merge = planPlayerMerge(matches, players, 1, 2);
+
+    assert.deepEqual(merge.players.slice(1), [{ id: 3, elo: 1476, win: 0, total: 2 }]);
+  });
+
+  it('reports the same changes as deltas from the stored rows', () => {
+    const merge = planPlayerMerge(matches, players, 1, 2);
+
+    assert.deepEqual(merge.deltas, [
+      { id: 1, elo: 12, win: 1, total: 1 },
+      { id: 3, elo: 4, win: 0, total: 0 },
+    ]);
+  });
+
+  it('keeps Elo picked up outside the match log', () => {
+    const decayed = players.map((p) => (p.id === 1 ? { ...p, elo: p.elo - 10 } : p));
+
+    assert.equal(planPlayerMerge(matches, decayed, 1, 2).players[0].elo, 1515);
+  });
+
+  it('starts a kept player without matches from their current Elo', () => {
+    const withNewcomer = [...players, { id: 4, elo: 1600, win: 0, total: 0 }];
+    const merge = planPlayerMerge(matches, withNewcomer, 4, 2);
+
+    assert.equal(merge.matches[0].team_a_elos[0], 1600);
+    assert.equal(merge.players[0].total, 1);
+  });
+
+  it('plans nothing for an unknown player or a merge into itself', () => {
+    assert.deepEqual(planPlayerMerge(matches, players, 1, 99), { matches: [], players: [], deltas: [] });
+    assert.deepEqual(planPlayerMerge(matches, players, 1, 1), { matches: [], players: [], deltas: [] });
+  });
+});
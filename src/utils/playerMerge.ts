@@ -0,0 +1,68 @@
+import type { Match } from '@/types/common.ts';
+import { reconcileReplays, seasonAnchors, type PlayerRating } from '@/utils/eloReplay.ts';
+
+export type MatchElos = Pick<Match, 'id' | 'team_a_elos' | 'team_b_elos' | 'team_a_new_elos' | 'team_b_new_elos'>;
+
+export interface PlayerMerge {
+  /** Season matches whose stored Elos move once both records are one history. */
+  matches: MatchElos[];
+  /** New ratings for the kept player and anyone whose Elo moved with them. */
+  players: PlayerRating[];
+  /** The same changes as differences from the stored rows, for merge_players to add under a row lock. */
+  deltas: PlayerRating[];
+}
+
+/**
+ * Works out the ratings after folding `removeId` into `keepId` by replaying the season with
+ * both records as one player. The kept player starts from their own first pre-match Elo of the
+ * season (or their current Elo if they haven't played), and the duplicate's starting Elo is
+ * dropped. Slots keep their position, so each carries over whatever its stored Elo had on top of
+ * the replay from the player who held it; see reconcileReplays.
+ *
+ * @param matches  All matches of the current season
+ * @param players  Current player rows, both of the merged players included
+ * @param keepId   The player that stays
+ * @param removeId The duplicate that is deleted
+ */
+export function planPlayerMerge(
+  matches: Match[],
+  players: PlayerRating[],
+  keepId: number,
+  removeId: number,
+): PlayerMerge {
+  const keep = players.find((p) => p.id === keepId);
+  if (!keep || !players.some((p) => p.id === removeId) || keepId === removeId) {
+    return { matches: [], players: [], deltas: [] };
+  }
+
+  const remap = (ids: number[]) => ids.map((id) => (id === removeId ? keepId : id));
+  const merged = matches.map((m) => ({
+    ...m,
+    team_a_players: remap(m.team_a_players),
+    team_b_players: remap(m.team_b_players),
+  }));
+
+  const anchors = seasonAnchors(matches);
+  const mergedBaseline = [
+    { id: keepId, elo: anchors.get(keepId)?.elo ?? keep.elo, win: 0, total: 0 },
+    ...[...anchors.values()].filter((p) => p.id !== keepId && p.id !== removeId),
+  ];
+
+  const result = reconcileReplays(matches, merged, players, {
+    baseline: [...anchors.values()],
+    rewrittenBaseline: mergedBaseline,
+    merge: { keepId, removeId },
+  });
+
+  return {
+    matches: result.matches.map(({ id, team_a_elos, team_b_elos, team_a_new_elos, team_b_new_elos }) => ({
+      id,
+      team_a_elos,
+      team_b_elos,
+      team_a_new_elos,
+      team_b_new_elos,
+    })),
+    players: result.players,
+    deltas: result.deltas,
+  };
+}
@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { makePlayer } from '@/test/fixtures.ts';
+import {
+  MAX_FAVORITE_CHAMPIONS,
+  RANKS,
+  RANK_ELO,
+  RANK_PRIOR_GAMES,
+  formatIngame,
+  parseFavoriteChampions,
+  parseIngame,
+  rankElo,
+  withRankPrior,
+} from '@/utils/profile.ts';
+
+describe('parseIngame', () => {
+  it('splits a Riot ID on its last #', () => {
+    assert.deepEqual(parseIngame('  Faker  #KR1 '), { name: 'Faker', tag: 'KR1' });
+    assert.deepEqual(parseIngame('Mid  or feed#EUW'), { name: 'Mid or feed', tag: 'EUW' });
+  });
+
+  it('rejects names and tags of the wrong length or without a tag', () => {
+    assert.equal(parseIngame('Faker'), null);
+    assert.equal(parseIngame('Faker#'), null);
+    assert.equal(parseIngame('Fa#EUW'), null);
+    assert.equal(parseIngame('A name that is too long#EUW'), null);
+    assert.equal(parseIngame('Faker#TOOLONG'), null);
+    assert.equal(parseIngame('Faker#KR-1'), null);
+  });
+
+  it('round-trips through formatIngame', () => {
+    const { name, tag } = parseIngame('Faker#KR1')!;
+
+    assert.equal(formatIngame({ ingame: name, ingame_tag: tag }), 'Faker#KR1');
+    assert.equal(formatIngame({ ingame: 'Faker', ingame_tag: null }), 'Faker');
+    assert.equal(formatIngame({ ingame: null, ingame_tag: null }), null);
+  });
+});
+
+describe('parseFavoriteChampions', () => {
+  it('normalises, drops repeats and caps the list', () => {
+    assert.deepEqual(parseFavoriteChampions('yasuo, ahri ,Yasuo,, lee sin, jinx'), ['Yasuo', 'Ahri', 'Lee Sin']);
+    assert.equal(parseFavoriteChampions('a, b, c, d, e').length, MAX_FAVORITE_CHAMPIONS);
+    assert.deepEqual(parseFavoriteChampions(' '), []);
+  });
+});
+
+describe('rankElo', () => {
+  it('spreads the ranks over the range, lowest first', () => {
+    assert.equal(rankElo(RANKS[0]), RANK_ELO.lowest);
+    assert.equal(rankElo('Sovereign'), RANK_ELO.highest);
+    assert.ok(rankElo('Gold I')! > rankElo('Gold II')!);
+    assert.equal(rankElo('Wood V'), null);
+  });
+});
+
+describe('withRankPrior', () => {
+  it('pulls new players halfway towards their rank', () => {
+    const player = makePlayer({ id: 1, elo: 1500, rank: 'Sovereign', total: 0 });
+
+    assert.equal(withRankPrior(player), 1500 + (RANK_ELO.highest - 1500) / 2);
+  });
+
+  it('fades out as the player gets games in', () => {
+    const halfway = makePlayer({ id: 1, elo: 1500, rank: 'Sovereign', total: RANK_PRIOR_GAMES / 2 });
+    const settled = makePlayer({ id: 1, elo: 1500, rank: 'Sovereign', total: RANK_PRIOR_GAMES });
+
+    assert.equal(withRankPrior(halfway), 1500 + (RANK_ELO.highest - 1500) / 4);
+    assert.equal(withRankPrior(settled), 1500);
+  });
+
+  it('leaves players without a rank alone', () => {
+    assert.equal(withRankPrior(makePlayer({ id: 1, elo: 1420 })), 1420);
+  });
+});
@@ -0,0 +1,82 @@
+import type { Player } from '@/types/common.ts';
+import { normalizeChampion } from '@/utils/champions.ts';
+
+// The database checks the same limits (20261019220000_player_profile.sql)
+
+// Riot IDs are a 3–16 character name and a 3–5 letter or digit tag, written Name#TAG
+export const INGAME_NAME_LENGTH = { min: 3, max: 16 };
+const INGAME_TAG = /^[A-Za-z0-9]{3,5}$/;
+
+export const MAX_FAVORITE_CHAMPIONS = 3;
+export const BIO_MAX_LENGTH = 500;
+
+const DIVIDED_TIERS = ['Iron', 'Bronze', 'Silver', 'Gold', 'Platinum', 'Emerald', 'Diamond'];
+const DIVISIONS = ['IV', 'III', 'II', 'I'];
+const APEX_TIERS = ['Master', 'Grandmaster', 'Challenger', 'Sovereign'];
+
+/** Every Wild Rift solo-queue rank, lowest first. */
+export const RANKS: readonly string[] = [
+  ...DIVIDED_TIERS.flatMap((tier) => DIVISIONS.map((division) => `${tier} ${division}`)),
+  ...APEX_TIERS,
+];
+
+// Ranks are spread evenly over this range when they stand in for Elo
+export const RANK_ELO = { lowest: 1300, highest: 1700 };
+
+// Until a player has this many games in the season their Elo says little, so balancing leans on
+// their solo-queue rank too: half and half at zero games, fading out over those games
+export const RANK_PRIOR_GAMES = 10;
+const RANK_PRIOR_WEIGHT = 0.5;
+
+export function isRank(value: string): boolean {
+  return RANKS.includes(value);
+}
+
+/** "Gold II" → "Gold", for grouping and colouring. */
+export function rankTier(rank: string): string {
+  return rank.split(' ')[0];
+}
+
+/** Splits a Riot ID into name and tag, or null if it isn't one. */
+export function parseIngame(value: string): { name: string; tag: string } | null {
+  const at = value.lastIndexOf('#');
+  if (at === -1) return null;
+  const name = value.slice(0, at).trim().replace(/\s+/g, ' ');
+  const tag = value.slice(at + 1).trim();
+  if (name.length < INGAME_NAME_LENGTH.min || name.length > INGAME_NAME_LENGTH.max || name.includes('#')) return null;
+  if (!INGAME_TAG.test(tag)) return null;
+  return { name, tag };
+}
+
+export function formatIngame(player: Pick<Player, 'ingame' | 'ingame_tag'>): string | null {
+  if (!player.ingame) return null;
+  return player.ingame_tag ? `${player.ingame}#${player.ingame_tag}` : player.ingame;
+}
+
+/** Comma-separated champion names, normalised, without repeats and capped at the maximum. */
+export function parseFavoriteChampions(value: string): string[] {
+  const champions = value.split(',').flatMap((name) => normalizeChampion(name) ?? []);
+  return [...new Set(champions)].slice(0, MAX_FAVORITE_CHAMPIONS);
+}
+
+export function rankElo(rank: string): number | null {
+  const index = RANKS.indexOf(rank);
+  if (index === -1) return null;
+  return Math.round(RANK_ELO.lowest + ((RANK_ELO.highest - RANK_ELO.lowest) * index) / (RANKS.length - 1));
+}
+
+/**
+ * Elo to balance teams with, pulled towards the player's rank while they have few games.
+ *
+ * @param priorGames Games after which the rank no longer counts
+ */
+export function withRankPrior(
+  player: Pick<Player, 'elo'> & Partial<Pick<Player, 'rank' | 'total'>>,
+  priorGames = RANK_PRIOR_GAMES,
+): number {
+  const prior = player.rank ? rankElo(player.rank) : null;
+  const games = player.total ?? 0;
+  if (prior === null || games >= priorGames) return player.elo;
+  const weight = RANK_PRIOR_WEIGHT * (1 - games / priorGames);
+  return Math.round(player.elo + (prior - player.elo) * weight);
+}
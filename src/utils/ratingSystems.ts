@@ -0,0 +1,111 @@
+import { mean } from 'es-toolkit';
+import type { Match, Player } from '@/types/common.ts';
+import { getExpected, getKFactor } from '@/utils/elo.ts';
+import { INITIAL_ELO } from '@/utils/leaderboardStats.ts';
+import { sortChronologically } from '@/utils/eloReplay.ts';
+import glicko2 from '@/utils/glicko2.ts';
+import trueskill from '@/utils/trueskill.ts';
+
+export type RatingSystemId = 'elo' | 'glicko2' | 'trueskill';
+
+export interface RatingState {
+  /** Skill estimate on the Elo scale (INITIAL_ELO is the baseline in every system). */
+  rating: number;
+  /** Uncertainty of `rating`: Glicko rating deviation or TrueSkill sigma. Always 0 for Elo. */
+  deviation: number;
+  /** Glicko-2 volatility; 0 for the other systems. */
+  volatility: number;
+  /** Completed matches rated so far. */
+  games: number;
+}
+
+export interface RatingSystem {
+  id: RatingSystemId;
+  label: string;
+  initial: () => RatingState;
+  /** New states for both teams after a completed match, in the same order. */
+  rate: (teamA: RatingState[], teamB: RatingState[], result: 'A' | 'B') => [RatingState[], RatingState[]];
+  /** Pre-match probability that team A wins. */
+  winProbability: (teamA: RatingState[], teamB: RatingState[]) => number;
+  /** Too uncertain to rank yet. */
+  isProvisional: (state: RatingState) => boolean;
+}
+
+export interface PlayerRatingState extends RatingState {
+  id: number;
+  win: number;
+  total: number;
+}
+
+/**
+ * Elo with the same math as calculateMatchResult: each player is rated against the opposing
+ * team's mean Elo. The K-factor schedule is injectable so alternatives can be backtested.
+ */
+export function createElo(kFactor: (totalGames: number) => number = getKFactor): RatingSystem {
+  return {
+    id: 'elo',
+    label: 'Elo',
+    initial: () => ({ rating: INITIAL_ELO, deviation: 0, volatility: 0, games: 0 }),
+    rate: (teamA, teamB, result) => {
+      const meanA = mean(teamA.map((s) => s.rating));
+      const meanB = mean(teamB.map((s) => s.rating));
+      const update = (state: RatingState, opponentMean: number, actual: number): RatingState => ({
+        ...state,
+        rating: Math.round(state.rating + kFactor(state.games) * (actual - getExpected(state.rating, opponentMean))),
+        games: state.games + 1,
+      });
+      return [
+        teamA.map((s) => update(s, meanB, result === 'A' ? 1 : 0)),
+        teamB.map((s) => update(s, meanA, result === 'B' ? 1 : 0)),
+      ];
+    },
+    winProbability: (teamA, teamB) => getExpected(mean(teamA.map((s) => s.rating)), mean(teamB.map((s) => s.rating))),
+    isProvisional: (state) => state.games === 0,
+  };
+}
+
+const elo = createElo();
+
+export const RATING_SYSTEMS: Record<RatingSystemId, RatingSystem> = { elo, glicko2, trueskill };
+
+export const DEFAULT_RATING_SYSTEM: RatingSystemId = 'elo';
+
+export function isRatingSystemId(value: unknown): value is RatingSystemId {
+  return typeof value === 'string' && value in RATING_SYSTEMS;
+}
+
+/**
+ * Runs a rating system over a match history, oldest first, skipping matches that
+ * did not finish with a winner.
+ *
+ * @param system  The rating system to apply
+ * @param matches Matches in any order
+ * @param players Players to include even if they have no completed match
+ */
+export function rateMatches(
+  system: RatingSystem,
+  matches: Match[],
+  players: Pick<Player, 'id'>[] = [],
+): Map<number, PlayerRatingState> {
+  const states = new Map<number, PlayerRatingState>();
+  const stateOf = (id: number) => states.get(id) ?? { id, ...system.initial(), win: 0, total: 0 };
+
+  players.forEach((p) => states.set(p.id, stateOf(p.id)));
+
+  sortChronologically(matches.filter((m) => m.result === 'A' || m.result === 'B')).forEach((m) => {
+    const teamA = m.team_a_players.map(stateOf);
+    const teamB = m.team_b_players.map(stateOf);
+    const [nextA, nextB] = system.rate(teamA, teamB, m.result as 'A' | 'B');
+
+    nextA.forEach((s, i) => {
+      const prev = teamA[i];
+      states.set(prev.id, { ...prev, ...s, win: prev.win + (m.result === 'A' ? 1 : 0), total: prev.total + 1 });
+    });
+    nextB.forEach((s, i) => {
+      const prev = teamB[i];
+      states.set(prev.id, { ...prev, ...s, win: prev.win + (m.result === 'B' ? 1 : 0), total: prev.total + 1 });
+    });
+  });
+
+  return states;
+}
@@ -0,0 +1,92 @@
+import type { Player } from '@/types/common.ts';
+
+export const ROLES = ['Baron', 'Jungle', 'Mid', 'Dragon', 'Support'] as const;
+export type Role = (typeof ROLES)[number];
+
+// Share of a player's Elo they're worth on a lane, by comfort. Players who haven't recorded any
+// roles are treated as comfortable everywhere, so balancing falls back to plain Elo for them.
+const ROLE_COMFORT = {
+  preferred: 1,
+  secondary: 0.97,
+  offRole: 0.9,
+};
+
+export type RolePlayer = Pick<Player, 'id' | 'preferred_roles' | 'secondary_roles'>;
+
+export interface RoleAssignment {
+  roles: Map<number, Role>;
+  /** Sum of the given Elos, each weighted by the player's comfort on their assigned lane. */
+  strength: number;
+  /** Players stuck on a lane that is neither preferred nor secondary. */
+  offRole: number;
+}
+
+export function isRole(value: string): value is Role {
+  return (ROLES as readonly string[]).includes(value);
+}
+
+function comfortOn(player: RolePlayer, role: Role): number {
+  if (!player.preferred_roles.length && !player.secondary_roles.length) return ROLE_COMFORT.preferred;
+  if (player.preferred_roles.includes(role)) return ROLE_COMFORT.preferred;
+  if (player.secondary_roles.includes(role)) return ROLE_COMFORT.secondary;
+  return ROLE_COMFORT.offRole;
+}
+
+export function isOffRole(player: RolePlayer, role: Role): boolean {
+  return comfortOn(player, role) === ROLE_COMFORT.offRole;
+}
+
+/**
+ * Gives every player on a team a distinct lane, maximising comfort-weighted Elo (fewest
+ * off-role players on ties). Teams larger than the number of lanes get no lanes.
+ *
+ * @param team Players on one side
+ * @param elos Elo to weight per player, in the same order (e.g. effective balancing Elo)
+ */
+export function assignRoles(team: RolePlayer[], elos: number[]): RoleAssignment {
+  const plainStrength = elos.reduce((sum, elo) => sum + elo, 0);
+  if (team.length > ROLES.length) return { roles: new Map(), strength: plainStrength, offRole: 0 };
+
+  // Comfort of every player on every lane, looked up instead of recomputed at each search step
+  const comfort = team.map((player) => ROLES.map((role) => comfortOn(player, role)));
+  const taken = ROLES.map(() => false);
+  // Most each player could still add, for cutting off branches that can't beat the best so far
+  const ceiling = comfort.map((row, i) => elos[i] * Math.max(...row));
+  const remaining = ceiling.map((_, i) => ceiling.slice(i).reduce((sum, c) => sum + c, 0));
+  const lanes: number[] = [];
+
+  let best: { lanes: number[]; strength: number; offRole: number } = { lanes: [], strength: -Infinity, offRole: 0 };
+
+  const search = (index: number, strength: number, offRole: number) => {
+    if (index === team.length) {
+      if (strength > best.strength || (strength === best.strength && offRole < best.offRole)) {
+        best = { lanes: [...lanes], strength, offRole };
+      }
+      return;
+    }
+    const bound = strength + remaining[index];
+    if (bound < best.strength || (bound === best.strength && offRole >= best.offRole)) return;
+    for (let lane = 0; lane < ROLES.length; lane += 1) {
+      if (!taken[lane]) {
+        const laneComfort = comfort[index][lane];
+        taken[lane] = true;
+        lanes.push(lane);
+        search(
+          index + 1,
+          strength + elos[index] * laneComfort,
+          offRole + (laneComfort === ROLE_COMFORT.offRole ? 1 : 0),
+        );
+        lanes.pop();
+        taken[lane] = false;
+      }
+    }
+  };
+
+  search(0, 0, 0);
+
+  return {
+    roles: new Map(team.map((p, i) => [p.id, ROLES[best.lanes[i]]])),
+    strength: best.strength,
+    offRole: best.offRole,
+  };
+}
@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { makePlayer, playedMatch } from '@/test/fixtures.ts';
+import type { Match } from '@/types/common.ts';
+import { MAX_MATCH_PLAYERS, planRotation } from '@/utils/rotation.ts';
+
+const ids = (entries: { player: { id: number } }[]) => entries.map((e) => e.player.id).sort((a, b) => a - b);
+
+describe('planRotation', () => {
+  // Twelve players checked in a minute apart, in id order
+  const players = Array.from({ length: 12 }, (_, i) => makePlayer({ id: i + 1 }));
+  const lobby = players.map((p, i) => ({
+    player_id: p.id,
+    checked_in_at: new Date(Date.UTC(2026, 2, 2, 18, i)).toISOString(),
+  }));
+
+  // Plays `rounds` matches in a row from whatever the rotation picks, returning who sat out each
+  const playRounds = (rounds: number) => {
+    const matches: Match[] = [];
+    return Array.from({ length: rounds }, (_, round) => {
+      const { playing, benched } = planRotation(players, lobby, matches);
+      const playingIds = playing.map((e) => e.player.id);
+      matches.push(
+        playedMatch(
+          round + 1,
+          new Date(Date.UTC(2026, 2, 2, 19 + round)),
+          playingIds.slice(0, 5),
+          playingIds.slice(5),
+          'A',
+        ),
+      );
+      return ids(benched);
+    });
+  };
+
+  it('benches the last to check in before anyone has played', () => {
+    const { playing, benched } = planRotation(players, lobby, []);
+
+    assert.equal(playing.length, MAX_MATCH_PLAYERS);
+    assert.deepEqual(ids(benched), [11, 12]);
+  });
+
+  it('plays whoever sat out last time', () => {
+    const [first, second] = playRounds(2);
+
+    assert.deepEqual(first, [11, 12]);
+    assert.ok(second.every((id) => !first.includes(id)));
+  });
+
+  it('sits everyone out once before anyone sits out twice', () => {
+    const benched = playRounds(6).flat();
+
+    assert.deepEqual(
+      [...benched].sort((a, b) => a - b),
+      players.map((p) => p.id),
+    );
+  });
+
+  it('plays everyone when there are fewer than a full match', () => {
+    const few = players.slice(0, 6);
+    const { playing, benched } = planRotation(few, lobby.slice(0, 6), []);
+
+    assert.deepEqual(ids(playing), [1, 2, 3, 4, 5, 6]);
+    assert.deepEqual(benched, []);
+  });
+
+  it('fills a smaller format from the same queue', () => {
+    const { playing, benched } = planRotation(players, lobby, [], 4);
+
+    assert.deepEqual(ids(playing), [1, 2, 3, 4]);
+    assert.equal(benched.length, 8);
+  });
+});
@@ -0,0 +1,63 @@
+import { orderBy } from 'es-toolkit';
+import type { LobbyEntry, Match, Player } from '@/types/common.ts';
+
+export const MAX_MATCH_PLAYERS = 10;
+
+export interface QueueEntry {
+  player: Player;
+  /** Matches this player played (or is playing) since the session started. */
+  played: number;
+  /** Matches played while this player was checked in but not in them. */
+  satOut: number;
+  satOutLast: boolean;
+}
+
+export interface Rotation {
+  playing: QueueEntry[];
+  /** Players sitting out the next match, first in line for the one after. */
+  benched: QueueEntry[];
+}
+
+/**
+ * Picks who plays the next match when more players are checked in than fit. Anyone who sat
+ * out the previous match plays; the remaining spots go to whoever has sat out the most, then
+ * played the least, then checked in first.
+ *
+ * @param available Checked-in players
+ * @param lobby     Their lobby rows (check-in times)
+ * @param matches   Matches in any order; completed and in-progress ones since the earliest check-in count
+ * @param size      Players per match
+ */
+export function planRotation(
+  available: Player[],
+  lobby: LobbyEntry[],
+  matches: Match[],
+  size: number = MAX_MATCH_PLAYERS,
+): Rotation {
+  const checkedInAt = new Map(lobby.map((e) => [e.player_id, e.checked_in_at]));
+  const sessionStart = lobby.map((e) => e.checked_in_at).sort()[0] ?? '';
+
+  const session = orderBy(
+    matches.filter((m) => (m.result === null || m.result === 'A' || m.result === 'B') && m.created_at >= sessionStart),
+    [(m) => m.created_at],
+    ['asc'],
+  );
+  const last = session.at(-1);
+  const inMatch = (m: Match, id: number) => m.team_a_players.includes(id) || m.team_b_players.includes(id);
+
+  const entries = available.map((player) => {
+    const since = checkedInAt.get(player.id) ?? sessionStart;
+    const played = session.filter((m) => inMatch(m, player.id)).length;
+    const satOut = session.filter((m) => m.created_at >= since && !inMatch(m, player.id)).length;
+    const satOutLast = !!last && last.created_at >= since && !inMatch(last, player.id);
+    return { player, played, satOut, satOutLast };
+  });
+
+  const queue = orderBy(
+    entries,
+    [(e) => (e.satOutLast ? 0 : 1), (e) => -e.satOut, (e) => e.played, (e) => checkedInAt.get(e.player.id) ?? ''],
+    ['asc', 'asc', 'asc', 'asc'],
+  );
+
+  return { playing: queue.slice(0, size), benched: queue.slice(size) };
+}
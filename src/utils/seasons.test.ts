@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { makePlayer } from '@/test/fixtures.ts';
+import { resetPlayers } from '@/utils/seasons.ts';
+
+describe('resetPlayers', () => {
+  // 1 and 2 played last season around a mean of 1500; 3 sat it out
+  const players = [
+    makePlayer({ id: 1, elo: 1600, win: 7, total: 10 }),
+    makePlayer({ id: 2, elo: 1400, win: 3, total: 10 }),
+    makePlayer({ id: 3, elo: 1700, win: 0, total: 0 }),
+  ];
+
+  it('starts everyone from the initial Elo on a hard reset', () => {
+    assert.deepEqual(resetPlayers(players, 'hard'), [
+      { id: 1, elo: 1500, win: 0, total: 0 },
+      { id: 2, elo: 1500, win: 0, total: 0 },
+      { id: 3, elo: 1500, win: 0, total: 0 },
+    ]);
+  });
+
+  it('pulls active players halfway toward their mean on a soft reset', () => {
+    assert.deepEqual(resetPlayers(players, 'soft'), [
+      { id: 1, elo: 1550, win: 0, total: 0 },
+      { id: 2, elo: 1450, win: 0, total: 0 },
+      { id: 3, elo: 1700, win: 0, total: 0 },
+    ]);
+  });
+
+  it('rounds the soft reset to whole Elo', () => {
+    const uneven = players.map((p) => (p.id === 1 ? { ...p, elo: 1601 } : p));
+
+    assert.deepEqual(
+      resetPlayers(uneven, 'soft').map((p) => p.elo),
+      [1551, 1450, 1700],
+    );
+  });
+
+  it('keeps every Elo but clears the records on carry over', () => {
+    assert.deepEqual(resetPlayers(players, 'carry'), [
+      { id: 1, elo: 1600, win: 0, total: 0 },
+      { id: 2, elo: 1400, win: 0, total: 0 },
+      { id: 3, elo: 1700, win: 0, total: 0 },
+    ]);
+  });
+});
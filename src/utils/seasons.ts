@@ -0,0 +1,42 @@
+import { mean } from 'es-toolkit';
+import type { Player } from '@/types/common.ts';
+import { INITIAL_ELO } from '@/utils/leaderboardStats.ts';
+
+export type ResetPolicy = 'hard' | 'soft' | 'carry';
+
+export const RESET_POLICIES: Record<ResetPolicy, string> = {
+  hard: `Hard reset to ${INITIAL_ELO}`,
+  soft: 'Soft reset toward the mean',
+  carry: 'Carry over Elo',
+};
+
+// A soft reset keeps this share of each player's distance from the mean of last season's field
+const SOFT_RESET_KEEP = 0.5;
+
+/** What start_season freezes into `season.players` when a season closes. */
+export type SeasonSnapshotEntry = Pick<Player, 'id' | 'elo' | 'win' | 'total' | 'hidden'>;
+
+export function isResetPolicy(value: string): value is ResetPolicy {
+  return value in RESET_POLICIES;
+}
+
+/**
+ * Starting Elo for every player in the next season. Win/loss records always start from zero;
+ * only players who played last season pull the soft-reset mean. start_season applies the same
+ * rules in SQL, on the locked player rows.
+ *
+ * @param players Players as they stand when the season closes
+ * @param policy  How much of last season's Elo to keep
+ */
+export function resetPlayers(players: Player[], policy: ResetPolicy): Pick<Player, 'id' | 'elo' | 'win' | 'total'>[] {
+  const active = players.filter((p) => p.total > 0);
+  const fieldMean = active.length ? mean(active.map((p) => p.elo)) : INITIAL_ELO;
+
+  const nextElo = (p: Player) => {
+    if (policy === 'hard') return INITIAL_ELO;
+    if (policy === 'soft' && p.total > 0) return Math.round(fieldMean + (p.elo - fieldMean) * SOFT_RESET_KEEP);
+    return p.elo;
+  };
+
+  return players.map((p) => ({ id: p.id, elo: nextElo(p), win: 0, total: 0 }));
+}
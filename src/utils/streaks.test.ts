@@ -0,0 +1,47 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { playedMatch } from '@/test/fixtures.ts';
+import { computeStreaks } from '@/utils/streaks.ts';
+
+// Oldest first, as computeStreaks expects; player 1 is always on Team A
+const series = (results: ('A' | 'B')[]) =>
+  results.map((result, i) => playedMatch(i + 1, `2026-02-0${i + 1}T20:00:00.000Z`, [1], [2], result));
+
+describe('computeStreaks', () => {
+  it('starts a streak at three in a row', () => {
+    assert.deepEqual(computeStreaks(series(['A', 'A'])), {});
+    assert.deepEqual(computeStreaks(series(['A', 'A', 'A'])), {
+      1: { type: 'fire', count: 3 },
+      2: { type: 'ice', count: 3 },
+    });
+  });
+
+  it('resets on the first result the other way', () => {
+    assert.deepEqual(computeStreaks(series(['A', 'A', 'A', 'A', 'B', 'B'])), {});
+    assert.deepEqual(computeStreaks(series(['A', 'A', 'A', 'B', 'B', 'B', 'B'])), {
+      1: { type: 'ice', count: 4 },
+      2: { type: 'fire', count: 4 },
+    });
+  });
+
+  it('skips matches that were not played out', () => {
+    const matches = series(['A', 'A', 'A']);
+    matches.splice(1, 0, { ...playedMatch(9, '2026-02-01T21:00:00.000Z', [2], [1], 'A'), result: 'Cancelled' });
+
+    assert.deepEqual(computeStreaks(matches)[1], { type: 'fire', count: 3 });
+  });
+
+  it('tracks each player separately', () => {
+    const matches = [
+      playedMatch(1, '2026-02-01T20:00:00.000Z', [1, 3], [2, 4], 'A'),
+      playedMatch(2, '2026-02-02T20:00:00.000Z', [1, 4], [2, 3], 'A'),
+      playedMatch(3, '2026-02-03T20:00:00.000Z', [1, 3], [2, 4], 'A'),
+    ];
+    const streaks = computeStreaks(matches);
+
+    assert.deepEqual(streaks[1], { type: 'fire', count: 3 });
+    assert.deepEqual(streaks[2], { type: 'ice', count: 3 });
+    assert.equal(streaks[3], undefined);
+    assert.equal(streaks[4], undefined);
+  });
+});
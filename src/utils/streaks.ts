@@ -7,32 +7,30 @@ export interface Streak {
   count: number;
 }
 
-export function computeStreaks(matches: Match[]): Record<number, Streak> {
-  const finished = matches.filter((m) => m.result === 'A' || m.result === 'B');
-
-  const winStreaks: Record<number, number> = {};
-  const lossStreaks: Record<number, number> = {};
+/** Current run per player id: consecutive wins as a positive count, consecutive losses as a negative one. */
+export type StreakRuns = Map<number, number>;
 
-  finished.forEach((m) => {
-    const winners = m.result === 'A' ? m.team_a_players : m.team_b_players;
-    const losers = m.result === 'A' ? m.team_b_players : m.team_a_players;
+/** Extends every player's run with a completed match. */
+export function recordStreak(runs: StreakRuns, match: Match): void {
+  const winners = match.result === 'A' ? match.team_a_players : match.team_b_players;
+  const losers = match.result === 'A' ? match.team_b_players : match.team_a_players;
 
-    winners.forEach((id) => {
-      winStreaks[id] = (winStreaks[id] ?? 0) + 1;
-      lossStreaks[id] = 0;
-    });
-    losers.forEach((id) => {
-      lossStreaks[id] = (lossStreaks[id] ?? 0) + 1;
-      winStreaks[id] = 0;
-    });
-  });
+  winners.forEach((id) => runs.set(id, Math.max(runs.get(id) ?? 0, 0) + 1));
+  losers.forEach((id) => runs.set(id, Math.min(runs.get(id) ?? 0, 0) - 1));
+}
 
+/** The runs long enough to count as a streak. */
+export function streaksFromRuns(runs: StreakRuns): Record<number, Streak> {
   const result: Record<number, Streak> = {};
-  Object.entries(winStreaks).forEach(([id, count]) => {
-    if (count >= STREAK_THRESHOLD) result[Number(id)] = { type: 'fire', count };
-  });
-  Object.entries(lossStreaks).forEach(([id, count]) => {
-    if (count >= STREAK_THRESHOLD) result[Number(id)] = { type: 'ice', count };
+  runs.forEach((run, id) => {
+    if (run >= STREAK_THRESHOLD) result[id] = { type: 'fire', count: run };
+    if (run <= -STREAK_THRESHOLD) result[id] = { type: 'ice', count: -run };
   });
   return result;
 }
+
+export function computeStreaks(matches: Match[]): Record<number, Streak> {
+  const runs: StreakRuns = new Map();
+  matches.filter((m) => m.result === 'A' || m.result === 'B').forEach((m) => recordStreak(runs, m));
+  return streaksFromRuns(runs);
+}
@@ -0,0 +1,189 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { makePlayer } from '@/test/fixtures.ts';
+import type { Pairing, Player } from '@/types/common.ts';
+import {
+  OFF_ROLE_PENALTY,
+  REPEAT_SPLIT_PENALTY,
+  findTeams,
+  getEffectiveElos,
+  HANDICAP_RATIO,
+} from '@/utils/suggestTeams.ts';
+
+const pool = (elos: number[]) => elos.map((elo, i) => makePlayer({ id: i + 1, elo }));
+
+const pairing = (id: number, player1: number, player2: number, type: 'together' | 'apart'): Pairing => ({
+  id,
+  created_at: '2026-01-01T00:00:00.000Z',
+  player1,
+  player2,
+  type,
+});
+
+const ids = (team: Player[]) => team.map((p) => p.id).sort((a, b) => a - b);
+const sameSide = (teamA: Player[], a: number, b: number) =>
+  teamA.some((p) => p.id === a) === teamA.some((p) => p.id === b);
+
+// Park-Miller, so the local search is repeatable
+function seeded(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 48271) % 2147483647;
+    return (state - 1) / 2147483646;
+  };
+}
+
+describe('getEffectiveElos', () => {
+  it('handicaps players above the mean only', () => {
+    const [low, high] = getEffectiveElos(pool([1400, 1600]));
+
+    assert.equal(low, 1400);
+    assert.equal(high, 1600 + Math.round(100 * HANDICAP_RATIO));
+  });
+
+  it('adjusts for streaks beyond two games', () => {
+    const players = pool([1500, 1500, 1500]);
+    const elos = getEffectiveElos(players, { 1: { type: 'fire', count: 4 }, 2: { type: 'ice', count: 3 } });
+
+    assert.deepEqual(elos, [1510, 1495, 1500]);
+  });
+
+  it('leans on the solo-queue rank of players without games', () => {
+    const players = [makePlayer({ id: 1, elo: 1500, rank: 'Iron IV' }), makePlayer({ id: 2, elo: 1500, total: 30 })];
+
+    assert.deepEqual(getEffectiveElos(players, {}, { handicapRatio: 0 }), [1400, 1500]);
+    assert.deepEqual(getEffectiveElos(players, {}, { handicapRatio: 0, rankPriorGames: 0 }), [1500, 1500]);
+  });
+});
+
+describe('findTeams', () => {
+  const ten = pool([1200, 1250, 1300, 1350, 1400, 1450, 1500, 1550, 1600, 1650]);
+
+  it('returns distinct ranked splits of the right size', () => {
+    const options = findTeams(ten, null);
+
+    assert.equal(options.length, 5);
+    options.forEach((o) => {
+      assert.equal(o.teamA.length, 5);
+      assert.equal(o.teamB.length, 5);
+    });
+    const keys = options.map((o) =>
+      [ids(o.teamA), ids(o.teamB)]
+        .map((t) => t.join(','))
+        .sort()
+        .join('|'),
+    );
+    assert.equal(new Set(keys).size, keys.length);
+    options.slice(1).forEach((o, i) => assert.ok(o.imbalance >= options[i].imbalance));
+  });
+
+  it('keeps "together" pairs on the same team', () => {
+    const pairings = [pairing(1, 1, 10, 'together'), pairing(2, 2, 9, 'together')];
+    const options = findTeams(ten, pairings);
+
+    options.forEach((o) => {
+      assert.ok(sameSide(o.teamA, 1, 10));
+      assert.ok(sameSide(o.teamA, 2, 9));
+      assert.deepEqual(o.unsatisfied, []);
+    });
+  });
+
+  it('keeps "apart" pairs on opposite teams', () => {
+    const pairings = [pairing(1, 9, 10, 'apart'), pairing(2, 1, 2, 'apart')];
+    const options = findTeams(ten, pairings);
+
+    options.forEach((o) => {
+      assert.ok(!sameSide(o.teamA, 9, 10));
+      assert.ok(!sameSide(o.teamA, 1, 2));
+    });
+  });
+
+  it('reports constraints no split can satisfy', () => {
+    // 1 with 2, 2 with 3, but 1 apart from 3: one of the three must give
+    const pairings = [pairing(1, 1, 2, 'together'), pairing(2, 2, 3, 'together'), pairing(3, 1, 3, 'apart')];
+    const [best] = findTeams(ten, pairings);
+
+    assert.equal(best.unsatisfied.length, 1);
+  });
+
+  it('ignores pairings with a player who is not available', () => {
+    const [best] = findTeams(ten, [pairing(1, 1, 99, 'apart')]);
+
+    assert.deepEqual(best.unsatisfied, []);
+  });
+
+  it('penalises repeating a recent split', () => {
+    const [first] = findTeams(ten, null);
+    const recent = [{ team_a_players: ids(first.teamA), team_b_players: ids(first.teamB) }];
+    const options = findTeams(ten, null, {}, recent);
+
+    const repeat = options.find((o) => o.repeatsRecent);
+    assert.ok(!options[0].repeatsRecent);
+    if (repeat) assert.ok(repeat.imbalance >= first.imbalance + REPEAT_SPLIT_PENALTY - 1);
+  });
+
+  // Eight players without recorded roles, comfortable on any lane
+  const flexible = [3, 4, 5, 6, 7, 8, 9, 10].map((id) => makePlayer({ id, elo: 1500 }));
+
+  it('keeps players on their lanes when it costs nothing', () => {
+    // Two support mains: apart, nobody plays off-role
+    const mains = [1, 2].map((id) => makePlayer({ id, elo: 1500, preferred_roles: ['Support'] }));
+    const [best] = findTeams([...mains, ...flexible], null);
+
+    assert.equal(best.offRole.length, 0);
+    assert.ok(!sameSide(best.teamA, 1, 2));
+  });
+
+  it('puts a player off-role rather than accept a large Elo gap', () => {
+    // Keeping both support mains on their lane means one team gets the 2000 and the other the 1000
+    const mains = [
+      makePlayer({ id: 1, elo: 2000, preferred_roles: ['Support'] }),
+      makePlayer({ id: 2, elo: 1000, preferred_roles: ['Support'] }),
+    ];
+    const [best] = findTeams([...mains, ...flexible], null);
+
+    assert.equal(best.offRole.length, 1);
+    assert.ok(sameSide(best.teamA, 1, 2));
+    assert.ok(best.eloGap < 100);
+    assert.ok(best.imbalance >= OFF_ROLE_PENALTY);
+  });
+
+  it('supports smaller formats', () => {
+    [3, 2].forEach((teamSize) => {
+      const [best] = findTeams(ten, null, {}, [], { teamSize });
+
+      assert.equal(best.teamA.length, teamSize);
+      assert.equal(best.teamB.length, teamSize);
+    });
+  });
+
+  it('splits an odd pool as evenly as it can', () => {
+    const [best] = findTeams(pool([1400, 1500, 1600]), null);
+
+    assert.deepEqual([best.teamA.length, best.teamB.length], [2, 1]);
+  });
+
+  it('returns nothing for fewer than two players', () => {
+    assert.deepEqual(findTeams(pool([1500]), null), []);
+  });
+
+  it('picks who plays from a large pool and keeps constraints among them', () => {
+    const twenty = pool(Array.from({ length: 20 }, (_, i) => 1100 + i * 40));
+    const pairings = [pairing(1, 1, 20, 'apart'), pairing(2, 5, 6, 'together')];
+    const options = findTeams(twenty, pairings, {}, [], { exhaustiveLimit: 0, random: seeded(42) });
+
+    assert.ok(options.length > 0);
+    options.forEach((o) => {
+      assert.equal(o.teamA.length + o.teamB.length, 10);
+      assert.deepEqual(o.unsatisfied, []);
+    });
+  });
+
+  it('gets within a few points of the exhaustive optimum with the local search', () => {
+    const twelve = pool([1180, 1230, 1290, 1310, 1395, 1420, 1480, 1525, 1560, 1610, 1690, 1755]);
+    const [exact] = findTeams(twelve, null);
+    const [searched] = findTeams(twelve, null, {}, [], { exhaustiveLimit: 0, random: seeded(7) });
+
+    assert.ok(searched.imbalance - exact.imbalance <= 5);
+  });
+});
@@ -1,115 +1,343 @@
-import { sampleSize } from 'es-toolkit';
-import type { Player, Pairing } from '@/types/common.ts';
+import { mean } from 'es-toolkit';
+import type { Player, Match, Pairing } from '@/types/common.ts';
+import { getWinProbability } from '@/utils/elo.ts';
 import type { Streak } from '@/utils/streaks.ts';
+import { ROLES, assignRoles, isOffRole, type RoleAssignment } from '@/utils/roles.ts';
+import { RANK_PRIOR_GAMES, withRankPrior } from '@/utils/profile.ts';
 
 // Players above the group mean get an effective Elo boost (25% of their gap) for team
 // balancing only. This scales naturally: dominant outliers get a meaningful handicap while
 // players near the mean are barely affected. Stored Elo is never changed.
-const HANDICAP_RATIO = 0.25;
+export const HANDICAP_RATIO = 0.25;
 
 // Streak form adjustment: +/- 5 effective Elo per streak game beyond 2.
 // Hot players get harder matchups, cold players get easier ones.
-const STREAK_ELO_PER_GAME = 5;
+export const STREAK_ELO_PER_GAME = 5;
 const STREAK_THRESHOLD = 2;
 
-export function findTeams(
-  available: Player[],
-  pairings: Pairing[] | null,
-  tolerance: number,
-  streaks: Record<number, Streak> = {},
-): { teamA: Player[]; teamB: Player[] } {
-  const total = Math.min(available.length, 10);
-
-  if (total < 2) {
-    return { teamA: [], teamB: [] };
-  }
-
-  const candidates = sampleSize(available, total);
+export interface EffectiveEloOptions {
+  handicapRatio?: number;
+  streakEloPerGame?: number;
+  /** Games before a player's solo-queue rank stops counting; 0 ignores ranks. */
+  rankPriorGames?: number;
+}
 
-  // Apply handicap: inflate effective Elo for above-average players proportionally to their gap
-  // Apply streak form: hot players treated as stronger, cold players treated as weaker
-  const meanElo = candidates.reduce((sum, p) => sum + p.elo, 0) / candidates.length;
-  const effectiveElos = candidates.map((p) => {
-    const { elo, id } = p;
+// Apply rank prior: players with few games lean on their solo-queue rank
+// Apply handicap: inflate effective Elo for above-average players proportionally to their gap
+// Apply streak form: hot players treated as stronger, cold players treated as weaker
+export function getEffectiveElos(
+  players: (Pick<Player, 'id' | 'elo'> & Partial<Pick<Player, 'rank' | 'total'>>)[],
+  streaks: Record<number, Streak> = {},
+  {
+    handicapRatio = HANDICAP_RATIO,
+    streakEloPerGame = STREAK_ELO_PER_GAME,
+    rankPriorGames = RANK_PRIOR_GAMES,
+  }: EffectiveEloOptions = {},
+): number[] {
+  const baseElos = players.map((p) => withRankPrior(p, rankPriorGames));
+  const meanElo = baseElos.reduce((sum, elo) => sum + elo, 0) / players.length;
+  return players.map(({ id }, i) => {
+    const elo = baseElos[i];
     const gap = elo - meanElo;
-    const gapBonus = gap > 0 ? Math.round(gap * HANDICAP_RATIO) : 0;
+    const gapBonus = gap > 0 ? Math.round(gap * handicapRatio) : 0;
 
     const streak = streaks[id];
     let streakAdj = 0;
     if (streak && streak.count > STREAK_THRESHOLD) {
-      const magnitude = (streak.count - STREAK_THRESHOLD) * STREAK_ELO_PER_GAME;
+      const magnitude = (streak.count - STREAK_THRESHOLD) * streakEloPerGame;
       streakAdj = streak.type === 'fire' ? magnitude : -magnitude;
     }
 
     return elo + gapBonus + streakAdj;
   });
+}
+
+export type PairingType = 'together' | 'apart';
+
+export const PAIRING_TYPES: Record<PairingType, string> = {
+  together: 'Same team',
+  apart: 'Opposite teams',
+};
+
+export function isPairingType(value: string): value is PairingType {
+  return value in PAIRING_TYPES;
+}
+
+// Added to a split's Elo difference when it reproduces the teams of a recent match, so the
+// same split only comes back when nothing else is close
+export const REPEAT_SPLIT_PENALTY = 40;
+
+// Added to a split's Elo difference for every player stuck off their lanes, on top of the comfort
+// weighting, so a lane swap is worth a small Elo gap but never a lopsided game
+export const OFF_ROLE_PENALTY = 25;
+export const AVOID_REPEAT_MATCHES = 5;
+
+export const SUGGESTION_COUNT = 5;
+
+// Players per team for each supported format
+export const TEAM_SIZES = [5, 3, 2] as const;
+export const DEFAULT_TEAM_SIZE = 5;
+
+// Pools whose splits (including who sits out) number more than this are searched with restarted
+// swap hill-climbing instead of enumerated; 10 players for 5v5 is 126 splits, 12 is 8,316
+export const EXHAUSTIVE_LIMIT = 20_000;
+const SEARCH_RESTARTS = 24;
+const MAX_SEARCH_PASSES = 50;
+
+export interface FindTeamsOptions {
+  /** Players per team: 5 for 5v5, 3 for 3v3, 2 for 2v2. */
+  teamSize?: number;
+  /** How many distinct splits to return. */
+  count?: number;
+  exhaustiveLimit?: number;
+  random?: () => number;
+}
+
+export interface TeamSuggestion {
+  teamA: Player[];
+  teamB: Player[];
+  /** Gap between the teams' lane-weighted effective Elo, plus off-role and repeat penalties; lower is fairer. */
+  imbalance: number;
+  /** Gap between the teams' average Elo. */
+  eloGap: number;
+  /** Predicted chance Team A wins. */
+  winProbability: number;
+  /** Pairings among the chosen players that this split breaks. */
+  unsatisfied: Pairing[];
+  /** Players assigned a lane that is neither preferred nor secondary. */
+  offRole: Player[];
+  /** The split is identical to one of the recent matches passed in. */
+  repeatsRecent: boolean;
+}
+
+// Which side each available player is on while searching
+const BENCH = 0;
+const SIDE_A = 1;
+const SIDE_B = 2;
+
+interface ScoredSplit {
+  key: string;
+  a: number[];
+  b: number[];
+  broken: number;
+  imbalance: number;
+}
+
+function compareSplits(x: ScoredSplit, y: ScoredSplit): number {
+  return x.broken - y.broken || x.imbalance - y.imbalance;
+}
+
+function binomial(n: number, k: number): number {
+  let result = 1;
+  for (let i = 1; i <= k; i += 1) result = (result * (n - k + i)) / i;
+  return Math.round(result);
+}
+
+/**
+ * Ranks ways of picking two teams from the available players and returns the best few.
+ * Splits are ordered by broken pairings, then imbalance, which charges OFF_ROLE_PENALTY per
+ * off-role player so lane comfort is weighed against the Elo gap. When more players are
+ * available than the format needs, who sits out is part of the search.
+ *
+ * @param available     Players to pick from
+ * @param pairings      Same-team and opposite-team constraints; only checked when both players play
+ * @param streaks       Current streaks, folded into effective Elo
+ * @param recentMatches Matches whose splits should not come back
+ */
+export function findTeams(
+  available: Player[],
+  pairings: Pairing[] | null,
+  streaks: Record<number, Streak> = {},
+  recentMatches: Pick<Match, 'team_a_players' | 'team_b_players'>[] = [],
+  {
+    teamSize = DEFAULT_TEAM_SIZE,
+    count = SUGGESTION_COUNT,
+    exhaustiveLimit = EXHAUSTIVE_LIMIT,
+    random = Math.random,
+  }: FindTeamsOptions = {},
+): TeamSuggestion[] {
+  const n = available.length;
+  const total = Math.min(n, teamSize * 2);
+
+  if (total < 2) return [];
 
-  const totalElo = effectiveElos.reduce((sum, elo) => sum + elo, 0);
   const sizeA = Math.ceil(total / 2);
-  const target = (totalElo * sizeA) / total;
+  const sizeB = total - sizeA;
+  const mirrored = sizeA === sizeB;
+  const effectiveElos = getEffectiveElos(available, streaks);
+  const useLanes = sizeA === ROLES.length && sizeB === ROLES.length;
 
-  // Build active pairing constraints from candidates
-  const activePairs: [number, number][] = (pairings ?? [])
+  const indexOf = new Map(available.map((p, i) => [p.id, i]));
+  const activePairs = (pairings ?? [])
     .filter((pairing) => pairing.player1 && pairing.player2)
-    .map((pairing) => {
-      const idx1 = candidates.findIndex((p) => p.id === pairing.player1);
-      const idx2 = candidates.findIndex((p) => p.id === pairing.player2);
-      return [idx1, idx2] as [number, number];
-    })
-    .filter(([idx1, idx2]) => idx1 !== -1 && idx2 !== -1);
-
-  let bestDiff = Infinity;
-  let bestChoiceIndexes: number[] = [];
-  const withinTolerance: number[][] = [];
-
-  // DFS to choose exactly `sizeA` players whose Elo sum is closest to `target`
-  const dfs = (index: number, chosenIdxs: number[], chosenSum: number) => {
-    if (chosenIdxs.length === sizeA) {
-      // Enforce pairing constraints: paired players must be on the same team
-      const pairViolation = activePairs.some(([idx1, idx2]) => {
-        const aHas1 = chosenIdxs.includes(idx1);
-        const aHas2 = chosenIdxs.includes(idx2);
-        return aHas1 !== aHas2; // split pair -> invalid
-      });
-      if (pairViolation) return;
+    .map((pairing) => ({
+      pairing,
+      idx1: indexOf.get(pairing.player1!) ?? -1,
+      idx2: indexOf.get(pairing.player2!) ?? -1,
+    }))
+    .filter(({ idx1, idx2 }) => idx1 !== -1 && idx2 !== -1);
 
-      const diff = Math.abs(chosenSum - target);
+  // Recent teams as sorted index keys, so either side matching counts as a repeat
+  const teamKey = (idxs: number[]) => [...idxs].sort((x, y) => x - y).join(',');
+  const recentTeams = new Set(
+    recentMatches
+      .flatMap((m) => [m.team_a_players, m.team_b_players])
+      .filter((ids) => ids.every((id) => indexOf.has(id)))
+      .map((ids) => teamKey(ids.map((id) => indexOf.get(id)!))),
+  );
 
-      if (diff <= tolerance) {
-        withinTolerance.push([...chosenIdxs]);
-      }
-
-      if (diff < bestDiff) {
-        bestDiff = diff;
-        bestChoiceIndexes = [...chosenIdxs];
-      }
-      return;
+  // A team's lanes and strength don't depend on who it plays, so each team is weighed once
+  const teamCache = new Map<string, RoleAssignment>();
+  const weighTeam = (idxs: number[], key: string) => {
+    let weighed = teamCache.get(key);
+    if (!weighed) {
+      const elos = idxs.map((i) => effectiveElos[i]);
+      weighed = useLanes
+        ? assignRoles(
+            idxs.map((i) => available[i]),
+            elos,
+          )
+        : { roles: new Map(), strength: elos.reduce((sum, elo) => sum + elo, 0), offRole: 0 };
+      teamCache.set(key, weighed);
     }
+    return weighed;
+  };
 
-    if (index >= candidates.length) return;
+  const side = new Int8Array(n);
 
-    // Prune: if not enough remaining players to fill Team A
-    const remainingNeeded = sizeA - chosenIdxs.length;
-    const remainingAvailable = candidates.length - index;
-    if (remainingNeeded > remainingAvailable) return;
+  const score = (): ScoredSplit => {
+    const a: number[] = [];
+    const b: number[] = [];
+    for (let i = 0; i < n; i += 1) {
+      if (side[i] === SIDE_A) a.push(i);
+      else if (side[i] === SIDE_B) b.push(i);
+    }
+    const keyA = a.join(',');
+    const keyB = b.join(',');
+
+    // "together" pairs must land on the same side, "apart" pairs on opposite sides
+    const broken = activePairs.filter(({ pairing, idx1, idx2 }) => {
+      if (side[idx1] === BENCH || side[idx2] === BENCH) return false;
+      const sameSide = side[idx1] === side[idx2];
+      return pairing.type === 'apart' ? sameSide : !sameSide;
+    }).length;
 
-    // Option 1: take current index
-    dfs(index + 1, [...chosenIdxs, index], chosenSum + effectiveElos[index]);
+    const teamA = weighTeam(a, keyA);
+    const teamB = weighTeam(b, keyB);
+    const repeat = recentTeams.has(keyA) || recentTeams.has(keyB);
+    const offRole = teamA.offRole + teamB.offRole;
+    const imbalance =
+      Math.abs(teamA.strength - ((teamA.strength + teamB.strength) * sizeA) / total) +
+      offRole * OFF_ROLE_PENALTY +
+      (repeat ? REPEAT_SPLIT_PENALTY : 0);
 
-    // Option 2: skip current index
-    dfs(index + 1, chosenIdxs, chosenSum);
+    return {
+      key: mirrored && keyB < keyA ? `${keyB}|${keyA}` : `${keyA}|${keyB}`,
+      a,
+      b,
+      broken,
+      imbalance,
+    };
   };
 
-  dfs(0, [], 0);
+  // The best `count` distinct splits seen so far, best first
+  const best: ScoredSplit[] = [];
+  const keep = (split: ScoredSplit) => {
+    if (best.length === count && compareSplits(split, best[count - 1]) >= 0) return;
+    if (best.some((s) => s.key === split.key)) return;
+    const at = best.findIndex((s) => compareSplits(split, s) < 0);
+    best.splice(at === -1 ? best.length : at, 0, split);
+    if (best.length > count) best.pop();
+  };
 
-  const pick = withinTolerance.length
-    ? withinTolerance[Math.floor(Math.random() * withinTolerance.length)]
-    : bestChoiceIndexes;
+  const splitCount = binomial(n, sizeA) * binomial(n - sizeA, sizeB) * (mirrored ? 0.5 : 1);
 
-  const chosenSet = new Set(pick);
+  if (splitCount <= exhaustiveLimit) {
+    // Place players one at a time, backtracking in place. With even teams the first player who
+    // plays is always on Team A, so a split and its mirror image aren't both visited.
+    const place = (index: number, leftA: number, leftB: number, leftBench: number) => {
+      if (index === n) {
+        keep(score());
+        return;
+      }
+      const firstPlaying = mirrored && leftA === sizeA && leftB === sizeB;
+      if (leftA > 0) {
+        side[index] = SIDE_A;
+        place(index + 1, leftA - 1, leftB, leftBench);
+      }
+      if (leftB > 0 && !firstPlaying) {
+        side[index] = SIDE_B;
+        place(index + 1, leftA, leftB - 1, leftBench);
+      }
+      if (leftBench > 0) {
+        side[index] = BENCH;
+        place(index + 1, leftA, leftB, leftBench - 1);
+      }
+    };
+    place(0, sizeA, sizeB, n - total);
+  } else {
+    // Restarted hill-climbing: from a random split, keep swapping two players on different sides
+    // (either team or the bench) while that improves the split
+    const order = available.map((_, i) => i);
+    for (let restart = 0; restart < SEARCH_RESTARTS; restart += 1) {
+      for (let i = n - 1; i > 0; i -= 1) {
+        const j = Math.floor(random() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+      }
+      order.forEach((playerIndex, i) => {
+        side[playerIndex] = i < sizeA ? SIDE_A : i < total ? SIDE_B : BENCH;
+      });
 
-  const teamA = candidates.filter((_, i) => chosenSet.has(i));
-  const teamB = candidates.filter((_, i) => !chosenSet.has(i));
+      let current = score();
+      keep(current);
+      let improved = true;
+      for (let pass = 0; improved && pass < MAX_SEARCH_PASSES; pass += 1) {
+        improved = false;
+        for (let i = 0; i < n; i += 1) {
+          for (let j = i + 1; j < n; j += 1) {
+            if (side[i] !== side[j] && (side[i] !== BENCH || side[j] !== BENCH)) {
+              [side[i], side[j]] = [side[j], side[i]];
+              const candidate = score();
+              keep(candidate);
+              if (compareSplits(candidate, current) < 0) {
+                current = candidate;
+                improved = true;
+              } else {
+                [side[i], side[j]] = [side[j], side[i]];
+              }
+            }
+          }
+        }
+      }
+    }
+  }
 
-  return { teamA, teamB };
+  return best.map(({ a, b, imbalance }) => {
+    const teamA = a.map((i) => available[i]);
+    const teamB = b.map((i) => available[i]);
+    const eloA = teamA.map((p) => p.elo);
+    const eloB = teamB.map((p) => p.elo);
+    const playing = new Set([...a, ...b]);
+    const onA = new Set(a);
+    const lanes = new Map([...weighTeam(a, a.join(',')).roles, ...weighTeam(b, b.join(',')).roles]);
+    return {
+      teamA,
+      teamB,
+      imbalance: Math.round(imbalance),
+      eloGap: Math.round(Math.abs(mean(eloA) - mean(eloB))),
+      winProbability: getWinProbability(eloA, eloB),
+      unsatisfied: activePairs
+        .filter(({ pairing, idx1, idx2 }) => {
+          if (!playing.has(idx1) || !playing.has(idx2)) return false;
+          const sameSide = onA.has(idx1) === onA.has(idx2);
+          return pairing.type === 'apart' ? sameSide : !sameSide;
+        })
+        .map(({ pairing }) => pairing),
+      offRole: [...teamA, ...teamB].filter((p) => {
+        const role = lanes.get(p.id);
+        return !!role && isOffRole(p, role);
+      }),
+      repeatsRecent: recentTeams.has(teamKey(a)) || recentTeams.has(teamKey(b)),
+    };
+  });
 }
@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import trueskill, { PROVISIONAL_SIGMA } from '@/utils/trueskill.ts';
+
+const close = (actual: number, expected: number, tolerance: number) =>
+  assert.ok(Math.abs(actual - expected) < tolerance, `${actual} is not within ${tolerance} of ${expected}`);
+
+// The engine runs the usual 25 / 8.33 defaults rescaled so mu starts at 1500
+const SCALE = 1500 / 25;
+
+describe('trueskill', () => {
+  const fresh = trueskill.initial();
+
+  it('matches the reference 1v1 update without draws', () => {
+    // rate_1vs1 with draw_probability=0: winner 29.205 / 7.195, loser 20.795 / 7.195
+    const [[winner], [loser]] = trueskill.rate([fresh], [fresh], 'A');
+
+    close(winner.rating, 29.205 * SCALE, 0.001 * SCALE);
+    close(winner.deviation, 7.195 * SCALE, 0.001 * SCALE);
+    close(loser.rating, 20.795 * SCALE, 0.001 * SCALE);
+    close(loser.deviation, 7.195 * SCALE, 0.001 * SCALE);
+  });
+
+  it('hands the result to the right team when B wins', () => {
+    const [[a], [b]] = trueskill.rate([fresh], [fresh], 'B');
+
+    assert.ok(b.rating > a.rating);
+    assert.equal(a.games, 1);
+  });
+
+  it('gives even teams even odds and favours the stronger side', () => {
+    close(trueskill.winProbability([fresh, fresh], [fresh, fresh]), 0.5, 1e-6);
+    assert.ok(trueskill.winProbability([{ ...fresh, rating: 1800 }], [fresh]) > 0.5);
+  });
+
+  it('treats a rating as provisional until sigma settles', () => {
+    assert.ok(trueskill.isProvisional(fresh));
+    assert.ok(!trueskill.isProvisional({ ...fresh, deviation: PROVISIONAL_SIGMA }));
+  });
+});
@@ -0,0 +1,76 @@
+import type { RatingState, RatingSystem } from '@/utils/ratingSystems.ts';
+import { INITIAL_ELO } from '@/utils/leaderboardStats.ts';
+
+// Two-team TrueSkill (Herbrich et al., 2006) without draws: a team's performance is the sum
+// of its players' skills. The usual 25 / 8.33 defaults are rescaled so mu starts at INITIAL_ELO.
+const MU = INITIAL_ELO;
+const SIGMA = MU / 3;
+const BETA = SIGMA / 2;
+const TAU = SIGMA / 100;
+
+// Sigma shrinks by only a few percent per 5v5 game; 80% of the prior is roughly 10 games in
+export const PROVISIONAL_SIGMA = SIGMA * 0.8;
+
+function pdf(x: number): number {
+  return Math.exp(-(x ** 2) / 2) / Math.sqrt(2 * Math.PI);
+}
+
+// Complementary error function, Numerical Recipes' Chebyshev fit (|error| < 1.2e-7)
+const ERFC_COEFFICIENTS = [
+  -1.26551223, 1.00002368, 0.37409196, 0.09678418, -0.18628806, 0.27886807, -1.13520398, 1.48851587, -0.82215223,
+  0.17087277,
+];
+
+function erfc(x: number): number {
+  const z = Math.abs(x);
+  const t = 1 / (1 + z / 2);
+  const poly = ERFC_COEFFICIENTS.reduceRight((acc, coefficient) => coefficient + t * acc, 0);
+  const r = t * Math.exp(-z * z + poly);
+  return x >= 0 ? r : 2 - r;
+}
+
+function cdf(x: number): number {
+  return erfc(-x / Math.SQRT2) / 2;
+}
+
+function teamMu(team: RatingState[]): number {
+  return team.reduce((sum, s) => sum + s.rating, 0);
+}
+
+function performanceSpread(teamA: RatingState[], teamB: RatingState[]): number {
+  const all = [...teamA, ...teamB];
+  return Math.sqrt(all.reduce((sum, s) => sum + s.deviation ** 2, 0) + all.length * BETA ** 2);
+}
+
+const trueskill: RatingSystem = {
+  id: 'trueskill',
+  label: 'TrueSkill',
+  initial: () => ({ rating: MU, deviation: SIGMA, volatility: 0, games: 0 }),
+  rate: (teamA, teamB, result) => {
+    // Dynamics factor: skills may drift a little between games
+    const [a, b] = [teamA, teamB].map((team) =>
+      team.map((s) => ({ ...s, deviation: Math.sqrt(s.deviation ** 2 + TAU ** 2) })),
+    );
+    const [winners, losers] = result === 'A' ? [a, b] : [b, a];
+
+    const c = performanceSpread(a, b);
+    const t = (teamMu(winners) - teamMu(losers)) / c;
+    const v = pdf(t) / cdf(t);
+    const w = v * (v + t);
+
+    const update = (s: RatingState, sign: 1 | -1): RatingState => ({
+      rating: s.rating + sign * (s.deviation ** 2 / c) * v,
+      deviation: s.deviation * Math.sqrt(Math.max(1 - (s.deviation ** 2 / c ** 2) * w, 0.0001)),
+      volatility: 0,
+      games: s.games + 1,
+    });
+
+    const nextWinners = winners.map((s) => update(s, 1));
+    const nextLosers = losers.map((s) => update(s, -1));
+    return result === 'A' ? [nextWinners, nextLosers] : [nextLosers, nextWinners];
+  },
+  winProbability: (teamA, teamB) => cdf((teamMu(teamA) - teamMu(teamB)) / performanceSpread(teamA, teamB)),
+  isProvisional: (state) => state.deviation > PROVISIONAL_SIGMA,
+};
+
+export default trueskill;
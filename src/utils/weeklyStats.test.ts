@@ -0,0 +1,141 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { makeMatch, makePlayer, playedMatch } from '@/test/fixtures.ts';
+import { computeWeeklyChemistry, computeWeeklyStats, countWeekMatches, getWeekWindow } from '@/utils/weeklyStats.ts';
+
+// Local-time dates, since weeks are cut at local midnight
+const local = (day: number, hour = 20, minute = 0, second = 0, ms = 0) =>
+  new Date(2026, 9, day, hour, minute, second, ms);
+
+// 2026-10-12 is a Monday and 2026-10-18 a Sunday
+const MONDAY = 12;
+const SUNDAY = 18;
+
+describe('getWeekWindow', () => {
+  it('is null without matches', () => {
+    assert.equal(getWeekWindow([]), null);
+  });
+
+  it('runs from Monday 00:00 to Sunday 23:59:59.999', () => {
+    const week = getWeekWindow([playedMatch(1, local(14), [1], [2], 'A')])!;
+
+    assert.equal(week.startTs, local(MONDAY, 0).getTime());
+    assert.equal(week.endTs, local(SUNDAY, 23, 59, 59, 999).getTime());
+  });
+
+  it('keeps a late Sunday match in the week that is ending', () => {
+    const week = getWeekWindow([playedMatch(1, local(SUNDAY, 23, 30), [1], [2], 'A')])!;
+
+    assert.equal(week.startTs, local(MONDAY, 0).getTime());
+  });
+
+  it('starts a new week at Monday midnight', () => {
+    const week = getWeekWindow([playedMatch(1, local(SUNDAY + 1, 0), [1], [2], 'A')])!;
+
+    assert.equal(week.startTs, local(SUNDAY + 1, 0).getTime());
+  });
+
+  it('labels the current week and older ones', () => {
+    assert.equal(getWeekWindow([playedMatch(1, new Date(), [1], [2], 'A')])!.label, 'This Week');
+    assert.equal(getWeekWindow([playedMatch(1, local(14), [1], [2], 'A')])!.label, 'Last Week');
+  });
+});
+
+describe('computeWeeklyStats', () => {
+  const players = [1, 2, 3].map((id) => makePlayer({ id }));
+  const week = getWeekWindow([playedMatch(1, local(14), [1], [2], 'A')])!;
+
+  it('sums Elo changes, wins and losses inside the window', () => {
+    const matches = [
+      makeMatch({
+        id: 1,
+        created_at: local(MONDAY, 0).toISOString(),
+        result: 'A',
+        team_a_players: [1],
+        team_b_players: [2],
+        team_a_elos: [1500],
+        team_b_elos: [1500],
+        team_a_new_elos: [1513],
+        team_b_new_elos: [1488],
+      }),
+      makeMatch({
+        id: 2,
+        created_at: local(SUNDAY, 23, 59, 59, 999).toISOString(),
+        result: 'A',
+        team_a_players: [2],
+        team_b_players: [1],
+        team_a_elos: [1488],
+        team_b_elos: [1513],
+        team_a_new_elos: [1502],
+        team_b_new_elos: [1499],
+      }),
+    ];
+    const stats = computeWeeklyStats(matches, players, week);
+
+    assert.deepEqual(
+      stats.map(({ player, ...rest }) => ({ id: player.id, ...rest })),
+      [
+        { id: 1, eloDelta: -1, wins: 1, losses: 1, total: 2 },
+        { id: 2, eloDelta: 2, wins: 1, losses: 1, total: 2 },
+      ],
+    );
+  });
+
+  it('leaves out matches either side of the window and unfinished ones', () => {
+    const matches = [
+      playedMatch(1, local(MONDAY - 1, 23, 59, 59, 999), [1], [2], 'A'),
+      playedMatch(2, local(SUNDAY + 1, 0), [1], [2], 'A'),
+      { ...playedMatch(3, local(14), [1], [2], 'A'), result: 'Cancelled' },
+      { ...playedMatch(4, local(15), [1], [2], 'A'), result: null },
+    ];
+
+    assert.deepEqual(computeWeeklyStats(matches, players, week), []);
+    assert.equal(countWeekMatches(matches, week), 0);
+  });
+
+  it('adds adjustments in the window to players who played', () => {
+    const matches = [{ ...playedMatch(1, local(14), [1], [2], 'A'), team_a_new_elos: [1500], team_b_new_elos: [1500] }];
+    const adjustments = [
+      { player_id: 1, created_at: local(MONDAY, 0).toISOString(), amount: -10 },
+      { player_id: 1, created_at: local(SUNDAY + 1, 0).toISOString(), amount: -10 },
+      { player_id: 3, created_at: local(15).toISOString(), amount: -10 },
+    ];
+    const stats = computeWeeklyStats(matches, players, week, adjustments);
+
+    assert.deepEqual(
+      stats.map((s) => [s.player.id, s.eloDelta]),
+      [
+        [1, -10],
+        [2, 0],
+      ],
+    );
+  });
+
+  it('drops players that no longer exist', () => {
+    const stats = computeWeeklyStats([playedMatch(1, local(14), [1], [99], 'A')], players, week);
+
+    assert.deepEqual(
+      stats.map((s) => s.player.id),
+      [1],
+    );
+  });
+});
+
+describe('computeWeeklyChemistry', () => {
+  const players = [1, 2, 3, 4].map((id) => makePlayer({ id }));
+  const week = getWeekWindow([playedMatch(1, local(14), [1], [2], 'A')])!;
+
+  it('needs two games together to count a duo', () => {
+    const result = computeWeeklyChemistry([playedMatch(1, local(14), [1, 2], [3, 4], 'A')], players, week);
+
+    assert.deepEqual(result, { good: null, bad: null });
+  });
+
+  it('picks the best and worst duos', () => {
+    const matches = [playedMatch(1, local(13), [1, 2], [3, 4], 'A'), playedMatch(2, local(14), [1, 2], [3, 4], 'A')];
+    const { good, bad } = computeWeeklyChemistry(matches, players, week);
+
+    assert.deepEqual([good?.playerA.id, good?.playerB.id, good?.wins, good?.total], [1, 2, 2, 2]);
+    assert.deepEqual([bad?.playerA.id, bad?.playerB.id, bad?.wins, bad?.total], [3, 4, 0, 2]);
+  });
+});
@@ -1,4 +1,4 @@
-import type { Match, Player } from '@/types/common.ts';
+import type { EloAdjustment, Match, Player } from '@/types/common.ts';
 import dayjs from 'dayjs';
 
 export interface WeekWindow {
@@ -37,8 +37,17 @@ export function getWeekWindow(matches: Match[]): WeekWindow | null {
   return { startTs: monday.valueOf(), endTs: sunday.valueOf(), label };
 }
 
-/** Per-player stats for completed matches within the week window. */
-export function computeWeeklyStats(matches: Match[], players: Player[], week: WeekWindow): PlayerWeekStats[] {
+/**
+ * Per-player stats for completed matches within the week window. Adjustments in the window
+ * (e.g. decay) count towards the Elo delta of players who played that week, unless reverted.
+ */
+export function computeWeeklyStats(
+  matches: Match[],
+  players: Player[],
+  week: WeekWindow,
+  adjustments: (Pick<EloAdjustment, 'player_id' | 'created_at' | 'amount'> &
+    Partial<Pick<EloAdjustment, 'reverted_at'>>)[] = [],
+): PlayerWeekStats[] {
   const weekMatches = matches.filter((m) => {
     const ts = new Date(m.created_at).getTime();
     return ts >= week.startTs && ts <= week.endTs && (m.result === 'A' || m.result === 'B');
@@ -66,6 +75,12 @@ export function computeWeeklyStats(matches: Match[], players: Player[], week: We
     });
   });
 
+  adjustments.forEach((a) => {
+    const ts = new Date(a.created_at).getTime();
+    const s = statMap.get(a.player_id);
+    if (s && !a.reverted_at && ts >= week.startTs && ts <= week.endTs) s.eloDelta += a.amount;
+  });
+
   return Array.from(statMap.entries())
     .map(([pid, s]) => {
       const player = players.find((p) => p.id === pid);
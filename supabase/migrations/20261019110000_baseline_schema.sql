@@ -0,0 +1,64 @@
+-- The tables as they stood before the migrations in this folder, so `supabase start` can build a
+-- local database for `npm run test:db`. Columns and tables added since (lanes, picks, settings, the
+-- match edit log, ...) come from their own migrations. Everything is `if not exists`, so on the
+-- hosted project (where these tables already exist) this is a no-op.
+
+create table if not exists public.player (
+  id bigint generated by default as identity primary key,
+  created_at timestamptz not null default now(),
+  name text not null default '',
+  email text,
+  ingame text,
+  avatar text,
+  elo integer not null default 1500,
+  win integer not null default 0,
+  total integer not null default 0,
+  hidden boolean not null default false,
+  is_decaying boolean not null default false,
+  "isAdmin" boolean not null default false
+);
+
+create table if not exists public.match (
+  id bigint generated by default as identity primary key,
+  created_at timestamptz not null default now(),
+  result text,
+  team_a_players bigint[] not null,
+  team_b_players bigint[] not null,
+  team_a_elos integer[] not null,
+  team_b_elos integer[] not null,
+  team_a_new_elos integer[],
+  team_b_new_elos integer[]
+);
+
+create table if not exists public.pairing (
+  id bigint generated by default as identity primary key,
+  created_at timestamptz not null default now(),
+  player1 bigint constraint "Pairing_player1_fkey" references public.player (id),
+  player2 bigint constraint "Pairing_player2_fkey" references public.player (id)
+);
+
+create table if not exists public.season (
+  id bigint generated by default as identity primary key,
+  created_at timestamptz not null default now(),
+  name text,
+  start timestamptz,
+  "end" timestamptz,
+  players jsonb
+);
+
+
+create table if not exists public.feedback (
+  id bigint generated by default as identity primary key,
+  created_at timestamptz not null default now(),
+  text text not null,
+  status text not null default 'open',
+  user_id uuid,
+  player_id bigint references public.player (id)
+);
+
+create table if not exists public.feedback_vote (
+  id bigint generated by default as identity primary key,
+  created_at timestamptz not null default now(),
+  feedback_id bigint not null references public.feedback (id),
+  user_id uuid not null
+);
@@ -0,0 +1,97 @@
+-- Match state changes used by /api/matches/:id/:action. Each function updates the match and its
+-- players in one transaction, and refuses to run twice: a match that is no longer in the expected
+-- state raises 'P0002' and nothing is written.
+
+create or replace function public.end_match(
+  p_match_id bigint,
+  p_result text,
+  p_team_a_new_elos integer[],
+  p_team_b_new_elos integer[],
+  p_team_a_champions text[] default null,
+  p_team_a_roles text[] default null,
+  p_team_b_champions text[] default null,
+  p_team_b_roles text[] default null
+)
+returns public.match
+language plpgsql
+as $$
+declare
+  m public.match;
+begin
+  if p_result not in ('A', 'B') then
+    raise exception 'Invalid result %', p_result using errcode = '22023';
+  end if;
+
+  update public.match
+     set result = p_result,
+         team_a_new_elos = p_team_a_new_elos,
+         team_b_new_elos = p_team_b_new_elos,
+         team_a_champions = coalesce(p_team_a_champions, team_a_champions),
+         team_a_roles = coalesce(p_team_a_roles, team_a_roles),
+         team_b_champions = coalesce(p_team_b_champions, team_b_champions),
+         team_b_roles = coalesce(p_team_b_roles, team_b_roles)
+   where id = p_match_id
+     and result is null
+  returning * into m;
+
+  if not found then
+    raise exception 'Match % is not in progress', p_match_id using errcode = 'P0002';
+  end if;
+
+  update public.player p
+     set elo = s.new_elo,
+         win = p.win + case when s.won then 1 else 0 end,
+         total = p.total + 1,
+         is_decaying = false
+    from (
+      select unnest(m.team_a_players) as id, unnest(p_team_a_new_elos) as new_elo, p_result = 'A' as won
+      union all
+      select unnest(m.team_b_players), unnest(p_team_b_new_elos), p_result = 'B'
+    ) s
+   where p.id = s.id;
+
+  return m;
+end;
+$$;
+
+create or replace function public.revert_match(p_match_id bigint)
+returns public.match
+language plpgsql
+as $$
+declare
+  m public.match;
+begin
+  select * into m from public.match where id = p_match_id for update;
+
+  if not found
+     or m.result not in ('A', 'B')
+     or m.team_a_new_elos is null
+     or m.team_b_new_elos is null then
+    raise exception 'Match % has no result to revert', p_match_id using errcode = 'P0002';
+  end if;
+
+  -- Undo only this match's swing so decay and later matches stay on the books
+  update public.player p
+     set elo = p.elo - (s.new_elo - s.elo),
+         win = p.win - case when s.won then 1 else 0 end,
+         total = p.total - 1
+    from (
+      select unnest(m.team_a_players) as id,
+             unnest(m.team_a_elos) as elo,
+             unnest(m.team_a_new_elos) as new_elo,
+             m.result = 'A' as won
+      union all
+      select unnest(m.team_b_players), unnest(m.team_b_elos), unnest(m.team_b_new_elos), m.result = 'B'
+    ) s
+   where p.id = s.id;
+
+  update public.match set result = 'Reverted' where id = p_match_id returning * into m;
+
+  return m;
+end;
+$$;
+
+-- Only the API (service role) may call these; browsers go through /api/matches
+revoke execute on function public.end_match(bigint, text, integer[], integer[], text[], text[], text[], text[])
+  from public, anon, authenticated;
+revoke execute on function public.revert_match(bigint) from public, anon, authenticated;
@@ -0,0 +1,2 @@
+-- Broadcast row changes so every open client sees matches, ratings and pairings update live
+alter publication supabase_realtime add table public.match, public.player, public.pairing;
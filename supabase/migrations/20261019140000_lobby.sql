@@ -0,0 +1,8 @@
+-- Players checked in for the current session. Rows are not deleted when a session ends; the app
+-- treats the whole lobby as expired once it has been idle for the `lobby_idle_hours` setting.
+create table if not exists public.lobby (
+  player_id bigint primary key references public.player (id) on delete cascade,
+  checked_in_at timestamptz not null default now()
+);
+
+alter publication supabase_realtime add table public.lobby;
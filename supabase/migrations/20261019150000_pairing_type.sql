@@ -0,0 +1,4 @@
+-- Pairings can now keep two players apart as well as together
+alter table public.pairing
+  add column if not exists type text not null default 'together'
+  check (type in ('together', 'apart'));
@@ -0,0 +1,52 @@
+-- Every rating change that doesn't come from a match (so far only decay) is recorded here, so
+-- charts and weekly deltas can show it. `elo_after` is the player's Elo right after the change.
+create table if not exists public.elo_adjustment (
+  id bigint generated by default as identity primary key,
+  created_at timestamptz not null default now(),
+  player_id bigint not null references public.player (id) on delete cascade,
+  kind text not null default 'decay',
+  amount integer not null,
+  elo_after integer not null,
+  -- Decay runs record the week they belong to; a retried run for the same week is a no-op
+  period text,
+  unique (player_id, kind, period)
+);
+
+create index if not exists elo_adjustment_player_id_created_at_idx
+  on public.elo_adjustment (player_id, created_at);
+
+alter publication supabase_realtime add table public.elo_adjustment;
+
+-- Records and applies one decay run in a single transaction. Players who already have a decay
+-- entry for `p_period` are skipped, so only the rows returned were deducted.
+create or replace function public.apply_decay(p_period text, p_player_ids bigint[], p_amounts integer[])
+returns setof public.elo_adjustment
+language plpgsql
+as $$
+begin
+  return query
+  with wanted as (
+    select unnest(p_player_ids) as player_id, unnest(p_amounts) as amount
+  ),
+  recorded as (
+    insert into public.elo_adjustment (player_id, kind, amount, elo_after, period)
+    select w.player_id, 'decay', -w.amount, p.elo - w.amount, p_period
+      from wanted w
+      join public.player p on p.id = w.player_id
+    on conflict (player_id, kind, period) do nothing
+    returning *
+  ),
+  -- Data-modifying CTEs always run, referenced or not
+  applied as (
+    update public.player p
+       set elo = r.elo_after,
+           is_decaying = true
+      from recorded r
+     where p.id = r.player_id
+    returning p.id
+  )
+  select * from recorded;
+end;
+$$;
+
+revoke execute on function public.apply_decay(text, bigint[], integer[]) from public, anon, authenticated;
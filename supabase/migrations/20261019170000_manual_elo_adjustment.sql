@@ -0,0 +1,92 @@
+-- Admin-made rating changes (penalties, compensation, data fixes) share the decay ledger. Each one
+-- records why and who made it, and can be reverted once, which restores the player's Elo.
+alter table public.elo_adjustment
+  add column if not exists reason text,
+  add column if not exists author_id bigint references public.player (id) on delete set null,
+  add column if not exists reverted_at timestamptz,
+  add column if not exists reverted_by bigint references public.player (id) on delete set null;
+
+-- The signed-in caller's player id, or 42501 unless they are an admin
+create or replace function public.require_admin()
+returns bigint
+language plpgsql
+stable
+as $$
+declare
+  admin_id bigint;
+begin
+  select id into admin_id
+    from public.player
+   where email = auth.jwt() ->> 'email'
+     and "isAdmin";
+
+  if admin_id is null then
+    raise exception 'Only admins can change ratings' using errcode = '42501';
+  end if;
+
+  return admin_id;
+end;
+$$;
+
+create or replace function public.adjust_elo(p_player_id bigint, p_kind text, p_amount integer, p_reason text)
+returns public.elo_adjustment
+language plpgsql
+as $$
+declare
+  author bigint := public.require_admin();
+  new_elo integer;
+  a public.elo_adjustment;
+begin
+  if p_kind not in ('penalty', 'compensation', 'correction') then
+    raise exception 'Invalid adjustment kind %', p_kind using errcode = '22023';
+  end if;
+  if p_amount = 0 or coalesce(trim(p_reason), '') = '' then
+    raise exception 'An adjustment needs an amount and a reason' using errcode = '22023';
+  end if;
+
+  update public.player set elo = elo + p_amount where id = p_player_id returning elo into new_elo;
+
+  if not found then
+    raise exception 'Player % not found', p_player_id using errcode = 'P0002';
+  end if;
+
+  insert into public.elo_adjustment (player_id, kind, amount, elo_after, reason, author_id)
+  values (p_player_id, p_kind, p_amount, new_elo, trim(p_reason), author)
+  returning * into a;
+
+  return a;
+end;
+$$;
+
+create or replace function public.revert_elo_adjustment(p_adjustment_id bigint)
+returns public.elo_adjustment
+language plpgsql
+as $$
+declare
+  author bigint := public.require_admin();
+  a public.elo_adjustment;
+begin
+  select * into a from public.elo_adjustment where id = p_adjustment_id for update;
+
+  if not found or a.reverted_at is not null then
+    raise exception 'Adjustment % has nothing to revert', p_adjustment_id using errcode = 'P0002';
+  end if;
+
+  -- Like revert_match, undo only this change so later matches stay on the books
+  update public.player set elo = elo - a.amount where id = a.player_id;
+
+  update public.elo_adjustment
+     set reverted_at = now(),
+         reverted_by = author
+   where id = p_adjustment_id
+  returning * into a;
+
+  return a;
+end;
+$$;
+
+revoke execute on function public.require_admin() from public, anon;
+revoke execute on function public.adjust_elo(bigint, text, integer, text) from public, anon;
+revoke execute on function public.revert_elo_adjustment(bigint) from public, anon;
+grant execute on function public.adjust_elo(bigint, text, integer, text) to authenticated;
+grant execute on function public.revert_elo_adjustment(bigint) to authenticated;
@@ -0,0 +1,185 @@
+-- Writes behind the /admin console. Each function checks the caller is an admin (require_admin)
+-- before touching anything, so they are safe to expose to signed-in users.
+
+create or replace function public.set_player_hidden(p_player_id bigint, p_hidden boolean)
+returns public.player
+language plpgsql
+as $$
+declare
+  p public.player;
+begin
+  perform public.require_admin();
+
+  update public.player set hidden = p_hidden where id = p_player_id returning * into p;
+
+  if not found then
+    raise exception 'Player % not found', p_player_id using errcode = 'P0002';
+  end if;
+
+  return p;
+end;
+$$;
+
+create or replace function public.set_player_admin(p_player_id bigint, p_is_admin boolean)
+returns public.player
+language plpgsql
+as $$
+declare
+  p public.player;
+begin
+  perform public.require_admin();
+
+  update public.player set "isAdmin" = p_is_admin where id = p_player_id returning * into p;
+
+  if not found then
+    raise exception 'Player % not found', p_player_id using errcode = 'P0002';
+  end if;
+
+  -- Nobody could grant it back through the console
+  if not exists (select 1 from public.player where "isAdmin") then
+    raise exception 'At least one admin must remain' using errcode = '22023';
+  end if;
+
+  return p;
+end;
+$$;
+
+create or replace function public.set_feedback_status(p_feedback_id bigint, p_status text)
+returns public.feedback
+language plpgsql
+as $$
+declare
+  f public.feedback;
+begin
+  perform public.require_admin();
+
+  if p_status not in ('open', 'done', 'joke') then
+    raise exception 'Invalid status %', p_status using errcode = '22023';
+  end if;
+
+  update public.feedback set status = p_status where id = p_feedback_id returning * into f;
+
+  if not found then
+    raise exception 'Feedback % not found', p_feedback_id using errcode = 'P0002';
+  end if;
+
+  return f;
+end;
+$$;
+
+create or replace function public.delete_feedback(p_feedback_id bigint)
+returns void
+language plpgsql
+as $$
+begin
+  perform public.require_admin();
+
+  delete from public.feedback_vote where feedback_id = p_feedback_id;
+  delete from public.feedback where id = p_feedback_id;
+end;
+$$;
+
+create or replace function public.rename_season(p_season_id bigint, p_name text)
+returns public.season
+language plpgsql
+as $$
+declare
+  s public.season;
+begin
+  perform public.require_admin();
+
+  if coalesce(trim(p_name), '') = '' then
+    raise exception 'A season needs a name' using errcode = '22023';
+  end if;
+
+  update public.season set name = trim(p_name) where id = p_season_id returning * into s;
+
+  if not found then
+    raise exception 'Season % not found', p_season_id using errcode = 'P0002';
+  end if;
+
+  return s;
+end;
+$$;
+
+-- Folds a duplicate player into the one that stays: every match, pairing, feedback entry, check-in
+-- and rating adjustment of the duplicate is moved over, then the duplicate row is deleted. Players
+-- who shared a match can't be merged.
+create or replace function public.merge_players(p_keep_id bigint, p_remove_id bigint)
+returns public.player
+language plpgsql
+as $$
+declare
+  keep public.player;
+  removed public.player;
+begin
+  perform public.require_admin();
+
+  if p_keep_id = p_remove_id then
+    raise exception 'Pick two different players' using errcode = '22023';
+  end if;
+
+  select * into keep from public.player where id = p_keep_id for update;
+  select * into removed from public.player where id = p_remove_id for update;
+
+  if keep.id is null or removed.id is null then
+    raise exception 'Player not found' using errcode = 'P0002';
+  end if;
+
+  if exists (
+    select 1
+      from public.match
+     where p_keep_id = any (team_a_players || team_b_players)
+       and p_remove_id = any (team_a_players || team_b_players)
+  ) then
+    raise exception 'These players have played in the same match' using errcode = '22023';
+  end if;
+
+  update public.match
+     set team_a_players = array_replace(team_a_players, p_remove_id, p_keep_id),
+         team_b_players = array_replace(team_b_players, p_remove_id, p_keep_id)
+   where p_remove_id = any (team_a_players || team_b_players);
+
+  -- A pairing between the two becomes meaningless; the rest move over
+  delete from public.pairing
+   where (player1 = p_keep_id and player2 = p_remove_id)
+      or (player1 = p_remove_id and player2 = p_keep_id);
+  update public.pairing set player1 = p_keep_id where player1 = p_remove_id;
+  update public.pairing set player2 = p_keep_id where player2 = p_remove_id;
+
+  update public.feedback set player_id = p_keep_id where player_id = p_remove_id;
+  update public.match_edit set player_id = p_keep_id where player_id = p_remove_id;
+  update public.elo_adjustment set player_id = p_keep_id where player_id = p_remove_id;
+  update public.elo_adjustment set author_id = p_keep_id where author_id = p_remove_id;
+  update public.elo_adjustment set reverted_by = p_keep_id where reverted_by = p_remove_id;
+
+  delete from public.lobby where player_id = p_remove_id;
+
+  delete from public.player where id = p_remove_id;
+
+  update public.player
+     set win = keep.win + removed.win,
+         total = keep.total + removed.total,
+         email = coalesce(keep.email, removed.email),
+         ingame = coalesce(keep.ingame, removed.ingame),
+         avatar = coalesce(keep.avatar, removed.avatar),
+         "isAdmin" = keep."isAdmin" or removed."isAdmin"
+   where id = p_keep_id
+  returning * into keep;
+
+  return keep;
+end;
+$$;
+
+revoke execute on function public.set_player_hidden(bigint, boolean) from public, anon;
+revoke execute on function public.set_player_admin(bigint, boolean) from public, anon;
+revoke execute on function public.set_feedback_status(bigint, text) from public, anon;
+revoke execute on function public.delete_feedback(bigint) from public, anon;
+revoke execute on function public.rename_season(bigint, text) from public, anon;
+revoke execute on function public.merge_players(bigint, bigint) from public, anon;
+grant execute on function public.set_player_hidden(bigint, boolean) to authenticated;
+grant execute on function public.set_player_admin(bigint, boolean) to authenticated;
+grant execute on function public.set_feedback_status(bigint, text) to authenticated;
+grant execute on function public.delete_feedback(bigint) to authenticated;
+grant execute on function public.rename_season(bigint, text) to authenticated;
+grant execute on function public.merge_players(bigint, bigint) to authenticated;
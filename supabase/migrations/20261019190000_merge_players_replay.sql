@@ -0,0 +1,154 @@
+-- Merging two player records now rewrites the whole history: season snapshots are folded
+-- together, and the client replays the current season with both records as one player and
+-- sends the resulting match Elos and ratings along (see planPlayerMerge), so the merge lands
+-- in a single transaction.
+
+drop function public.merge_players(bigint, bigint);
+
+create function public.merge_players(
+  p_keep_id bigint,
+  p_remove_id bigint,
+  p_matches jsonb,
+  p_players jsonb
+)
+returns public.player
+language plpgsql
+as $$
+declare
+  keep public.player;
+  removed public.player;
+  s record;
+  kept_entry jsonb;
+  removed_entry jsonb;
+begin
+  perform public.require_admin();
+
+  if p_keep_id = p_remove_id then
+    raise exception 'Pick two different players' using errcode = '22023';
+  end if;
+
+  select * into keep from public.player where id = p_keep_id for update;
+  select * into removed from public.player where id = p_remove_id for update;
+
+  if keep.id is null or removed.id is null then
+    raise exception 'Player not found' using errcode = 'P0002';
+  end if;
+
+  if exists (
+    select 1
+      from public.match
+     where p_keep_id = any (team_a_players || team_b_players)
+       and p_remove_id = any (team_a_players || team_b_players)
+  ) then
+    raise exception 'These players have played in the same match' using errcode = '22023';
+  end if;
+
+  if exists (
+    select 1 from jsonb_to_recordset(p_players) as x(id bigint) where x.id = p_remove_id
+  ) then
+    raise exception 'The merged player can''t be rated' using errcode = '22023';
+  end if;
+
+  update public.match
+     set team_a_players = array_replace(team_a_players, p_remove_id, p_keep_id),
+         team_b_players = array_replace(team_b_players, p_remove_id, p_keep_id)
+   where p_remove_id = any (team_a_players || team_b_players);
+
+  -- Replayed Elos for every current-season match the merge moved
+  update public.match m
+     set team_a_elos = x.team_a_elos,
+         team_b_elos = x.team_b_elos,
+         team_a_new_elos = x.team_a_new_elos,
+         team_b_new_elos = x.team_b_new_elos
+    from jsonb_to_recordset(p_matches) as x(
+      id bigint,
+      team_a_elos integer[],
+      team_b_elos integer[],
+      team_a_new_elos integer[],
+      team_b_new_elos integer[]
+    )
+   where m.id = x.id;
+
+  -- A pairing between the two becomes meaningless; the rest move over
+  delete from public.pairing
+   where (player1 = p_keep_id and player2 = p_remove_id)
+      or (player1 = p_remove_id and player2 = p_keep_id);
+  update public.pairing set player1 = p_keep_id where player1 = p_remove_id;
+  update public.pairing set player2 = p_keep_id where player2 = p_remove_id;
+
+  update public.feedback set player_id = p_keep_id where player_id = p_remove_id;
+  update public.match_edit set player_id = p_keep_id where player_id = p_remove_id;
+  update public.elo_adjustment set player_id = p_keep_id where player_id = p_remove_id;
+  update public.elo_adjustment set author_id = p_keep_id where author_id = p_remove_id;
+  update public.elo_adjustment set reverted_by = p_keep_id where reverted_by = p_remove_id;
+
+  -- Closed seasons: fold the duplicate's snapshot entry into the kept one. The records are
+  -- summed and the Elo of whichever entry played more games stands.
+  for s in
+    select id, players
+      from public.season
+     where players @> jsonb_build_array(jsonb_build_object('id', p_remove_id))
+  loop
+    select e into removed_entry from jsonb_array_elements(s.players) e where (e ->> 'id')::bigint = p_remove_id;
+    select e into kept_entry from jsonb_array_elements(s.players) e where (e ->> 'id')::bigint = p_keep_id;
+
+    if kept_entry is null then
+      -- The duplicate's entry simply takes the kept id
+      kept_entry := removed_entry || jsonb_build_object('id', p_keep_id);
+    else
+      kept_entry := kept_entry || jsonb_build_object(
+        'elo', case
+                 when (removed_entry ->> 'total')::int > (kept_entry ->> 'total')::int
+                   then removed_entry -> 'elo'
+                 else kept_entry -> 'elo'
+               end,
+        'win', (kept_entry ->> 'win')::int + (removed_entry ->> 'win')::int,
+        'total', (kept_entry ->> 'total')::int + (removed_entry ->> 'total')::int
+      );
+      removed_entry := null;
+    end if;
+
+    update public.season
+       set players = (
+             select coalesce(jsonb_agg(
+                      case when (e ->> 'id')::bigint in (p_keep_id, p_remove_id) then kept_entry else e end
+                      order by ord
+                    ), '[]'::jsonb)
+               from jsonb_array_elements(s.players) with ordinality as t(e, ord)
+              -- Drop the duplicate's entry when it was folded into an existing one
+              where removed_entry is not null or (e ->> 'id')::bigint <> p_remove_id
+           )
+     where id = s.id;
+  end loop;
+
+  delete from public.lobby where player_id = p_remove_id;
+
+  delete from public.player where id = p_remove_id;
+
+  -- Everyone else whose Elo moved with the replay
+  update public.player p
+     set elo = x.elo
+    from jsonb_to_recordset(p_players) as x(id bigint, elo integer)
+   where p.id = x.id
+     and p.id <> p_keep_id;
+
+  update public.player
+     set elo = coalesce(
+           (select x.elo from jsonb_to_recordset(p_players) as x(id bigint, elo integer) where x.id = p_keep_id),
+           keep.elo
+         ),
+         win = keep.win + removed.win,
+         total = keep.total + removed.total,
+         email = coalesce(keep.email, removed.email),
+         ingame = coalesce(keep.ingame, removed.ingame),
+         avatar = coalesce(keep.avatar, removed.avatar),
+         "isAdmin" = keep."isAdmin" or removed."isAdmin"
+   where id = p_keep_id
+  returning * into keep;
+
+  return keep;
+end;
+$$;
+
+revoke execute on function public.merge_players(bigint, bigint, jsonb, jsonb) from public, anon;
+grant execute on function public.merge_players(bigint, bigint, jsonb, jsonb) to authenticated;
@@ -0,0 +1,244 @@
+-- Row-level security for every table the browser can reach with the anon key. The roles match
+-- src/utils/permissions.ts:
+--   guest   signed out, read-only
+--   user    signed in without a player: may claim one and post feedback
+--   member  signed in as a player: runs the lobby, starts matches, edits their own profile
+--   admin   a player with "isAdmin": every other write
+-- Ending, cancelling and reverting matches and the decay cron go through the API with the
+-- service role, which bypasses these policies; the API checks the caller's role itself.
+
+-- The signed-in caller's player, or null for guests and users who haven't claimed one. Security
+-- definer so policies on `player` can call it without recursing into themselves.
+create or replace function public.current_player_id()
+returns bigint
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select id from public.player where email = auth.jwt() ->> 'email' order by id limit 1;
+$$;
+
+create or replace function public.is_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select coalesce((select "isAdmin" from public.player where id = public.current_player_id()), false);
+$$;
+
+-- The signed-in caller's player id, or 42501 unless they are an admin
+create or replace function public.require_admin()
+returns bigint
+language plpgsql
+stable
+as $$
+begin
+  if not public.is_admin() then
+    raise exception 'Only admins can do this' using errcode = '42501';
+  end if;
+
+  return public.current_player_id();
+end;
+$$;
+
+revoke execute on function public.current_player_id() from public;
+revoke execute on function public.is_admin() from public;
+grant execute on function public.current_player_id() to anon, authenticated;
+grant execute on function public.is_admin() to anon, authenticated;
+
+-- Everyone may read everything, as before; admins may write everything, which also covers the
+-- admin functions since they run as the caller. On a fresh database match_edit and setting don't
+-- exist yet; their own migrations set up the same policies.
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'player', 'match', 'match_edit', 'pairing', 'season', 'setting', 'lobby',
+    'feedback', 'feedback_vote', 'elo_adjustment'
+  ] loop
+    continue when to_regclass(format('public.%I', t)) is null;
+    execute format('alter table public.%I enable row level security', t);
+    execute format('create policy "Anyone can read" on public.%I for select using (true)', t);
+    execute format(
+      'create policy "Admins can insert" on public.%I for insert to authenticated with check (public.is_admin())', t
+    );
+    execute format(
+      'create policy "Admins can update" on public.%I for update to authenticated '
+      'using (public.is_admin()) with check (public.is_admin())', t
+    );
+    execute format('create policy "Admins can delete" on public.%I for delete to authenticated using (public.is_admin())', t);
+  end loop;
+end;
+$$;
+
+-- Members edit their own row; guard_player_update keeps them to the profile columns
+create policy "Members can update their player" on public.player
+  for update to authenticated
+  using (id = public.current_player_id())
+  with check (id = public.current_player_id());
+
+create policy "Members can start matches" on public.match
+  for insert to authenticated
+  with check (public.current_player_id() is not null);
+
+-- Deliberately open to every member: the host checks people in and out for the whole table.
+-- A lobby that has gone stale is cleared by check_in (20261020114000_check_in.sql).
+create policy "Members can check in" on public.lobby
+  for insert to authenticated
+  with check (public.current_player_id() is not null);
+create policy "Members can update check-ins" on public.lobby
+  for update to authenticated
+  using (public.current_player_id() is not null)
+  with check (public.current_player_id() is not null);
+create policy "Members can check out" on public.lobby
+  for delete to authenticated
+  using (public.current_player_id() is not null);
+
+create policy "Users can post feedback" on public.feedback
+  for insert to authenticated
+  with check (
+    user_id = auth.uid()
+    and status = 'open'
+    and (player_id is null or player_id = public.current_player_id())
+  );
+create policy "Users can edit their feedback" on public.feedback
+  for update to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users can vote" on public.feedback_vote
+  for insert to authenticated
+  with check (user_id = auth.uid());
+create policy "Users can take back their vote" on public.feedback_vote
+  for delete to authenticated
+  using (user_id = auth.uid());
+
+-- Triggers below only restrict the browser's roles. The service role and security definer
+-- functions run as another database user and pass straight through.
+
+-- Members may change their name, in-game name, avatar and roles. Ratings, records, visibility,
+-- admin rights and the claimed email only change through admins, the API and claim_player.
+create or replace function public.guard_player_update()
+returns trigger
+language plpgsql
+as $$
+declare
+  profile text[] := array['name', 'ingame', 'avatar', 'preferred_roles', 'secondary_roles'];
+begin
+  if current_user in ('anon', 'authenticated')
+     and not public.is_admin()
+     and to_jsonb(new) - profile is distinct from to_jsonb(old) - profile then
+    raise exception 'Only admins can change ratings or access' using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger guard_player_update
+  before update on public.player
+  for each row execute function public.guard_player_update();
+
+-- A member's new match starts in progress from the players' stored Elo, whatever the browser
+-- sent: end_match writes the post-match Elos straight onto the players, so a tampered insert
+-- would otherwise set anyone's rating
+create or replace function public.prepare_match_insert()
+returns trigger
+language plpgsql
+as $$
+begin
+  if current_user not in ('anon', 'authenticated') or public.is_admin() then
+    return new;
+  end if;
+
+  if new.result is not null or new.team_a_new_elos is not null or new.team_b_new_elos is not null then
+    raise exception 'New matches start in progress' using errcode = '42501';
+  end if;
+
+  new.created_at := now();
+  new.team_a_elos := array(
+    select p.elo
+      from unnest(new.team_a_players) with ordinality as t(id, ord)
+      join public.player p on p.id = t.id
+     order by t.ord
+  );
+  new.team_b_elos := array(
+    select p.elo
+      from unnest(new.team_b_players) with ordinality as t(id, ord)
+      join public.player p on p.id = t.id
+     order by t.ord
+  );
+
+  if cardinality(new.team_a_elos) <> cardinality(new.team_a_players)
+     or cardinality(new.team_b_elos) <> cardinality(new.team_b_players) then
+    raise exception 'Unknown player in match' using errcode = 'P0002';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger prepare_match_insert
+  before insert on public.match
+  for each row execute function public.prepare_match_insert();
+
+-- Authors may reword their feedback; its status is set_feedback_status's job
+create or replace function public.guard_feedback_update()
+returns trigger
+language plpgsql
+as $$
+begin
+  if current_user in ('anon', 'authenticated')
+     and not public.is_admin()
+     and (new.status, new.user_id, new.player_id) is distinct from (old.status, old.user_id, old.player_id) then
+    raise exception 'Only admins can change the status of feedback' using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger guard_feedback_update
+  before update on public.feedback
+  for each row execute function public.guard_feedback_update();
+
+-- Merging an admin's own duplicate deletes the row that made them an admin halfway through, so
+-- the merge runs as its owner once require_admin has checked the caller
+alter function public.merge_players(bigint, bigint, jsonb, jsonb) security definer set search_path = public;
+
+-- Links the caller's login to a player nobody has claimed yet. Security definer because members
+-- can't write `email` themselves.
+create or replace function public.claim_player(p_player_id bigint)
+returns public.player
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  caller_email text := auth.jwt() ->> 'email';
+  p public.player;
+begin
+  if caller_email is null then
+    raise exception 'Sign in to claim a player' using errcode = '42501';
+  end if;
+
+  if public.current_player_id() is not null then
+    raise exception 'You have already claimed a player' using errcode = '22023';
+  end if;
+
+  update public.player set email = caller_email where id = p_player_id and email is null returning * into p;
+
+  if not found then
+    raise exception 'Player % is already claimed', p_player_id using errcode = 'P0002';
+  end if;
+
+  return p;
+end;
+$$;
+
+revoke execute on function public.claim_player(bigint) from public, anon;
+grant execute on function public.claim_player(bigint) to authenticated;
@@ -0,0 +1,321 @@
+-- Players are linked to logins by auth user id instead of by email, and a player can have any
+-- number of logins (say a Google account and a username account). Signed-in users without a
+-- player request one through player_claim; the link is only made once an admin approves it.
+
+create table if not exists public.player_login (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  player_id bigint not null references public.player (id) on delete cascade,
+  -- The login's email when it was linked, so admins can tell a player's logins apart
+  email text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists player_login_player_id_idx on public.player_login (player_id);
+
+create table if not exists public.player_claim (
+  id bigint generated by default as identity primary key,
+  created_at timestamptz not null default now(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  email text,
+  player_id bigint not null references public.player (id) on delete cascade,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+  decided_at timestamptz,
+  decided_by bigint references public.player (id) on delete set null
+);
+
+-- One open request per login at a time
+create unique index if not exists player_claim_pending_idx on public.player_claim (user_id) where status = 'pending';
+
+-- Existing claims were made by writing the login's email onto the player
+insert into public.player_login (user_id, player_id, email)
+select distinct on (u.id) u.id, p.id, u.email
+  from auth.users u
+  join public.player p on p.email = u.email
+ order by u.id, p.id
+on conflict (user_id) do nothing;
+
+create or replace function public.current_player_id()
+returns bigint
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select player_id from public.player_login where user_id = auth.uid();
+$$;
+
+alter table public.player_login enable row level security;
+alter table public.player_claim enable row level security;
+
+-- Logins carry emails, so only their owner and admins see them
+create policy "Users can see their logins" on public.player_login
+  for select to authenticated
+  using (user_id = auth.uid() or public.is_admin());
+create policy "Admins can link logins" on public.player_login
+  for insert to authenticated
+  with check (public.is_admin());
+create policy "Admins can unlink logins" on public.player_login
+  for delete to authenticated
+  using (public.is_admin());
+
+create policy "Users can see their claims" on public.player_claim
+  for select to authenticated
+  using (user_id = auth.uid() or public.is_admin());
+create policy "Users can withdraw pending claims" on public.player_claim
+  for delete to authenticated
+  using (user_id = auth.uid() and status = 'pending');
+create policy "Admins can review claims" on public.player_claim
+  for update to authenticated
+  using (public.is_admin())
+  with check (public.is_admin());
+
+-- claim_player used to link the player straight away and returned it
+drop function public.claim_player(bigint);
+
+-- Files a request to be linked to a player. Any player can be requested, since one person may
+-- sign in with several logins; the admin who reviews it decides.
+create or replace function public.claim_player(p_player_id bigint)
+returns public.player_claim
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  c public.player_claim;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to claim a player' using errcode = '42501';
+  end if;
+
+  if public.current_player_id() is not null then
+    raise exception 'This login is already linked to a player' using errcode = '22023';
+  end if;
+
+  if exists (select 1 from public.player_claim where user_id = auth.uid() and status = 'pending') then
+    raise exception 'You already have a claim waiting for approval' using errcode = '22023';
+  end if;
+
+  if not exists (select 1 from public.player where id = p_player_id and not hidden) then
+    raise exception 'Player % not found', p_player_id using errcode = 'P0002';
+  end if;
+
+  insert into public.player_claim (user_id, email, player_id)
+  values (auth.uid(), auth.jwt() ->> 'email', p_player_id)
+  returning * into c;
+
+  return c;
+end;
+$$;
+
+revoke execute on function public.claim_player(bigint) from public, anon;
+grant execute on function public.claim_player(bigint) to authenticated;
+
+-- Approving links the login to the player; rejecting only closes the request
+create or replace function public.review_claim(p_claim_id bigint, p_approve boolean)
+returns public.player_claim
+language plpgsql
+as $$
+declare
+  reviewer bigint := public.require_admin();
+  c public.player_claim;
+begin
+  update public.player_claim
+     set status = case when p_approve then 'approved' else 'rejected' end,
+         decided_at = now(),
+         decided_by = reviewer
+   where id = p_claim_id
+     and status = 'pending'
+  returning * into c;
+
+  if not found then
+    raise exception 'Claim % is not pending', p_claim_id using errcode = 'P0002';
+  end if;
+
+  if p_approve then
+    if exists (select 1 from public.player_login where user_id = c.user_id) then
+      raise exception 'This login is already linked to a player' using errcode = '22023';
+    end if;
+
+    insert into public.player_login (user_id, player_id, email)
+    values (c.user_id, c.player_id, c.email);
+
+    -- Kept for the admin console; signing in no longer depends on it
+    update public.player set email = coalesce(email, c.email) where id = c.player_id;
+  end if;
+
+  return c;
+end;
+$$;
+
+create or replace function public.unlink_login(p_user_id uuid)
+returns void
+language plpgsql
+as $$
+begin
+  perform public.require_admin();
+
+  delete from public.player_login where user_id = p_user_id;
+
+  if not found then
+    raise exception 'Login not found' using errcode = 'P0002';
+  end if;
+end;
+$$;
+
+revoke execute on function public.review_claim(bigint, boolean) from public, anon;
+revoke execute on function public.unlink_login(uuid) from public, anon;
+grant execute on function public.review_claim(bigint, boolean) to authenticated;
+grant execute on function public.unlink_login(uuid) to authenticated;
+
+-- Moves the duplicate's logins and claims over as well
+create or replace function public.merge_players(
+  p_keep_id bigint,
+  p_remove_id bigint,
+  p_matches jsonb,
+  p_players jsonb
+)
+returns public.player
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  keep public.player;
+  removed public.player;
+  s record;
+  kept_entry jsonb;
+  removed_entry jsonb;
+begin
+  perform public.require_admin();
+
+  if p_keep_id = p_remove_id then
+    raise exception 'Pick two different players' using errcode = '22023';
+  end if;
+
+  select * into keep from public.player where id = p_keep_id for update;
+  select * into removed from public.player where id = p_remove_id for update;
+
+  if keep.id is null or removed.id is null then
+    raise exception 'Player not found' using errcode = 'P0002';
+  end if;
+
+  if exists (
+    select 1
+      from public.match
+     where p_keep_id = any (team_a_players || team_b_players)
+       and p_remove_id = any (team_a_players || team_b_players)
+  ) then
+    raise exception 'These players have played in the same match' using errcode = '22023';
+  end if;
+
+  if exists (
+    select 1 from jsonb_to_recordset(p_players) as x(id bigint) where x.id = p_remove_id
+  ) then
+    raise exception 'The merged player can''t be rated' using errcode = '22023';
+  end if;
+
+  update public.match
+     set team_a_players = array_replace(team_a_players, p_remove_id, p_keep_id),
+         team_b_players = array_replace(team_b_players, p_remove_id, p_keep_id)
+   where p_remove_id = any (team_a_players || team_b_players);
+
+  -- Replayed Elos for every current-season match the merge moved
+  update public.match m
+     set team_a_elos = x.team_a_elos,
+         team_b_elos = x.team_b_elos,
+         team_a_new_elos = x.team_a_new_elos,
+         team_b_new_elos = x.team_b_new_elos
+    from jsonb_to_recordset(p_matches) as x(
+      id bigint,
+      team_a_elos integer[],
+      team_b_elos integer[],
+      team_a_new_elos integer[],
+      team_b_new_elos integer[]
+    )
+   where m.id = x.id;
+
+  -- A pairing between the two becomes meaningless; the rest move over
+  delete from public.pairing
+   where (player1 = p_keep_id and player2 = p_remove_id)
+      or (player1 = p_remove_id and player2 = p_keep_id);
+  update public.pairing set player1 = p_keep_id where player1 = p_remove_id;
+  update public.pairing set player2 = p_keep_id where player2 = p_remove_id;
+
+  update public.feedback set player_id = p_keep_id where player_id = p_remove_id;
+  update public.match_edit set player_id = p_keep_id where player_id = p_remove_id;
+  update public.elo_adjustment set player_id = p_keep_id where player_id = p_remove_id;
+  update public.elo_adjustment set author_id = p_keep_id where author_id = p_remove_id;
+  update public.elo_adjustment set reverted_by = p_keep_id where reverted_by = p_remove_id;
+
+  -- Every login of the duplicate now signs in as the kept player
+  update public.player_login set player_id = p_keep_id where player_id = p_remove_id;
+  update public.player_claim set player_id = p_keep_id where player_id = p_remove_id;
+  update public.player_claim set decided_by = p_keep_id where decided_by = p_remove_id;
+
+  -- Closed seasons: fold the duplicate's snapshot entry into the kept one. The records are
+  -- summed and the Elo of whichever entry played more games stands.
+  for s in
+    select id, players
+      from public.season
+     where players @> jsonb_build_array(jsonb_build_object('id', p_remove_id))
+  loop
+    select e into removed_entry from jsonb_array_elements(s.players) e where (e ->> 'id')::bigint = p_remove_id;
+    select e into kept_entry from jsonb_array_elements(s.players) e where (e ->> 'id')::bigint = p_keep_id;
+
+    if kept_entry is null then
+      -- The duplicate's entry simply takes the kept id
+      kept_entry := removed_entry || jsonb_build_object('id', p_keep_id);
+    else
+      kept_entry := kept_entry || jsonb_build_object(
+        'elo', case
+                 when (removed_entry ->> 'total')::int > (kept_entry ->> 'total')::int
+                   then removed_entry -> 'elo'
+                 else kept_entry -> 'elo'
+               end,
+        'win', (kept_entry ->> 'win')::int + (removed_entry ->> 'win')::int,
+        'total', (kept_entry ->> 'total')::int + (removed_entry ->> 'total')::int
+      );
+      removed_entry := null;
+    end if;
+
+    update public.season
+       set players = (
+             select coalesce(jsonb_agg(
+                      case when (e ->> 'id')::bigint in (p_keep_id, p_remove_id) then kept_entry else e end
+                      order by ord
+                    ), '[]'::jsonb)
+               from jsonb_array_elements(s.players) with ordinality as t(e, ord)
+              -- Drop the duplicate's entry when it was folded into an existing one
+              where removed_entry is not null or (e ->> 'id')::bigint <> p_remove_id
+           )
+     where id = s.id;
+  end loop;
+
+  delete from public.lobby where player_id = p_remove_id;
+
+  delete from public.player where id = p_remove_id;
+
+  -- Everyone else whose Elo moved with the replay
+  update public.player p
+     set elo = x.elo
+    from jsonb_to_recordset(p_players) as x(id bigint, elo integer)
+   where p.id = x.id
+     and p.id <> p_keep_id;
+
+  update public.player
+     set elo = coalesce(
+           (select x.elo from jsonb_to_recordset(p_players) as x(id bigint, elo integer) where x.id = p_keep_id),
+           keep.elo
+         ),
+         win = keep.win + removed.win,
+         total = keep.total + removed.total,
+         email = coalesce(keep.email, removed.email),
+         ingame = coalesce(keep.ingame, removed.ingame),
+         avatar = coalesce(keep.avatar, removed.avatar),
+         "isAdmin" = keep."isAdmin" or removed."isAdmin"
+   where id = p_keep_id
+  returning * into keep;
+
+  return keep;
+end;
+$$;
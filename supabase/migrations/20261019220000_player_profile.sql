@@ -0,0 +1,42 @@
+-- Profile fields players fill in themselves on /me. `ingame` stays the in-game name on its own,
+-- as displayName shows it, with the tag next to it. The formats match src/utils/profile.ts.
+alter table public.player
+  add column if not exists ingame_tag text check (ingame_tag ~ '^[A-Za-z0-9]{3,5}$'),
+  add column if not exists rank text check (
+    rank ~ '^(Iron|Bronze|Silver|Gold|Platinum|Emerald|Diamond) (IV|III|II|I)$'
+    or rank in ('Master', 'Grandmaster', 'Challenger', 'Sovereign')
+  ),
+  add column if not exists favorite_champions text[] not null default '{}'
+    check (cardinality(favorite_champions) <= 3),
+  add column if not exists bio text check (char_length(bio) <= 500);
+
+-- In-game names were only ever set by hand in the database. `not valid` only skips checking them
+-- now: any later update of such a row fails, so 20261020115000 cleans them up and validates it.
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'player_ingame_length') then
+    alter table public.player
+      add constraint player_ingame_length check (char_length(ingame) between 3 and 16) not valid;
+  end if;
+end;
+$$;
+
+-- Same guard as before, with the new fields added to what members may edit
+create or replace function public.guard_player_update()
+returns trigger
+language plpgsql
+as $$
+declare
+  profile text[] := array[
+    'name', 'ingame', 'ingame_tag', 'avatar', 'preferred_roles', 'secondary_roles', 'rank', 'favorite_champions', 'bio'
+  ];
+begin
+  if current_user in ('anon', 'authenticated')
+     and not public.is_admin()
+     and to_jsonb(new) - profile is distinct from to_jsonb(old) - profile then
+    raise exception 'Only admins can change ratings or access' using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
@@ -0,0 +1,87 @@
+-- Editing a finished match's teams or winner. The client replays the season with the edit applied
+-- (see applyMatchEdit) and sends the corrected match, the Elos of every later match that moved and
+-- the new ratings, so the edit, the rewrite and its match_edit entry land in one transaction.
+
+create or replace function public.edit_match(
+  p_match_id bigint,
+  p_match jsonb,
+  p_matches jsonb,
+  p_players jsonb
+)
+returns public.match
+language plpgsql
+as $$
+declare
+  editor_id bigint := public.require_admin();
+  m public.match;
+  edited public.match;
+begin
+  select * into m from public.match where id = p_match_id for update;
+
+  if not found or m.result not in ('A', 'B') then
+    raise exception 'Match % has no result to edit', p_match_id using errcode = 'P0002';
+  end if;
+
+  edited := jsonb_populate_record(m, p_match - 'id' - 'created_at');
+
+  if edited.result not in ('A', 'B') then
+    raise exception 'Invalid result %', edited.result using errcode = '22023';
+  end if;
+
+  update public.match
+     set result = edited.result,
+         team_a_players = edited.team_a_players,
+         team_b_players = edited.team_b_players,
+         team_a_elos = edited.team_a_elos,
+         team_b_elos = edited.team_b_elos,
+         team_a_new_elos = edited.team_a_new_elos,
+         team_b_new_elos = edited.team_b_new_elos,
+         team_a_champions = edited.team_a_champions,
+         team_a_roles = edited.team_a_roles,
+         team_b_champions = edited.team_b_champions,
+         team_b_roles = edited.team_b_roles
+   where id = p_match_id
+  returning * into edited;
+
+  -- Replayed Elos for every later match the edit moved
+  update public.match x
+     set team_a_elos = r.team_a_elos,
+         team_b_elos = r.team_b_elos,
+         team_a_new_elos = r.team_a_new_elos,
+         team_b_new_elos = r.team_b_new_elos
+    from jsonb_to_recordset(p_matches) as r(
+      id bigint,
+      team_a_elos integer[],
+      team_b_elos integer[],
+      team_a_new_elos integer[],
+      team_b_new_elos integer[]
+    )
+   where x.id = r.id
+     and x.id <> p_match_id;
+
+  update public.player p
+     set elo = r.elo,
+         win = r.win,
+         total = r.total
+    from jsonb_to_recordset(p_players) as r(id bigint, elo integer, win integer, total integer)
+   where p.id = r.id;
+
+  insert into public.match_edit (match_id, user_id, player_id, before, after)
+  values (
+    p_match_id,
+    auth.uid(),
+    editor_id,
+    jsonb_build_object('team_a_players', m.team_a_players, 'team_b_players', m.team_b_players, 'result', m.result),
+    jsonb_build_object(
+      'team_a_players', edited.team_a_players,
+      'team_b_players', edited.team_b_players,
+      'result', edited.result
+    )
+  );
+
+  return edited;
+end;
+$$;
+
+revoke execute on function public.edit_match(bigint, jsonb, jsonb, jsonb) from public, anon;
+grant execute on function public.edit_match(bigint, jsonb, jsonb, jsonb) to authenticated;
@@ -0,0 +1,53 @@
+-- Reverting a match now re-derives every later match instead of subtracting the match's own
+-- swing. The API replays the season without the match (see applyMatchRevert) and sends the
+-- Elos of every later match that moved and the new ratings, which land here with the revert in
+-- one transaction.
+
+drop function public.revert_match(bigint);
+
+create function public.revert_match(p_match_id bigint, p_matches jsonb, p_players jsonb)
+returns public.match
+language plpgsql
+as $$
+declare
+  m public.match;
+begin
+  select * into m from public.match where id = p_match_id for update;
+
+  if not found
+     or m.result not in ('A', 'B')
+     or m.team_a_new_elos is null
+     or m.team_b_new_elos is null then
+    raise exception 'Match % has no result to revert', p_match_id using errcode = 'P0002';
+  end if;
+
+  update public.match x
+     set team_a_elos = r.team_a_elos,
+         team_b_elos = r.team_b_elos,
+         team_a_new_elos = r.team_a_new_elos,
+         team_b_new_elos = r.team_b_new_elos
+    from jsonb_to_recordset(p_matches) as r(
+      id bigint,
+      team_a_elos integer[],
+      team_b_elos integer[],
+      team_a_new_elos integer[],
+      team_b_new_elos integer[]
+    )
+   where x.id = r.id
+     and x.id <> p_match_id;
+
+  update public.player p
+     set elo = r.elo,
+         win = r.win,
+         total = r.total
+    from jsonb_to_recordset(p_players) as r(id bigint, elo integer, win integer, total integer)
+   where p.id = r.id;
+
+  update public.match set result = 'Reverted' where id = p_match_id returning * into m;
+
+  return m;
+end;
+$$;
+
+-- Only the API (service role) may call it; browsers go through /api/matches
+revoke execute on function public.revert_match(bigint, jsonb, jsonb) from public, anon, authenticated;
@@ -0,0 +1,51 @@
+-- Closing a season and opening the next used to be three separate writes from the browser, so a
+-- failure halfway could leave no open season or only some players reset. The client works out the
+-- new starting ratings from the reset policy (see resetPlayers) and this lands the snapshot, the
+-- reset and the new season in one transaction.
+
+create or replace function public.start_season(p_name text, p_players jsonb)
+returns public.season
+language plpgsql
+as $$
+declare
+  s public.season;
+begin
+  perform public.require_admin();
+
+  if exists (select 1 from public.match where result is null) then
+    raise exception 'Finish or cancel the match in progress first' using errcode = '22023';
+  end if;
+
+  perform 1 from public.player for update;
+
+  -- Freeze every player as they stand into the closing season (see SeasonSnapshotEntry)
+  update public.season
+     set "end" = now(),
+         players = (
+           select coalesce(
+                    jsonb_agg(
+                      jsonb_build_object('id', id, 'elo', elo, 'win', win, 'total', total, 'hidden', hidden)
+                      order by elo desc
+                    ),
+                    '[]'::jsonb
+                  )
+             from public.player
+         )
+   where "end" is null;
+
+  update public.player p
+     set elo = r.elo,
+         win = r.win,
+         total = r.total,
+         is_decaying = false
+    from jsonb_to_recordset(p_players) as r(id bigint, elo integer, win integer, total integer)
+   where p.id = r.id;
+
+  insert into public.season (name, start) values (p_name, now()) returning * into s;
+
+  return s;
+end;
+$$;
+
+revoke execute on function public.start_season(text, jsonb) from public, anon;
+grant execute on function public.start_season(text, jsonb) to authenticated;
@@ -0,0 +1,82 @@
+-- end_match used to write the API's post-match Elos as absolute values, computed from a plain read,
+-- so two writes to the same player at once could overwrite each other. It now takes each player's
+-- swing instead and applies it to their row under a lock.
+
+drop function public.end_match(bigint, text, integer[], integer[], text[], text[], text[], text[]);
+
+create function public.end_match(
+  p_match_id bigint,
+  p_result text,
+  p_team_a_deltas integer[],
+  p_team_b_deltas integer[],
+  p_team_a_champions text[] default null,
+  p_team_a_roles text[] default null,
+  p_team_b_champions text[] default null,
+  p_team_b_roles text[] default null
+)
+returns public.match
+language plpgsql
+as $$
+declare
+  m public.match;
+begin
+  if p_result not in ('A', 'B') then
+    raise exception 'Invalid result %', p_result using errcode = '22023';
+  end if;
+
+  update public.match
+     set result = p_result,
+         team_a_champions = coalesce(p_team_a_champions, team_a_champions),
+         team_a_roles = coalesce(p_team_a_roles, team_a_roles),
+         team_b_champions = coalesce(p_team_b_champions, team_b_champions),
+         team_b_roles = coalesce(p_team_b_roles, team_b_roles)
+   where id = p_match_id
+     and result is null
+  returning * into m;
+
+  if not found then
+    raise exception 'Match % is not in progress', p_match_id using errcode = 'P0002';
+  end if;
+
+  -- In id order, so two matches locking the same players can't deadlock
+  perform 1
+     from public.player
+    where id = any (m.team_a_players || m.team_b_players)
+    order by id
+      for update;
+
+  update public.match
+     set team_a_new_elos = array(
+           select p.elo + t.delta
+             from unnest(m.team_a_players, p_team_a_deltas) with ordinality as t(id, delta, ord)
+             join public.player p on p.id = t.id
+            order by t.ord
+         ),
+         team_b_new_elos = array(
+           select p.elo + t.delta
+             from unnest(m.team_b_players, p_team_b_deltas) with ordinality as t(id, delta, ord)
+             join public.player p on p.id = t.id
+            order by t.ord
+         )
+   where id = p_match_id
+  returning * into m;
+
+  update public.player p
+     set elo = p.elo + s.delta,
+         win = p.win + case when s.won then 1 else 0 end,
+         total = p.total + 1,
+         is_decaying = false
+    from (
+      select unnest(m.team_a_players) as id, unnest(p_team_a_deltas) as delta, p_result = 'A' as won
+      union all
+      select unnest(m.team_b_players), unnest(p_team_b_deltas), p_result = 'B'
+    ) s
+   where p.id = s.id;
+
+  return m;
+end;
+$$;
+
+-- Only the API (service role) may call it; browsers go through /api/matches
+revoke execute on function public.end_match(bigint, text, integer[], integer[], text[], text[], text[], text[])
+  from public, anon, authenticated;
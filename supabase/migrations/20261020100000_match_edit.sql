@@ -0,0 +1,25 @@
+-- Audit log for edits to a finished match's teams or winner: who made the edit, and the teams and
+-- result before and after it.
+
+create table if not exists public.match_edit (
+  id bigint generated by default as identity primary key,
+  created_at timestamptz not null default now(),
+  match_id bigint not null references public.match (id),
+  user_id uuid,
+  player_id bigint references public.player (id),
+  before jsonb not null,
+  after jsonb not null
+);
+
+-- Same policies as every other table (see 20261019200000_row_level_security.sql), which skips
+-- this table on a database where it didn't exist yet
+alter table public.match_edit enable row level security;
+drop policy if exists "Anyone can read" on public.match_edit;
+drop policy if exists "Admins can insert" on public.match_edit;
+drop policy if exists "Admins can update" on public.match_edit;
+drop policy if exists "Admins can delete" on public.match_edit;
+create policy "Anyone can read" on public.match_edit for select using (true);
+create policy "Admins can insert" on public.match_edit for insert to authenticated with check (public.is_admin());
+create policy "Admins can update" on public.match_edit for update to authenticated
+  using (public.is_admin()) with check (public.is_admin());
+create policy "Admins can delete" on public.match_edit for delete to authenticated using (public.is_admin());
@@ -0,0 +1,21 @@
+-- App-wide settings as key/value pairs, starting with the rating system the leaderboard ranks by
+-- ('rating_system': "elo", "glicko2" or "trueskill").
+
+create table if not exists public.setting (
+  key text primary key,
+  value jsonb not null,
+  updated_at timestamptz not null default now()
+);
+
+-- Same policies as every other table (see 20261019200000_row_level_security.sql), which skips
+-- this table on a database where it didn't exist yet
+alter table public.setting enable row level security;
+drop policy if exists "Anyone can read" on public.setting;
+drop policy if exists "Admins can insert" on public.setting;
+drop policy if exists "Admins can update" on public.setting;
+drop policy if exists "Admins can delete" on public.setting;
+create policy "Anyone can read" on public.setting for select using (true);
+create policy "Admins can insert" on public.setting for insert to authenticated with check (public.is_admin());
+create policy "Admins can update" on public.setting for update to authenticated
+  using (public.is_admin()) with check (public.is_admin());
+create policy "Admins can delete" on public.setting for delete to authenticated using (public.is_admin());
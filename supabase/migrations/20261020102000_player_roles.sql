@@ -0,0 +1,5 @@
+-- Lanes each player likes to play, used to balance teams by lane comfort. Players who haven't
+-- picked any are treated as comfortable everywhere.
+
+alter table public.player add column if not exists preferred_roles text[] not null default '{}';
+alter table public.player add column if not exists secondary_roles text[] not null default '{}';
@@ -0,0 +1,7 @@
+-- Champion and lane per player, recorded when a match ends. Stored by slot, in the same order as
+-- team_a_players / team_b_players; null for matches ended without picks.
+
+alter table public.match add column if not exists team_a_champions text[];
+alter table public.match add column if not exists team_b_champions text[];
+alter table public.match add column if not exists team_a_roles text[];
+alter table public.match add column if not exists team_b_roles text[];
@@ -0,0 +1,74 @@
+-- Rewrites that replay the season (reverting a match, and in later migrations editing one or
+-- merging players) used to write every affected player's Elo, wins and totals back as absolute
+-- values computed from an unlocked read, so a match ended or decay applied in the meantime was
+-- overwritten. They now send what changes and add it to the rows under a lock, as end_match does.
+
+-- Adds each { id, elo, win, total } change to its player, locking the rows in id order so two
+-- rewrites touching the same players can't deadlock. Runs as the caller, so row-level security and
+-- guard_player_update still keep it to admins and the service role.
+create or replace function public.apply_rating_deltas(p_deltas jsonb)
+returns void
+language plpgsql
+as $$
+begin
+  perform 1
+     from public.player
+    where id in (select r.id from jsonb_to_recordset(p_deltas) as r(id bigint))
+    order by id
+      for update;
+
+  update public.player p
+     set elo = p.elo + r.elo,
+         win = p.win + r.win,
+         total = p.total + r.total
+    from jsonb_to_recordset(p_deltas) as r(id bigint, elo integer, win integer, total integer)
+   where p.id = r.id;
+end;
+$$;
+
+revoke execute on function public.apply_rating_deltas(jsonb) from public, anon;
+grant execute on function public.apply_rating_deltas(jsonb) to authenticated;
+
+drop function public.revert_match(bigint, jsonb, jsonb);
+
+create function public.revert_match(p_match_id bigint, p_matches jsonb, p_deltas jsonb)
+returns public.match
+language plpgsql
+as $$
+declare
+  m public.match;
+begin
+  select * into m from public.match where id = p_match_id for update;
+
+  if not found
+     or m.result not in ('A', 'B')
+     or m.team_a_new_elos is null
+     or m.team_b_new_elos is null then
+    raise exception 'Match % has no result to revert', p_match_id using errcode = 'P0002';
+  end if;
+
+  update public.match x
+     set team_a_elos = r.team_a_elos,
+         team_b_elos = r.team_b_elos,
+         team_a_new_elos = r.team_a_new_elos,
+         team_b_new_elos = r.team_b_new_elos
+    from jsonb_to_recordset(p_matches) as r(
+      id bigint,
+      team_a_elos integer[],
+      team_b_elos integer[],
+      team_a_new_elos integer[],
+      team_b_new_elos integer[]
+    )
+   where x.id = r.id
+     and x.id <> p_match_id;
+
+  perform public.apply_rating_deltas(p_deltas);
+
+  update public.match set result = 'Reverted' where id = p_match_id returning * into m;
+
+  return m;
+end;
+$$;
+
+-- Only the API (service role) may call it; browsers go through /api/matches
+revoke execute on function public.revert_match(bigint, jsonb, jsonb) from public, anon, authenticated;
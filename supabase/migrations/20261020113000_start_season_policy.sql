@@ -0,0 +1,65 @@
+-- start_season takes the reset policy instead of the new ratings. The browser worked them out
+-- from the players it had loaded, so a match ended meanwhile was lost on reset, and the soft
+-- reset pulled toward a stale mean. The rules match resetPlayers in src/utils/seasons.ts.
+
+drop function public.start_season(text, jsonb);
+
+create function public.start_season(p_name text, p_policy text)
+returns public.season
+language plpgsql
+as $$
+declare
+  s public.season;
+  field_mean numeric;
+begin
+  perform public.require_admin();
+
+  if p_policy is null or p_policy not in ('hard', 'soft', 'carry') then
+    raise exception 'Unknown reset policy %', p_policy using errcode = '22023';
+  end if;
+
+  if exists (select 1 from public.match where result is null) then
+    raise exception 'Finish or cancel the match in progress first' using errcode = '22023';
+  end if;
+
+  perform 1 from public.player order by id for update;
+
+  -- Only players who played last season pull the soft-reset mean
+  select coalesce(avg(elo), 1500) into field_mean from public.player where total > 0;
+
+  -- Freeze every player as they stand into the closing season (see SeasonSnapshotEntry)
+  update public.season
+     set "end" = now(),
+         players = (
+           select coalesce(
+                    jsonb_agg(
+                      jsonb_build_object('id', id, 'elo', elo, 'win', win, 'total', total, 'hidden', hidden)
+                      order by elo desc
+                    ),
+                    '[]'::jsonb
+                  )
+             from public.player
+         )
+   where "end" is null;
+
+  -- A soft reset keeps half of each active player's distance from the mean, rounded half up
+  update public.player
+     set elo = case
+                 when p_policy = 'hard' then 1500
+                 when p_policy = 'soft' and total > 0 then floor(field_mean + (elo - field_mean) * 0.5 + 0.5)::integer
+                 else elo
+               end,
+         win = 0,
+         total = 0,
+         is_decaying = false
+   -- pg_safeupdate refuses an update without a where clause
+   where true;
+
+  insert into public.season (name, start) values (p_name, now()) returning * into s;
+
+  return s;
+end;
+$$;
+
+revoke execute on function public.start_season(text, text) from public, anon;
+grant execute on function public.start_season(text, text) to authenticated;
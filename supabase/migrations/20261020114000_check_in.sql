@@ -0,0 +1,47 @@
+-- Checking in goes through check_in, which clears a lobby that has been idle longer than the
+-- `lobby_idle_hours` setting before adding the new check-ins (the same rule as getActiveLobby).
+-- The browser used to make that call from the data it had loaded and delete every row itself,
+-- so a tab left open overnight could wipe a live lobby.
+--
+-- Members can still check anyone in or out on purpose: the host runs the lobby for the whole
+-- table (see AvailablePlayers), and most players never open the app themselves.
+
+create or replace function public.check_in(p_player_ids bigint[])
+returns void
+language plpgsql
+as $$
+declare
+  idle_hours double precision;
+  last_activity timestamptz;
+begin
+  if public.current_player_id() is null then
+    raise exception 'Only members can check players in' using errcode = '42501';
+  end if;
+
+  -- One check-in at a time, so two hosts can't each find the lobby idle and clear the other's
+  lock table public.lobby in share row exclusive mode;
+
+  select value::double precision
+    into idle_hours
+    from public.setting
+   where key = 'lobby_idle_hours'
+     and jsonb_typeof(value) = 'number'
+     and value::double precision > 0;
+
+  -- A started match counts as activity too
+  select greatest(max(checked_in_at), (select max(created_at) from public.match))
+    into last_activity
+    from public.lobby;
+
+  if last_activity < now() - coalesce(idle_hours, 6) * interval '1 hour' then
+    delete from public.lobby where true;
+  end if;
+
+  insert into public.lobby (player_id, checked_in_at)
+  select id, now() from unnest(p_player_ids) as id
+  on conflict (player_id) do update set checked_in_at = excluded.checked_in_at;
+end;
+$$;
+
+revoke execute on function public.check_in(bigint[]) from public, anon;
+grant execute on function public.check_in(bigint[]) to authenticated;
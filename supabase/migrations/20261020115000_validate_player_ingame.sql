@@ -0,0 +1,15 @@
+-- player_ingame_length was added `not valid`, which still checks every update of a row. A legacy
+-- in-game name out of range made ending a match, decay, season resets, merges and adjustments
+-- fail for that player. Bring the old names in range and check them all from now on.
+
+-- Stray whitespace is trimmed, names too short to be real are dropped (displayName falls back to
+-- the player's name) and overly long ones are cut to the in-game limit
+update public.player
+   set ingame = case
+                  when char_length(btrim(ingame)) < 3 then null
+                  else left(btrim(ingame), 16)
+                end
+ where ingame is not null
+   and (ingame <> btrim(ingame) or char_length(ingame) not between 3 and 16);
+
+alter table public.player validate constraint player_ingame_length;
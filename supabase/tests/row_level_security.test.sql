@@ -0,0 +1,194 @@
+-- Run with `npx supabase start` once, then `npm run test:db`. Each block acts as a browser would:
+-- the `authenticated` (or `anon`) role with the JWT claims of one of the users below.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(35);
+
+insert into public.player (id, name, email, elo, "isAdmin")
+values
+  (9001, 'Admin', 'admin@example.com', 1500, true),
+  (9002, 'Member', 'member@example.com', 1500, false),
+  (9003, 'Rival', 'rival@example.com', 1600, false),
+  (9004, 'Unclaimed', null, 1400, false);
+
+insert into auth.users (id, email)
+values
+  ('00000000-0000-0000-0000-000000000001', 'admin@example.com'),
+  ('00000000-0000-0000-0000-000000000002', 'member@example.com'),
+  ('00000000-0000-0000-0000-000000000005', 'new@example.com');
+
+insert into public.player_login (user_id, player_id)
+values
+  ('00000000-0000-0000-0000-000000000001', 9001),
+  ('00000000-0000-0000-0000-000000000002', 9002);
+
+insert into public.feedback (id, text, user_id, player_id)
+values (9001, 'More lanes', '00000000-0000-0000-0000-000000000002', 9002);
+
+-- A member ----------------------------------------------------------------------------------------
+set local role authenticated;
+set local request.jwt.claims to
+  '{"sub": "00000000-0000-0000-0000-000000000002", "email": "member@example.com", "role": "authenticated"}';
+
+select throws_ok(
+  $$select public.set_player_admin(9002, true)$$,
+  '42501', null, 'members cannot make themselves admin'
+);
+select throws_ok(
+  $$select public.adjust_elo(9002, 'compensation', 100, 'trust me')$$,
+  '42501', null, 'members cannot adjust Elo'
+);
+select throws_ok(
+  $$select public.set_player_hidden(9003, true)$$,
+  '42501', null, 'members cannot hide players'
+);
+select throws_ok(
+  $$select public.set_feedback_status(9001, 'done')$$,
+  '42501', null, 'members cannot moderate feedback'
+);
+select throws_ok(
+  $$select public.merge_players(9003, 9004, '[]', '[]')$$,
+  '42501', null, 'members cannot merge players'
+);
+select throws_ok(
+  $$select public.edit_match(1, '{}', '[]', '[]')$$,
+  '42501', null, 'members cannot edit finished matches'
+);
+select throws_ok(
+  $$select public.end_match(1, 'A', '{}', '{}')$$,
+  '42501', null, 'members cannot end matches without the API'
+);
+select throws_ok(
+  $$update public.player set elo = 3000 where id = 9002$$,
+  '42501', null, 'members cannot change their own Elo'
+);
+select throws_ok(
+  $$update public.player set email = 'someone@example.com' where id = 9002$$,
+  '42501', null, 'members cannot rewrite their claimed email'
+);
+select lives_ok(
+  $$update public.player set name = 'Renamed', ingame = 'Rename#EUW' where id = 9002$$,
+  'members can edit their profile'
+);
+select lives_ok(
+  $$update public.player set ingame_tag = 'EUW', rank = 'Gold II', favorite_champions = '{Ahri}', bio = 'Hi'
+    where id = 9002$$,
+  'members can fill in their rank, champions and bio'
+);
+select throws_ok(
+  $$update public.player set rank = 'Gold V' where id = 9002$$,
+  '23514', null, 'ranks have to be real ones'
+);
+select lives_ok(
+  $$update public.player set name = 'Hijacked' where id = 9003$$,
+  'editing someone else''s profile is silently filtered out'
+);
+select throws_ok(
+  $$insert into public.pairing (player1, player2) values (9002, 9003)$$,
+  '42501', null, 'members cannot add pairings'
+);
+select throws_ok(
+  $$insert into public.setting (key, value) values ('rating_system', '"elo"')$$,
+  '42501', null, 'members cannot change settings'
+);
+select throws_ok(
+  $$insert into public.season (name, start) values ('Mine', now())$$,
+  '42501', null, 'members cannot start seasons'
+);
+select throws_ok(
+  $$select public.start_season('Mine', 'carry')$$,
+  '42501', null, 'members cannot close the season'
+);
+select throws_ok(
+  $$update public.feedback set status = 'done' where id = 9001$$,
+  '42501', null, 'authors cannot set the status of their feedback'
+);
+select throws_ok(
+  $$insert into public.match (team_a_players, team_b_players, team_a_elos, team_b_elos, result)
+    values ('{9002}', '{9003}', '{1500}', '{1600}', 'A')$$,
+  '42501', null, 'members cannot insert finished matches'
+);
+select lives_ok(
+  $$insert into public.match (id, team_a_players, team_b_players, team_a_elos, team_b_elos)
+    values (9001, '{9002}', '{9003}', '{2500}', '{100}')$$,
+  'members can start a match'
+);
+select lives_ok(
+  $$insert into public.lobby (player_id) values (9003)$$,
+  'members can check players in'
+);
+select lives_ok(
+  $$select public.check_in('{9002, 9003}')$$,
+  'members can check in through check_in'
+);
+select throws_ok(
+  $$select public.claim_player(9004)$$,
+  '22023', null, 'members cannot claim a second player'
+);
+
+-- A signed-in user without a player --------------------------------------------------------------
+set local request.jwt.claims to
+  '{"sub": "00000000-0000-0000-0000-000000000005", "email": "new@example.com", "role": "authenticated"}';
+
+select lives_ok($$select public.claim_player(9002)$$, 'users can ask to be linked to a player');
+select throws_ok(
+  $$select public.claim_player(9004)$$,
+  '22023', null, 'users have one claim open at a time'
+);
+select throws_ok(
+  $$insert into public.player_login (user_id, player_id) values ('00000000-0000-0000-0000-000000000005', 9002)$$,
+  '42501', null, 'users cannot link themselves'
+);
+select is(public.current_player_id(), null, 'a pending claim links nothing yet');
+
+-- Signed out --------------------------------------------------------------------------------------
+set local role anon;
+set local request.jwt.claims to '{"role": "anon"}';
+
+select throws_ok(
+  $$insert into public.lobby (player_id) values (9002)$$,
+  '42501', null, 'guests cannot check in'
+);
+select throws_ok(
+  $$select public.check_in('{9002}')$$,
+  '42501', null, 'guests cannot call check_in'
+);
+
+-- An admin ----------------------------------------------------------------------------------------
+set local role authenticated;
+set local request.jwt.claims to
+  '{"sub": "00000000-0000-0000-0000-000000000001", "email": "admin@example.com", "role": "authenticated"}';
+
+select lives_ok(
+  $$insert into public.pairing (player1, player2) values (9002, 9003)$$,
+  'admins can add pairings'
+);
+select lives_ok($$select public.set_feedback_status(9001, 'done')$$, 'admins can moderate feedback');
+select lives_ok(
+  $$select public.review_claim(id, true) from public.player_claim where user_id = '00000000-0000-0000-0000-000000000005'$$,
+  'admins can approve claims'
+);
+
+reset role;
+
+select is(
+  (select name from public.player where id = 9003),
+  'Rival',
+  'other players'' profiles are untouched'
+);
+select is(
+  (select team_a_elos || team_b_elos from public.match where id = 9001),
+  '{1500,1600}'::integer[],
+  'a started match takes the stored Elo, not the one sent'
+);
+select is(
+  (select count(*)::integer from public.player_login where player_id = 9002),
+  2,
+  'an approved claim adds a second login to the player'
+);
+
+select finish();
+
+rollback;